@@ -1,6 +1,7 @@
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
   api: '1.0',
   id: 'drives',
   version: '0.5.0',
@@ -28,7 +29,17 @@ export default {
     }
   },
   
+  configSchema: {
+    view: {
+      layout:       { type: 'string', enum: ['grid', 'list'] },
+      columns:      { type: 'number', min: 1, max: 12 },
+      itemSize:     { type: 'string', enum: ['sm', 'md', 'lg'] },
+      showFsType:   { type: 'boolean' },
+      showCapacity: { type: 'boolean' },
+    }
+  },
+  
   capabilities: [
 		{ cap: 'Metadata', reason: 'Reads drive capacity and filesystem info' },
 	]
-}
\ No newline at end of file
+})
\ No newline at end of file
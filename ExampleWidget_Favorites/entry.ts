@@ -1,7 +1,8 @@
 // src/widgets/favorites/entry.ts
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
   api: '1.0',
   id: 'favorites',
   version: '0.1.0',
@@ -52,9 +53,4 @@ export default {
       dense: true,
     },
   },
-
-  capabilities: [
-		{ cap: 'Read',  reason: 'Reads favorite paths to display them' },
-		{ cap: 'Write', reason: 'Adds and removes favorites' },
-	]
-}
+})
@@ -4,8 +4,9 @@
 // Third parties can define identical hooks for their own schemes.
 
 import ChatRoom from './ChatRoom.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
     id: 'gexchange',
     version: '1.0.0',
     displayName: 'GExchange',
@@ -131,4 +132,4 @@ export default {
         data: { room: '' },
         view: { layout: 'chat' },
     },
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,15 +1,17 @@
 // src/widgets/code-sandbox/entry.ts
-export default {
+import { defineWidget } from 'gexplorer/widgets'
+
+export default defineWidget({
     id: 'code-sandbox',
     version: '1.0.0',
     Component: {}, // The standalone full-tab widget (to be built later)
     
     // I am hooking into GExchange!
-    extensions: [
+    provides: [
         {
-            targetPoint: 'gexchange.board',
-            meta: { label: 'Code Sandbox', icon: 'mdi-code-tags' },
+            point: 'gexchange.board',
+            props: { label: 'Code Sandbox', icon: 'mdi-code-tags' },
             component: () => import('./SandboxBoard.vue')
         }
     ]
-}
\ No newline at end of file
+})
\ No newline at end of file
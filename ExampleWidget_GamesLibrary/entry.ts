@@ -1,6 +1,6 @@
 // widgets/game-library/entry.ts
 import Widget from './Widget.vue'
-import { registerWidgetMenus } from 'gexplorer/widgets'
+import { defineWidget, registerWidgetMenus } from 'gexplorer/widgets'
 
 const menuConfig = {
   contributions: [
@@ -47,7 +47,7 @@ const menuConfig = {
 
 registerWidgetMenus('game-library', menuConfig)
 
-export default {
+export default defineWidget({
   api: '1.0',
   id: 'game-library',
   version: '0.1.0',
@@ -84,6 +84,20 @@ export default {
     }
   },
 
+  configSchema: {
+    data: {
+      providers:   { type: 'array' },
+      filterText:  { type: 'string' },
+      selectedKey: { type: 'string' },
+    },
+    view: {
+      layout:            { type: 'string', enum: ['grid', 'hero', 'compact'] },
+      tileSize:          { type: 'string', enum: ['sm', 'md', 'lg'] },
+      sort:              { type: 'string', enum: ['recent', 'alpha', 'installed'] },
+      showOnlyInstalled: { type: 'boolean' },
+    },
+  },
+
   // we’ll keep this empty until you wire net perms
   capabilities: []
-}
+})
@@ -1,6 +1,7 @@
 // src/widgets/items/entry.ts
 
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
 // ============================================================================
 // Menu contributions
@@ -37,7 +38,7 @@ const menuConfig = {
             scope: 'folder',
             items: [
                 {
-                    id:       'items.rename-menu-item',
+                    id:       'items.rename-folder-menu-item',
                     type:     'command',
                     actionId: 'fs.rename',
                     section:  '@core.edit',
@@ -52,7 +53,7 @@ const menuConfig = {
 // Widget definition
 // ============================================================================
 
-export default {
+export default defineWidget({
     api:     '1.0',
     id:      'items',
     version: '0.3.1',
@@ -139,4 +140,4 @@ export default {
 		{ cap: 'Metadata',  reason: 'Resolves file icons and shortcut targets' },
 		{ cap: 'Clipboard', reason: 'Copies and cuts files to the clipboard' },
 	]
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,6 +1,7 @@
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
   api: '1.0',
   id: 'weather',
   version: '0.1.0',
@@ -23,5 +24,7 @@ export default {
     view: { refreshInterval: 300000 }
   },
   
-  capabilities: ['Network']
-}
\ No newline at end of file
+  capabilities: [
+    { cap: 'Network', reason: 'Fetches forecasts from api.weather.gov' },
+  ]
+})
\ No newline at end of file
@@ -1,7 +1,8 @@
 // src/widgets/links/src/entry.ts
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
   api: '1.0',
   id: 'links',
   version: '1.0.0',
@@ -33,4 +34,4 @@ export default {
   },
   
   capabilities: []
-}
\ No newline at end of file
+})
\ No newline at end of file
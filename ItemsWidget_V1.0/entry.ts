@@ -2,6 +2,7 @@
 
 import Widget from './Widget.vue'
 import { registerWidgetMenus } from '/src/contextmenu'
+import { defineWidget } from 'gexplorer/widgets'
 
 // Define menu contributions for the Items widget
 const menuConfig = {
@@ -11,9 +12,9 @@ const menuConfig = {
       scope: 'background',
       items: [
         {
-          id: 'items.refresh-menu-item',
+          id: 'items-v1.refresh-menu-item',
           type: 'command',
-          actionId: 'items.refresh',
+          actionId: 'items-v1.refresh',
           section: '@core.view',
           order: 10,
         },
@@ -24,7 +25,7 @@ const menuConfig = {
       scope: 'all',  // ✅ Changed from 'selection' to 'all'
       items: [
         {
-          id: 'items.rename-menu-item',
+          id: 'items-v1.rename-menu-item',
           type: 'command',
           actionId: 'fs.rename',
           section: '@core.edit',
@@ -36,11 +37,11 @@ const menuConfig = {
 }
 
 // Register the menu contributions when the widget loads
-registerWidgetMenus('items', menuConfig)
+registerWidgetMenus('items-v1', menuConfig)
 
-export default {
+export default defineWidget({
   api: '1.0',
-  id: 'items',
+  id: 'items-v1',
   version: '0.3.1',
   Component: Widget,
   
@@ -76,5 +77,9 @@ export default {
     }
   },
   
-  capabilities: []
-}
\ No newline at end of file
+  capabilities: [
+    { cap: 'Read',     reason: 'Lists directory contents' },
+    { cap: 'Write',    reason: 'Renames and moves files' },
+    { cap: 'Metadata', reason: 'Loads the file icon pack' },
+  ]
+})
\ No newline at end of file
@@ -1,8 +1,9 @@
 // src/widgets/music/src/entry.ts
 
 import Widget from './Widget.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
     api:     '1.0',
     id:      'local-player',
     version: '1.0.0',
@@ -75,8 +76,7 @@ export default {
     },
 
     capabilities: [
-        { cap: 'Read',  reason: 'Reads audio files and playlists chosen by the user' },
         { cap: 'Write', reason: 'Saves playlists to disk' },
         { cap: 'Media', reason: 'Streams audio files via HTTP for playback' },
     ]
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,148 @@
+// mock-host/audio.ts
+//
+// Minimal audio rack behind useAudio(). Elements are plain <audio> elements
+// cached per (ownerId, category, key); playlists track items / index /
+// repeat / shuffle per selector and drive the bound element.
+//
+// Playback itself is best-effort — play() rejections (autoplay policy, blob
+// URLs of fake media) are swallowed so the widget's state still advances.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface AudioSelector {
+    ownerId:  string
+    category: string
+    key:      string
+}
+
+interface PlaylistItem {
+    id:    string
+    src:   string
+    name?: string
+    type?: string
+}
+
+interface PlaylistState {
+    items:   PlaylistItem[]
+    index:   number
+    repeat:  'off' | 'one' | 'all'
+    shuffle: boolean
+    element: HTMLAudioElement | null
+    onEnded: (() => void) | null
+}
+
+export interface MockAudio {
+    prime(): void
+    acquireElement(opts: AudioSelector & Record<string, any>): HTMLAudioElement
+    setRenewProvider(provider: (req: { ownerId: string; sourcePath: string; mimeHint?: string }) => Promise<string>): void
+    playlists: {
+        register(sel: AudioSelector, items: PlaylistItem[], options?: Record<string, any>): void
+        setItems(sel: AudioSelector, items: PlaylistItem[], options?: { keepCurrent?: boolean }): void
+        setOptions(sel: AudioSelector, options: { repeat?: PlaylistState['repeat']; shuffle?: boolean }): void
+        bindToHandle(sel: AudioSelector, el: HTMLAudioElement): void
+        unbind(sel: AudioSelector): void
+        playIndex(sel: AudioSelector, index: number, el?: HTMLAudioElement): Promise<number>
+        next(sel: AudioSelector, el?: HTMLAudioElement): Promise<number>
+        prev(sel: AudioSelector, el?: HTMLAudioElement): Promise<number>
+    }
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+const selKey = (sel: AudioSelector) => `${sel.ownerId}:${sel.category}:${sel.key}`
+
+export function createMockAudio(): MockAudio {
+    const elements  = new Map<string, HTMLAudioElement>()
+    const playlists = new Map<string, PlaylistState>()
+
+    const state = (sel: AudioSelector): PlaylistState => {
+        const key = selKey(sel)
+        let s = playlists.get(key)
+        if (!s) {
+            s = { items: [], index: -1, repeat: 'off', shuffle: false, element: null, onEnded: null }
+            playlists.set(key, s)
+        }
+        return s
+    }
+
+    const start = async (s: PlaylistState, index: number, el?: HTMLAudioElement): Promise<number> => {
+        const item = s.items[index]
+        if (!item) return -1
+        s.index = index
+        const target = el ?? s.element
+        if (target) {
+            target.src = item.src
+            await target.play().catch(() => {})
+        }
+        return index
+    }
+
+    const step = (s: PlaylistState, dir: 1 | -1): number => {
+        const n = s.items.length
+        if (n === 0) return -1
+        if (s.repeat === 'one') return Math.max(0, s.index)
+        if (s.shuffle && n > 1) {
+            let i = s.index
+            while (i === s.index) i = Math.floor(Math.random() * n)
+            return i
+        }
+        const i = s.index + dir
+        if (i >= 0 && i < n) return i
+        return s.repeat === 'all' ? (i + n) % n : -1
+    }
+
+    const playlistApi: MockAudio['playlists'] = {
+        register(sel, items, options = {}) {
+            const s = state(sel)
+            s.items = [...items]
+            if (options.repeat)  s.repeat  = options.repeat
+            if (options.shuffle !== undefined) s.shuffle = !!options.shuffle
+        },
+        setItems(sel, items, options = {}) {
+            const s = state(sel)
+            const current = s.items[s.index]?.id
+            s.items = [...items]
+            s.index = options.keepCurrent && current ? s.items.findIndex(i => i.id === current) : -1
+        },
+        setOptions(sel, options) {
+            const s = state(sel)
+            if (options.repeat)  s.repeat  = options.repeat
+            if (options.shuffle !== undefined) s.shuffle = options.shuffle
+        },
+        bindToHandle(sel, el) {
+            const s = state(sel)
+            playlistApi.unbind(sel)
+            s.element = el
+            s.onEnded = () => { void playlistApi.next(sel) }
+            el.addEventListener('ended', s.onEnded)
+        },
+        unbind(sel) {
+            const s = state(sel)
+            if (s.element && s.onEnded) s.element.removeEventListener('ended', s.onEnded)
+            s.element = null
+            s.onEnded = null
+        },
+        playIndex: (sel, index, el) => start(state(sel), index, el),
+        next:      (sel, el) => { const s = state(sel); return start(s, step(s, 1), el) },
+        prev:      (sel, el) => { const s = state(sel); return start(s, step(s, -1), el) },
+    }
+
+    return {
+        prime() {},
+
+        acquireElement(opts) {
+            const key = selKey(opts)
+            let el = elements.get(key)
+            if (!el) {
+                el = document.createElement('audio')
+                el.preload = 'metadata'
+                elements.set(key, el)
+            }
+            return el
+        },
+
+        setRenewProvider() {},
+
+        playlists: playlistApi,
+    }
+}
@@ -0,0 +1,746 @@
+// mock-host/channelFabric.ts
+//
+// In-process stand-in for the host's P2P / SP2P channel layer — backs
+// sdk.useChannel().
+//
+// Every MockHost gets a fabric. Hosts created with the same `fabric` option
+// share it, so several simulated identities can join one scopeId and talk:
+//
+//   const fabric = createChannelFabric({ clock: 'manual', seed: 7, latencyMs: 40 })
+//   const alice  = createMockHost({ fabric, identity: { userId: 'alice', publicKey: 'pk-a' } })
+//   const bob    = createMockHost({ fabric, identity: { userId: 'bob',   publicKey: 'pk-b' } })
+//   …mount GExchange on both…
+//   await fabric.flush()
+//   fabric.partition(['alice'], ['bob'])
+//
+// What it models:
+//   - sessions with the same scopeId and sessionSecret link up once both
+//     sides' canConnect() accept; peers / onPeerJoined / onPeerLeft follow
+//   - sendMessage stores the message in the sender's chat store and delivers
+//     it to every linked peer's store (→ onChatMessage) after the link's
+//     latency, unless the loss roll drops it; with nobody to send to, messages
+//     queue (queuedCount) and drain when the next link forms. Messages sent
+//     `to` given userIds reach only those peers, and wait for one of them;
+//     ephemeral ones reach onChatMessage but no chat store
+//   - partition() / heal() / disconnect() / reconnect() cut and restore links;
+//     disconnectPeer() drops one peer without degrading the route
+//   - sp2pStatus / sp2pStatusHistory walk the codes the real transport emits
+//   - voice: startCall / endCall / activePeers across linked peers
+//
+// With clock 'manual' nothing is delivered until advance() / flush(), and loss
+// and jitter are drawn from a seeded PRNG — runs are reproducible.
+
+import { ref, type Ref } from 'vue'
+import type {
+    ChatMessage,
+    MeshPeer,
+    PublicChannelOptions,
+    PublicSP2PStatusEvent,
+    SP2PRelayStatus,
+    SP2PStatusCode,
+    SP2PStatusSeverity,
+    UseChannelReturn,
+    VoicePeerState,
+} from 'gexplorer/widgets'
+import type { ChatStore } from './chatStore'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface LinkConditions {
+    latencyMs: number
+    /** Extra random delay in [0, jitterMs). */
+    jitterMs:  number
+    /** Drop probability per message / stream chunk, 0–1. */
+    loss:      number
+}
+
+export interface ChannelFabricOptions extends Partial<LinkConditions> {
+    /** 'manual' queues every delivery until advance() / flush(). Defaults to 'real'. */
+    clock?: 'real' | 'manual'
+    seed?:  number
+}
+
+export type FabricEventKind =
+    | 'join' | 'leave' | 'link' | 'unlink' | 'rejected'
+    | 'queue' | 'deliver' | 'drop' | 'stream' | 'status' | 'call'
+
+export interface FabricEvent {
+    kind:    FabricEventKind
+    at:      number
+    scopeId: string
+    from?:   string
+    to?:     string
+    detail?: any
+}
+
+export interface FabricStream {
+    scopeId: string
+    from:    string
+    to:      string
+    name:    string
+    bytes:   Uint8Array
+}
+
+export interface FabricSessionInfo {
+    scopeId:    string
+    userId:     string
+    username:   string
+    online:     boolean
+    peers:      string[]
+    queued:     number
+    callActive: boolean
+}
+
+export interface ChannelFabric {
+    now(): number
+    setDefaults(conditions: Partial<LinkConditions>): void
+    /** Conditions for the a ↔ b link, both directions. */
+    setLink(a: string, b: string, conditions: Partial<LinkConditions>): void
+    /** Cuts every link between users in different groups. Unlisted users reach everyone. */
+    partition(...groups: string[][]): void
+    heal(): void
+    /** Takes every session of `userId` offline. */
+    disconnect(userId: string): void
+    reconnect(userId: string): void
+    /** Marks `userId` as speaking in every call it is part of. */
+    setSpeaking(userId: string, speaking: boolean): void
+    /** Pushes an arbitrary status code to every session of `userId`. */
+    emitStatus(userId: string, code: SP2PStatusCode, message?: string): void
+
+    /** Manual clock: runs everything due within the next `ms`. Real clock: waits `ms`. */
+    advance(ms: number): Promise<void>
+    /** Runs until nothing is left in flight. */
+    flush(): Promise<void>
+
+    sessions(scopeId?: string): FabricSessionInfo[]
+    onStream(handler: (stream: FabricStream) => void): () => void
+    onEvent(handler: (event: FabricEvent) => void): () => void
+    readonly log: FabricEvent[]
+
+    /** Opens a channel for a host — what sdk.useChannel() calls. */
+    open(chat: ChatStore, options: PublicChannelOptions): UseChannelReturn
+}
+
+interface Outgoing {
+    msg: ChatMessage
+    /** Directed delivery — only these userIds. */
+    to?: ReadonlySet<string>
+    /** Never stored, on either side. */
+    ephemeral?: boolean
+}
+
+interface Session {
+    scopeId:  string
+    secret:   string
+    options:  PublicChannelOptions
+    chat:     ChatStore
+    joinedAt: number
+    /** EDHT bootstrap done — the session can go online. */
+    ready:    boolean
+    online:   boolean
+    disposed: boolean
+    degraded: boolean
+    links:    Set<Session>
+    outbox:   Outgoing[]
+    inCall:   boolean
+    voice:    Map<string, VoicePeerState>   // local mute / volume choices
+
+    peers:       Ref<Map<string, string>>
+    isConnected: Ref<boolean>
+    queuedCount: Ref<number>
+    callActive:  Ref<boolean>
+    transmitting: Ref<boolean>
+    activePeers: Ref<Map<string, VoicePeerState>>
+    monitorSelf: Ref<boolean>
+    relayStatus: Ref<SP2PRelayStatus>
+    status:      Ref<PublicSP2PStatusEvent | null>
+    history:     Ref<PublicSP2PStatusEvent[]>
+}
+
+interface Task {
+    at:  number
+    seq: number
+    run: () => void | Promise<void>
+}
+
+// ── Status copy ───────────────────────────────────────────────────────────────
+
+const STATUS: Record<SP2PStatusCode, [SP2PStatusSeverity, string]> = {
+    'transport.created':        ['info', 'Transport created'],
+    'edht.waiting':             ['info', 'Waiting for EDHT'],
+    'peer.presence.missing':    ['warn', 'No peer presence found'],
+    'peer.pipeline.starting':   ['info', 'Starting peer pipeline'],
+    'route.requested':          ['info', 'Route requested'],
+    'route.received':           ['info', 'Route received'],
+    'route.preparing':          ['info', 'Preparing route'],
+    'route.ready':              ['ok',   'Route ready'],
+    'route.degraded':           ['warn', 'Route degraded'],
+    'route.recovered':          ['ok',   'Route recovered'],
+    'route.rotation.requested': ['info', 'Route rotation requested'],
+    'route.rotation.ready':     ['ok',   'Route rotated'],
+    'voice.ready':              ['ok',   'Voice ready'],
+    'offline':                  ['error', 'Offline'],
+}
+
+const HISTORY_LIMIT = 50
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** mulberry32 — small, seedable, good enough for loss rolls. */
+function createRng(seed: number): () => number {
+    let a = seed >>> 0
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0
+        let t = a
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+const bytesKey = (bytes: Uint8Array) =>
+    [...bytes].map(b => b.toString(16).padStart(2, '0')).join('')
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\0${b}` : `${b}\0${a}`)
+
+const userOf = (s: Session) => s.options.identity.userId
+
+function presenceOf(s: Session): MeshPeer {
+    const p = s.options.buildPresence()
+    return {
+        userId:    p.userId || userOf(s),
+        username:  p.username,
+        publicKey: p.publicKey,
+        joinedAt:  s.joinedAt,
+        ...(p.ticket ? { ticket: p.ticket } : {}),
+    }
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createChannelFabric(options: ChannelFabricOptions = {}): ChannelFabric {
+    const manual = options.clock === 'manual'
+    const rng    = createRng(options.seed ?? 1)
+
+    let defaults: LinkConditions = {
+        latencyMs: options.latencyMs ?? 20,
+        jitterMs:  options.jitterMs  ?? 0,
+        loss:      options.loss      ?? 0,
+    }
+    const links        = new Map<string, Partial<LinkConditions>>()
+    const groups       = new Map<string, number>()
+    const offline      = new Set<string>()
+    const scopes       = new Map<string, Set<Session>>()
+    const linking      = new Set<string>()
+    const log: FabricEvent[] = []
+    const eventHandlers  = new Set<(event: FabricEvent) => void>()
+    const streamHandlers = new Set<(stream: FabricStream) => void>()
+
+    let clock    = Date.now()
+    let seq      = 0
+    let deadline = 0
+    const tasks: Task[] = []
+
+    const now = () => (manual ? clock : Date.now())
+
+    // ── Scheduling ────────────────────────────────────────────────────────
+
+    const runTask = async (run: Task['run']) => {
+        try { await run() } catch (err) { console.error('[mock-host] channel fabric task threw:', err) }
+    }
+
+    function schedule(delay: number, run: Task['run']) {
+        delay = Math.max(0, delay)
+        if (manual) {
+            tasks.push({ at: clock + delay, seq: ++seq, run })
+            return
+        }
+        deadline = Math.max(deadline, Date.now() + delay)
+        setTimeout(() => void runTask(run), delay)
+    }
+
+    // Lets promise chains started by a task (canConnect, handlers) finish
+    const settle = async () => {
+        for (let i = 0; i < 20; i++) await Promise.resolve()
+    }
+
+    async function advance(ms: number) {
+        if (!manual) {
+            await new Promise(resolve => setTimeout(resolve, ms))
+            return
+        }
+        const target = clock + ms
+        for (;;) {
+            tasks.sort((a, b) => a.at - b.at || a.seq - b.seq)
+            const next = tasks[0]
+            if (!next || next.at > target) break
+            tasks.shift()
+            clock = Math.max(clock, next.at)
+            await runTask(next.run)
+            await settle()
+        }
+        clock = target
+        await settle()
+    }
+
+    async function flush() {
+        if (!manual) {
+            while (deadline > Date.now()) await advance(deadline - Date.now() + 1)
+            await settle()
+            return
+        }
+        for (let guard = 0; tasks.length && guard < 10_000; guard++) {
+            const at = Math.min(...tasks.map(t => t.at))
+            await advance(at - clock)
+        }
+    }
+
+    // ── Bookkeeping ───────────────────────────────────────────────────────
+
+    function record(event: Omit<FabricEvent, 'at'>) {
+        const e = { ...event, at: now() }
+        log.push(e)
+        for (const h of [...eventHandlers]) {
+            try { h(e) } catch (err) { console.error('[mock-host] fabric event handler threw:', err) }
+        }
+    }
+
+    function conditionsFor(a: string, b: string): LinkConditions {
+        return { ...defaults, ...links.get(pairKey(a, b)) }
+    }
+
+    function partitioned(a: string, b: string): boolean {
+        const ga = groups.get(a)
+        const gb = groups.get(b)
+        return ga !== undefined && gb !== undefined && ga !== gb
+    }
+
+    function reachable(a: Session, b: Session): boolean {
+        return a.online && b.online
+            && !offline.has(userOf(a)) && !offline.has(userOf(b))
+            && !partitioned(userOf(a), userOf(b))
+    }
+
+    function status(s: Session, code: SP2PStatusCode, message?: string) {
+        if (s.options.transportMode !== 'sp2p') return
+        const [severity, text] = STATUS[code]
+        const event: PublicSP2PStatusEvent = { at: now(), code, severity, message: message ?? text }
+        s.status.value  = event
+        s.history.value = [...s.history.value, event].slice(-HISTORY_LIMIT)
+        record({ kind: 'status', scopeId: s.scopeId, from: userOf(s), detail: code })
+    }
+
+    function refresh(s: Session) {
+        const peers = new Map<string, string>()
+        const self  = presenceOf(s)
+        peers.set(self.userId, self.username ?? self.userId)
+        for (const peer of s.links) {
+            const p = presenceOf(peer)
+            peers.set(p.userId, p.username ?? p.userId)
+        }
+        s.peers.value       = peers
+        s.isConnected.value = s.online
+        s.queuedCount.value = s.outbox.length
+        s.relayStatus.value = { ready: s.online && s.links.size > 0, degraded: s.degraded, peerCount: s.links.size }
+    }
+
+    function refreshCall(s: Session) {
+        const active = new Map<string, VoicePeerState>()
+        if (s.inCall) {
+            for (const peer of s.links) {
+                if (!peer.inCall) continue
+                const id = userOf(peer)
+                active.set(id, { speaking: false, muted: false, volume: 1, ...s.activePeers.value.get(id), ...s.voice.get(id) })
+            }
+        }
+        s.activePeers.value = active
+    }
+
+    function notify(handler: ((peer: MeshPeer) => void) | undefined, peer: MeshPeer) {
+        try { handler?.(peer) } catch (err) { console.error('[mock-host] channel peer handler threw:', err) }
+    }
+
+    // ── Links ─────────────────────────────────────────────────────────────
+
+    async function accepts(s: Session, peer: Session): Promise<boolean> {
+        if (!s.options.canConnect) return true
+        try { return !!(await s.options.canConnect(presenceOf(peer))) } catch { return false }
+    }
+
+    async function tryLink(a: Session, b: Session) {
+        const key = `${a.scopeId}\0${pairKey(userOf(a), userOf(b))}`
+        if (a === b || a.links.has(b) || a.secret !== b.secret || linking.has(key) || !reachable(a, b)) return
+        linking.add(key)
+        try {
+            const [okA, okB] = await Promise.all([accepts(a, b), accepts(b, a)])
+            if (!okA || !okB) {
+                record({ kind: 'rejected', scopeId: a.scopeId, from: userOf(a), to: userOf(b), detail: { a: okA, b: okB } })
+                return
+            }
+            if (a.links.has(b) || !reachable(a, b)) return
+            a.links.add(b)
+            b.links.add(a)
+            record({ kind: 'link', scopeId: a.scopeId, from: userOf(a), to: userOf(b) })
+            linked(a, b)
+            linked(b, a)
+        } finally {
+            linking.delete(key)
+        }
+    }
+
+    function linked(s: Session, peer: Session) {
+        status(s, 'peer.pipeline.starting')
+        status(s, 'route.requested')
+        status(s, s.degraded ? 'route.recovered' : 'route.ready')
+        s.degraded = false
+        refresh(s)
+        refreshCall(s)
+        notify(s.options.onPeerJoined, presenceOf(peer))
+        drain(s)
+    }
+
+    function unlink(a: Session, b: Session, reason: 'leave' | 'kicked' | 'partition' | 'offline') {
+        if (!a.links.delete(b)) return
+        b.links.delete(a)
+        record({ kind: 'unlink', scopeId: a.scopeId, from: userOf(a), to: userOf(b), detail: reason })
+        for (const [s, peer] of [[a, b], [b, a]] as const) {
+            if ((reason === 'partition' || reason === 'offline') && s.online) {
+                s.degraded = true
+                status(s, 'route.degraded')
+            }
+            refresh(s)
+            refreshCall(s)
+            notify(s.options.onPeerLeft, presenceOf(peer))
+        }
+    }
+
+    function linkAll(s: Session) {
+        return Promise.all([...(scopes.get(s.scopeId) ?? [])].map(peer => tryLink(s, peer)))
+    }
+
+    async function relinkEveryone() {
+        for (const scope of scopes.values())
+            for (const s of scope) await linkAll(s)
+    }
+
+    function cutUnreachable() {
+        for (const scope of scopes.values())
+            for (const s of scope)
+                for (const peer of [...s.links])
+                    if (!reachable(s, peer)) unlink(s, peer, offline.has(userOf(s)) || offline.has(userOf(peer)) ? 'offline' : 'partition')
+    }
+
+    // ── Delivery ──────────────────────────────────────────────────────────
+
+    function deliver(from: Session, to: Session, what: string, apply: () => void) {
+        const c = conditionsFor(userOf(from), userOf(to))
+        if (c.loss > 0 && rng() < c.loss) {
+            record({ kind: 'drop', scopeId: from.scopeId, from: userOf(from), to: userOf(to), detail: what })
+            return
+        }
+        const delay = c.latencyMs + (c.jitterMs > 0 ? Math.floor(rng() * c.jitterMs) : 0)
+        schedule(delay, () => {
+            // Cut while in flight
+            if (!from.links.has(to)) {
+                record({ kind: 'drop', scopeId: from.scopeId, from: userOf(from), to: userOf(to), detail: what })
+                return
+            }
+            apply()
+            record({ kind: 'deliver', scopeId: from.scopeId, from: userOf(from), to: userOf(to), detail: what })
+        })
+    }
+
+    function transmit(s: Session, { msg, to, ephemeral }: Outgoing) {
+        for (const peer of s.links) {
+            if (to && !to.has(userOf(peer))) continue
+            deliver(s, peer, msg.id, () => peer.chat.append({ ...msg, receivedAt: now() }, { store: !ephemeral }))
+        }
+    }
+
+    function canTransmit(s: Session, { to }: Outgoing): boolean {
+        if (!s.online || s.links.size === 0) return false
+        return !to || [...s.links].some(peer => to.has(userOf(peer)))
+    }
+
+    function drain(s: Session) {
+        if (!s.online || s.links.size === 0 || s.outbox.length === 0) return
+        const queued = s.outbox.splice(0)
+        for (const out of queued) {
+            if (canTransmit(s, out)) transmit(s, out)
+            else s.outbox.push(out)
+        }
+        refresh(s)
+    }
+
+    // ── Channel ───────────────────────────────────────────────────────────
+
+    function open(chat: ChatStore, channelOptions: PublicChannelOptions): UseChannelReturn {
+        const { scopeId } = channelOptions
+        const s: Session = {
+            scopeId,
+            secret:   bytesKey(channelOptions.sessionSecret),
+            options:  channelOptions,
+            chat,
+            joinedAt: now(),
+            ready:    false,
+            online:   false,
+            disposed: false,
+            degraded: false,
+            links:    new Set(),
+            outbox:   [],
+            inCall:   false,
+            voice:    new Map(),
+
+            peers:        ref(new Map()),
+            isConnected:  ref(false),
+            queuedCount:  ref(0),
+            callActive:   ref(false),
+            transmitting: ref(false),
+            activePeers:  ref(new Map()),
+            monitorSelf:  ref(false),
+            relayStatus:  ref({ ready: false, degraded: false, peerCount: 0 }),
+            status:       ref(null),
+            history:      ref([]),
+        }
+
+        const scope = scopes.get(scopeId) ?? new Set<Session>()
+        scope.add(s)
+        scopes.set(scopeId, scope)
+        refresh(s)
+        record({ kind: 'join', scopeId, from: userOf(s) })
+        status(s, 'transport.created')
+        status(s, 'edht.waiting')
+
+        let edhtReady!: () => void
+        const whenEdhtReady = new Promise<void>(resolve => { edhtReady = resolve })
+
+        // EDHT bootstrap takes one hop
+        schedule(defaults.latencyMs, async () => {
+            if (s.disposed) return
+            s.ready  = true
+            s.online = !offline.has(userOf(s))
+            refresh(s)
+            edhtReady()
+            if (!s.online) {
+                status(s, 'offline')
+                return
+            }
+            await linkAll(s)
+            if (s.links.size === 0) status(s, 'peer.presence.missing')
+        })
+
+        const channel: UseChannelReturn = {
+            scopeId,
+            peers:       s.peers,
+            isConnected: s.isConnected,
+            queuedCount: s.queuedCount,
+
+            whenEdhtReady,
+            whenHubReady: whenEdhtReady,
+
+            async sendMessage(text, sendOptions = {}) {
+                const msg: ChatMessage = {
+                    id:         `msg-${scopeId.slice(0, 8)}-${++seq}`,
+                    scopeId,
+                    senderId:   userOf(s),
+                    senderName: presenceOf(s).username ?? userOf(s),
+                    text,
+                    type:       sendOptions.type ?? 'text',
+                    sentAt:     now(),
+                    ...(sendOptions.meta ? { meta: { ...sendOptions.meta } } : {}),
+                }
+                const out: Outgoing = {
+                    msg,
+                    ...(sendOptions.to ? { to: new Set(sendOptions.to) } : {}),
+                    ...(sendOptions.ephemeral ? { ephemeral: true } : {}),
+                }
+                if (!sendOptions.ephemeral) chat.append(msg, { notify: false })
+                if (canTransmit(s, out)) {
+                    transmit(s, out)
+                } else {
+                    s.outbox.push(out)
+                    refresh(s)
+                    record({ kind: 'queue', scopeId, from: userOf(s), detail: msg.id })
+                }
+                return { messageId: msg.id, sentAt: msg.sentAt }
+            },
+
+            sendStream(name, bytes) {
+                for (const peer of s.links) {
+                    deliver(s, peer, `stream:${name}`, () => {
+                        const stream: FabricStream = { scopeId, from: userOf(s), to: userOf(peer), name, bytes: bytes.slice() }
+                        for (const h of [...streamHandlers]) h(stream)
+                    })
+                }
+                record({ kind: 'stream', scopeId, from: userOf(s), detail: { name, size: bytes.byteLength } })
+            },
+
+            async reannounce() {
+                refresh(s)
+                for (const peer of s.links) refresh(peer)
+                await linkAll(s)
+            },
+
+            async connectToPeer(userId) {
+                const targets = [...scope].filter(p => userOf(p) === userId && p !== s)
+                if (!targets.some(p => p.online)) status(s, 'peer.presence.missing')
+                await Promise.all(targets.map(p => tryLink(s, p)))
+            },
+
+            async disconnectPeer(userId) {
+                for (const peer of [...s.links])
+                    if (userOf(peer) === userId) unlink(s, peer, 'kicked')
+            },
+
+            async dispose() {
+                if (s.disposed) return
+                if (s.inCall) await channel.endCall?.()
+                for (const peer of [...s.links]) unlink(s, peer, 'leave')
+                s.disposed = true
+                s.online   = false
+                s.outbox.length = 0
+                scope.delete(s)
+                refresh(s)
+                record({ kind: 'leave', scopeId, from: userOf(s) })
+            },
+        }
+
+        if (channelOptions.transportMode === 'sp2p') {
+            channel.relayStatus       = s.relayStatus
+            channel.sp2pStatus        = s.status
+            channel.sp2pStatusHistory = s.history
+        }
+
+        if (channelOptions.voice) {
+            Object.assign(channel, {
+                callActive:   s.callActive,
+                transmitting: s.transmitting,
+                activePeers:  s.activePeers,
+                monitorSelf:  s.monitorSelf,
+
+                async startCall(_stream: MediaStream) {
+                    s.inCall = true
+                    s.callActive.value   = true
+                    s.transmitting.value = true
+                    refreshCall(s)
+                    for (const peer of s.links) refreshCall(peer)
+                    status(s, 'voice.ready')
+                    record({ kind: 'call', scopeId, from: userOf(s), detail: 'start' })
+                },
+                async endCall() {
+                    s.inCall = false
+                    s.callActive.value   = false
+                    s.transmitting.value = false
+                    refreshCall(s)
+                    for (const peer of s.links) refreshCall(peer)
+                    record({ kind: 'call', scopeId, from: userOf(s), detail: 'end' })
+                },
+                setPeerVolume(userId: string, volume: number) {
+                    s.voice.set(userId, { ...s.voice.get(userId), volume })
+                    refreshCall(s)
+                },
+                mutePeer(userId: string, muted: boolean) {
+                    s.voice.set(userId, { ...s.voice.get(userId), muted })
+                    refreshCall(s)
+                },
+                async startMonitor(_stream: MediaStream) { s.monitorSelf.value = true },
+                async stopMonitor() { s.monitorSelf.value = false },
+            })
+        }
+
+        return channel
+    }
+
+    // ── Public surface ────────────────────────────────────────────────────
+
+    const sessionsOf = (userId: string) =>
+        [...scopes.values()].flatMap(scope => [...scope]).filter(s => userOf(s) === userId)
+
+    return {
+        now,
+        log,
+
+        setDefaults(conditions) {
+            defaults = { ...defaults, ...conditions }
+        },
+
+        setLink(a, b, conditions) {
+            links.set(pairKey(a, b), { ...links.get(pairKey(a, b)), ...conditions })
+        },
+
+        partition(...list) {
+            groups.clear()
+            list.forEach((group, i) => group.forEach(userId => groups.set(userId, i)))
+            cutUnreachable()
+        },
+
+        heal() {
+            groups.clear()
+            schedule(0, relinkEveryone)
+        },
+
+        disconnect(userId) {
+            offline.add(userId)
+            cutUnreachable()
+            for (const s of sessionsOf(userId)) {
+                s.online   = false
+                s.degraded = true
+                refresh(s)
+                status(s, 'offline')
+            }
+        },
+
+        reconnect(userId) {
+            offline.delete(userId)
+            for (const s of sessionsOf(userId)) {
+                if (!s.ready) continue
+                s.online = true
+                refresh(s)
+                status(s, 'transport.created')
+            }
+            schedule(0, relinkEveryone)
+        },
+
+        setSpeaking(userId, speaking) {
+            for (const scope of scopes.values()) {
+                for (const s of scope) {
+                    const entry = s.activePeers.value.get(userId)
+                    if (!entry) continue
+                    s.activePeers.value = new Map(s.activePeers.value).set(userId, { ...entry, speaking })
+                }
+            }
+        },
+
+        emitStatus(userId, code, message) {
+            for (const s of sessionsOf(userId)) status(s, code, message)
+        },
+
+        advance,
+        flush,
+
+        sessions(scopeId) {
+            const list = scopeId ? [...(scopes.get(scopeId) ?? [])] : [...scopes.values()].flatMap(scope => [...scope])
+            return list.map(s => ({
+                scopeId:    s.scopeId,
+                userId:     userOf(s),
+                username:   presenceOf(s).username ?? userOf(s),
+                online:     s.online,
+                peers:      [...s.links].map(userOf),
+                queued:     s.outbox.length,
+                callActive: s.inCall,
+            }))
+        },
+
+        onStream(handler) {
+            streamHandlers.add(handler)
+            return () => { streamHandlers.delete(handler) }
+        },
+
+        onEvent(handler) {
+            eventHandlers.add(handler)
+            return () => { eventHandlers.delete(handler) }
+        },
+
+        open,
+    }
+}
@@ -0,0 +1,98 @@
+// mock-host/chatStore.ts
+//
+// Per-scope chat history behind chatGetHistory / chatSearch / chatGetMessage /
+// chatUpdateMessage / onChatMessage / onChatHistoryReady.
+//
+// The real host persists every message a channel sends or receives and pushes
+// it to onChatMessage subscribers. Here `append` does both; channels and tests
+// call it directly. A sender's own copy is stored with `notify: false` — the
+// widget already shows it optimistically. Ephemeral messages are only pushed
+// (`store: false`), never kept.
+
+import type { ChatMessage, ChatMessagePatch } from 'gexplorer/widgets'
+
+export interface ChatStore {
+    append(msg: ChatMessage, options?: { notify?: boolean; store?: boolean }): void
+    /** Latest `limit` messages of a scope, oldest first. */
+    history(scopeId: string, limit?: number): ChatMessage[]
+    search(scopeId: string, query: string, limit?: number): ChatMessage[]
+    get(scopeId: string, id: string): ChatMessage | null
+    /** Rewrite a stored message in place (edit / tombstone). Null when unknown. */
+    update(scopeId: string, id: string, patch: ChatMessagePatch): ChatMessage | null
+    onMessage(handler: (msg: ChatMessage) => void): () => void
+    onHistoryReady(handler: (scopeId: string) => void): () => void
+    /** Signals that a scope's history finished syncing. */
+    markHistoryReady(scopeId: string): void
+    clear(scopeId?: string): void
+}
+
+export function createChatStore(): ChatStore {
+    const scopes         = new Map<string, ChatMessage[]>()
+    const messageHandlers = new Set<(msg: ChatMessage) => void>()
+    const readyHandlers   = new Set<(scopeId: string) => void>()
+
+    const emit = <T>(handlers: Set<(arg: T) => void>, arg: T) => {
+        for (const h of [...handlers]) {
+            try { h(arg) } catch (err) { console.error('[mock-host] chat handler threw:', err) }
+        }
+    }
+
+    return {
+        append(msg, options = {}) {
+            if (options.store === false) {
+                if (options.notify !== false) emit(messageHandlers, msg)
+                return
+            }
+            const list = scopes.get(msg.scopeId) ?? []
+            if (list.some(m => m.id === msg.id)) return
+            list.push({ ...msg, receivedAt: msg.receivedAt ?? Date.now() })
+            list.sort((a, b) => a.sentAt - b.sentAt)
+            scopes.set(msg.scopeId, list)
+            if (options.notify !== false) emit(messageHandlers, msg)
+        },
+
+        history(scopeId, limit = 100) {
+            const list = scopes.get(scopeId) ?? []
+            return list.slice(Math.max(0, list.length - limit)).map(m => ({ ...m }))
+        },
+
+        search(scopeId, query, limit = 50) {
+            const q = query.trim().toLowerCase()
+            if (!q) return []
+            return (scopes.get(scopeId) ?? [])
+                .filter(m => m.type === 'text' && !m.deletedAt && m.text.toLowerCase().includes(q))
+                .slice(-limit)
+                .map(m => ({ ...m }))
+        },
+
+        get(scopeId, id) {
+            const msg = scopes.get(scopeId)?.find(m => m.id === id)
+            return msg ? { ...msg } : null
+        },
+
+        update(scopeId, id, patch) {
+            const list = scopes.get(scopeId) ?? []
+            const i    = list.findIndex(m => m.id === id)
+            if (i < 0) return null
+            list[i] = { ...list[i], ...patch }
+            return { ...list[i] }
+        },
+
+        onMessage(handler) {
+            messageHandlers.add(handler)
+            return () => { messageHandlers.delete(handler) }
+        },
+
+        onHistoryReady(handler) {
+            readyHandlers.add(handler)
+            return () => { readyHandlers.delete(handler) }
+        },
+
+        markHistoryReady: scopeId => emit(readyHandlers, scopeId),
+
+        clear(scopeId) {
+            if (scopeId) scopes.delete(scopeId)
+            else scopes.clear()
+        },
+    }
+}
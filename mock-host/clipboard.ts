@@ -0,0 +1,45 @@
+// mock-host/clipboard.ts
+//
+// Fake file clipboard behind clipboardCopyFiles / clipboardCutFiles /
+// clipboardGetFiles. Shared by every widget mounted on the same mock host, so
+// copy in one widget and paste in another works like in the app.
+
+import type { ClipboardOperation, ClipboardState } from 'gexplorer/widgets'
+
+export interface FakeClipboard {
+    copyFiles(paths: string[]): void
+    cutFiles(paths: string[]): void
+    getFiles(): ClipboardState
+    /** Host-side paste completes a cut, which empties the clipboard. */
+    consumeCut(): void
+    clear(): void
+}
+
+export function createFakeClipboard(): FakeClipboard {
+    let operation: ClipboardOperation = 'none'
+    let paths: string[] = []
+
+    const set = (op: ClipboardOperation, next: string[]) => {
+        operation = next.length > 0 ? op : 'none'
+        paths     = [...next]
+    }
+
+    return {
+        copyFiles: p => set('copy', p),
+        cutFiles:  p => set('cut', p),
+
+        getFiles: () => ({
+            hasFiles:  paths.length > 0,
+            operation,
+            paths:     [...paths],
+            count:     paths.length,
+            canPaste:  paths.length > 0 && operation !== 'none',
+        }),
+
+        consumeCut() {
+            if (operation === 'cut') set('none', [])
+        },
+
+        clear: () => set('none', []),
+    }
+}
@@ -0,0 +1,33 @@
+// mock-host/dev/fixtures.ts
+//
+// Sample data so the example widgets have something to show on the dev page.
+// Headless users of createMockHost() start without any of this.
+
+import type { MockHost } from '../index'
+
+export function seedDevFixtures(host: MockHost): void {
+    host.fs.writeText('C:/Users/dev/Music/Intro.mp3', '')
+    host.fs.writeText('C:/Users/dev/Music/Theme.flac', '')
+    host.fs.writeText('C:/Users/dev/Pictures/cat.png', '')
+    host.fs.writeText('D:/Projects/widget/entry.ts', 'export default {}\n')
+
+    host.favorites.addFavorite('C:/Users/dev/Documents', 'Documents')
+    const media = host.favorites.addFolder('Media')
+    host.favorites.addFavorite('C:/Users/dev/Music', 'Music', media)
+    host.favorites.addFavorite('C:/Users/dev/Pictures', 'Pictures', media)
+
+    host.currentPath.value = 'C:/Users/dev/Documents'
+
+    host.network.route('https://api.weather.gov/gridpoints/*/forecast', {
+        delay: 300,
+        json: {
+            properties: {
+                periods: [
+                    { name: 'Tonight',   shortForecast: 'Mostly Clear', temperature: 54, temperatureUnit: 'F' },
+                    { name: 'Tomorrow',  shortForecast: 'Sunny',        temperature: 71, temperatureUnit: 'F' },
+                    { name: 'Tomorrow Night', shortForecast: 'Light Rain', temperature: 49, temperatureUnit: 'F' },
+                ],
+            },
+        },
+    })
+}
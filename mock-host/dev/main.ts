@@ -0,0 +1,45 @@
+/// <reference types="vite/client" />
+// mock-host/dev/main.ts
+//
+// Entry of the mock host dev page. Every widget listed in
+// widgets.workspace.json can be mounted on one shared MockHost:
+//
+//   http://localhost:5173/?widget=weather&context=sidebar&cols=2&rows=2
+//
+// Widgets mounted side by side share the host, so messaging, clipboard,
+// favorites and the file system behave like in the app.
+
+import { createApp } from 'vue'
+import type { WidgetManifest } from 'gexplorer/widgets'
+import { createMockHost } from '../index'
+import { seedDevFixtures } from './fixtures'
+import DevShell from './DevShell.vue'
+
+export interface DevWidgetEntry {
+    widgetType: string
+    entry:      string
+    load:       () => Promise<WidgetManifest>
+}
+
+interface WorkspaceFile {
+    widgets: { entry: string; widgetType: string }[]
+}
+
+const workspace = Object.values(
+    import.meta.glob<WorkspaceFile>('../../widgets.workspace.json', { eager: true, import: 'default' }),
+)[0]
+
+const entryModules = import.meta.glob<WidgetManifest>('../../*/entry.ts', { import: 'default' })
+
+const widgets: DevWidgetEntry[] = (workspace?.widgets ?? [])
+    .filter(w => entryModules[`../../${w.entry}`])
+    .map(w => ({
+        widgetType: w.widgetType,
+        entry:      w.entry,
+        load:       entryModules[`../../${w.entry}`],
+    }))
+
+const host = createMockHost()
+seedDevFixtures(host)
+
+createApp(DevShell, { host, widgets }).mount('#app')
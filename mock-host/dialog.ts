@@ -0,0 +1,69 @@
+// mock-host/dialog.ts
+//
+// Scripted host dialogs — backs useDialog().open() and startRename().
+//
+// Tests and the dev page queue answers per dialog kind; each open() consumes
+// the oldest answer for its kind. With nothing queued the dialog resolves as
+// cancelled, which is what a user closing it would do.
+//
+//   host.dialog.script('file.save', { path: '/music/Mix.gexm' })
+//   host.dialog.script('rename', { value: 'New name' })
+//
+// Every request is recorded in `history` so callers can assert what the
+// widget asked for (kind, suggestedName, filters, …).
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type DialogKind = 'file.open' | 'file.save' | 'folder.open' | 'rename' | string
+
+export interface DialogRequest {
+    kind: DialogKind
+    [key: string]: any
+}
+
+export interface DialogResult {
+    cancelled?: boolean
+    path?:      string
+    paths?:     string[]
+    /** Entered text for 'rename'. */
+    value?:     string
+}
+
+export type DialogAnswer = DialogResult | ((req: DialogRequest) => DialogResult | Promise<DialogResult>)
+
+export interface ScriptedDialog {
+    script(kind: DialogKind, answer: DialogAnswer): void
+    open(req: DialogRequest): Promise<DialogResult>
+    readonly history: DialogRequest[]
+    reset(): void
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createScriptedDialog(): ScriptedDialog {
+    const queues  = new Map<DialogKind, DialogAnswer[]>()
+    const history: DialogRequest[] = []
+
+    return {
+        script(kind, answer) {
+            const q = queues.get(kind) ?? []
+            q.push(answer)
+            queues.set(kind, q)
+        },
+
+        async open(req) {
+            history.push(req)
+            const answer = queues.get(req.kind)?.shift()
+            if (!answer) return { cancelled: true }
+            const result = typeof answer === 'function' ? await answer(req) : answer
+            return { cancelled: false, ...result }
+        },
+
+        history,
+
+        reset() {
+            queues.clear()
+            history.length = 0
+        },
+    }
+}
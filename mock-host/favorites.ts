@@ -0,0 +1,123 @@
+// mock-host/favorites.ts
+//
+// Global favorites tree behind getFavorites / getGlobalFavorites /
+// addFavorite / addFolder / removeFavorite / removeFolder / applyFavoritesMove.
+//
+// Same model as the app's favorites service: a tree of folder nodes and item
+// nodes, items keyed by path, folders by id. getFavorites() returns the flat
+// item list in tree order.
+
+import type { FavoriteEntry } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FavoriteNode =
+    | { kind: 'folder'; id: string; label: string; children: FavoriteNode[] }
+    | { kind: 'item';   id: string; label: string; path: string; icon?: string }
+
+export interface FavoritesMove {
+    movedKind:  'folder' | 'item'
+    movedKey:   string
+    targetKind: 'folder' | 'item'
+    targetKey:  string
+    placement:  'before' | 'after' | 'inside'
+}
+
+export interface MockFavorites {
+    tree: FavoriteNode[]
+    list(): FavoriteEntry[]
+    addFavorite(path: string, label?: string, parentId?: string | null): void
+    addFolder(label: string, parentId?: string | null): string
+    removeFavorite(path: string): void
+    removeFolder(id: string): void
+    move(move: FavoritesMove): void
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+function labelFromPath(path: string): string {
+    const parts = path.replace(/[\\/]+$/, '').split(/[\\/]/).filter(Boolean)
+    return parts[parts.length - 1] ?? path
+}
+
+export function createMockFavorites(tree: FavoriteNode[]): MockFavorites {
+    let seq = 0
+
+    const matches = (node: FavoriteNode, kind: 'folder' | 'item', key: string) =>
+        node.kind === kind && (kind === 'folder' ? node.id === key : (node as { path: string }).path === key)
+
+    // Returns the sibling array holding the node and its index there
+    const locate = (kind: 'folder' | 'item', key: string, nodes = tree): [FavoriteNode[], number] | null => {
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i]
+            if (matches(node, kind, key)) return [nodes, i]
+            if (node.kind === 'folder') {
+                const found = locate(kind, key, node.children)
+                if (found) return found
+            }
+        }
+        return null
+    }
+
+    const childrenOf = (parentId?: string | null): FavoriteNode[] => {
+        if (!parentId) return tree
+        const found = locate('folder', parentId)
+        const folder = found && found[0][found[1]]
+        if (folder?.kind !== 'folder') throw new Error(`Favorites folder not found: ${parentId}`)
+        return folder.children
+    }
+
+    const detach = (kind: 'folder' | 'item', key: string): FavoriteNode => {
+        const found = locate(kind, key)
+        if (!found) throw new Error(`Favorite ${kind} not found: ${key}`)
+        return found[0].splice(found[1], 1)[0]
+    }
+
+    const fav: MockFavorites = {
+        tree,
+
+        list() {
+            const out: FavoriteEntry[] = []
+            const walk = (nodes: FavoriteNode[]) => {
+                for (const n of nodes) {
+                    if (n.kind === 'item') out.push({ id: n.id, label: n.label, path: n.path, icon: n.icon })
+                    else walk(n.children)
+                }
+            }
+            walk(tree)
+            return out
+        },
+
+        addFavorite(path, label, parentId) {
+            if (locate('item', path)) return
+            childrenOf(parentId).push({ kind: 'item', id: `fav-${++seq}`, label: label || labelFromPath(path), path })
+        },
+
+        addFolder(label, parentId) {
+            const id = `folder-${++seq}`
+            childrenOf(parentId).push({ kind: 'folder', id, label, children: [] })
+            return id
+        },
+
+        removeFavorite: path => { detach('item', path) },
+        removeFolder:   id => { detach('folder', id) },
+
+        move({ movedKind, movedKey, targetKind, targetKey, placement }) {
+            if (movedKind === targetKind && movedKey === targetKey) return
+            const node = detach(movedKind, movedKey)
+            if (placement === 'inside' && targetKind === 'folder') {
+                childrenOf(targetKey).push(node)
+                return
+            }
+            const found = locate(targetKind, targetKey)
+            if (!found) {
+                tree.push(node)
+                return
+            }
+            const [siblings, index] = found
+            siblings.splice(placement === 'before' ? index : index + 1, 0, node)
+        },
+    }
+
+    return fav
+}
@@ -0,0 +1,222 @@
+// mock-host/index.ts
+//
+// In-memory mock of the GExplorer host, for running widgets outside the app.
+//
+// A MockHost bundles every host service a widget can reach — the injected
+// WidgetSdk and the free functions of 'gexplorer/widgets' — backed by memory:
+//
+//   fs         MemoryFs           files, dirs, watchers
+//   vault      MemoryVault        SecureStorage (unencrypted)
+//   clipboard  FakeClipboard      file copy / cut state
+//   dialog     ScriptedDialog     useDialog().open(), startRename()
+//   bus        MessageBus         createWidgetMessaging()
+//   chat       ChatStore          chat history + push events
+//   network    MockNetwork        networkFetch routes
+//   audio      MockAudio          useAudio() elements + playlists
+//   fabric     ChannelFabric      useChannel() peers, latency, loss, partitions
+//   links      LinkRouter         onLinkActivated / openLink deep links
+//   notices    NotificationCenter notificationShow / onNotificationClicked
+//
+// USAGE (headless, e.g. from a test runner with a DOM):
+//
+//   const host   = createMockHost({ files: { 'C:/notes/a.txt': 'hi' } })
+//   const mount  = mountWidget(manifest, { target: el, host, config: {...} })
+//   host.dialog.script('file.save', { path: 'C:/out.gexm' })
+//   …
+//   mount.configUpdates  // every updateConfig the widget emitted
+//   mount.unmount()
+//
+// Multi-peer (GExchange): give several hosts one fabric, one identity each —
+//
+//   const fabric = createChannelFabric({ clock: 'manual' })
+//   const alice  = createMockHost({ fabric, identity: { userId: 'alice' } })
+//   const bob    = createMockHost({ fabric, identity: { userId: 'bob' } })
+//   …
+//   await fabric.flush()
+//
+// The free functions in mock-host/widgets.ts act on the *active* host —
+// createMockHost() makes the new host active, setActiveHost() switches.
+//
+// `npm run dev` serves mock-host/dev/, which mounts any workspace widget on a
+// shared host.
+
+import { defineAsyncComponent, markRaw, reactive, ref, watch, type Ref } from 'vue'
+import type {
+    DriveStats,
+    GexDnDPayload,
+    P2PIdentity,
+    SlotProvider,
+    WidgetManifest,
+    WidgetMenuConfig,
+    WidgetSdk,
+} from 'gexplorer/widgets'
+import { createMemoryFs, type MemoryFs } from './memoryFs'
+import { createMemoryVault, type MemoryVault } from './memoryVault'
+import { createFakeClipboard, type FakeClipboard } from './clipboard'
+import { createScriptedDialog, type ScriptedDialog } from './dialog'
+import { createMessageBus, type MessageBus } from './messageBus'
+import { createChatStore, type ChatStore } from './chatStore'
+import { createMockNetwork, type MockNetwork } from './network'
+import { createMockAudio, type MockAudio } from './audio'
+import { createMockFavorites, type FavoriteNode, type MockFavorites } from './favorites'
+import { createChannelFabric, type ChannelFabric } from './channelFabric'
+import { createLinkRouter, type LinkRouter } from './links'
+import { createNotificationCenter, type NotificationCenter } from './notifications'
+import { createMockSdk, type MockSdkSpec } from './sdk'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Host-side effects with no in-memory equivalent (open file, native drag, …). */
+export interface MockHostEvent {
+    kind:    string
+    at:      number
+    detail?: any
+}
+
+export interface MockHostOptions {
+    /** Seed files: path → text. A trailing '/' creates an empty directory. */
+    files?:       Record<string, string>
+    identity?:    Partial<P2PIdentity>
+    drives?:      DriveStats[]
+    currentPath?: string | null
+    /** Share one fabric between hosts to put their channels on one network. */
+    fabric?:      ChannelFabric
+}
+
+export interface MockHost {
+    fs:        MemoryFs
+    vault:     MemoryVault
+    clipboard: FakeClipboard
+    dialog:    ScriptedDialog
+    bus:       MessageBus
+    chat:      ChatStore
+    network:   MockNetwork
+    audio:     MockAudio
+    fabric:    ChannelFabric
+    links:     LinkRouter
+    notices:   NotificationCenter
+
+    identity:    P2PIdentity
+    drives:      Ref<DriveStats[]>
+    currentPath: Ref<string | null>
+    favorites:   MockFavorites
+    /** configRead / configWrite, keyed `${widgetType}/${name}`. */
+    config:      Map<string, any>
+    /** createLifecycle() cells, keyed `${ownerId}:${key}` — survive remounts. */
+    storage:     Map<string, Ref<any>>
+    /** Extension point id → providers contributed by registered manifests. */
+    slots:       Map<string, SlotProvider[]>
+    menus:       Map<string, WidgetMenuConfig>
+    events:      MockHostEvent[]
+    /** setActiveDragPayload() — visible to every widget's drop targets. */
+    activeDrag:  { payload: GexDnDPayload; sourceId: string } | null
+
+    onDrivesChanged(callback: () => void): () => void
+    createSdk(spec: MockSdkSpec): WidgetSdk
+    /** Makes a manifest's `provides` visible to useSlotProviders() and routes its `links`. */
+    registerManifest(manifest: WidgetManifest): void
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+const GiB = 1024 ** 3
+
+const DEFAULT_DRIVES: DriveStats[] = [
+    { root: 'C:/', name: 'System', fsType: 'NTFS', kind: 'fixed',     total: 512 * GiB, free: 128 * GiB },
+    { root: 'D:/', name: 'Data',   fsType: 'NTFS', kind: 'fixed',     total: 2048 * GiB, free: 1400 * GiB },
+    { root: 'E:/', name: 'USB',    fsType: 'exFAT', kind: 'removable', total: 64 * GiB, free: 60 * GiB },
+]
+
+const DEFAULT_FILES: Record<string, string> = {
+    'C:/Users/dev/Documents/readme.txt': 'Mock host file system.\n',
+    'C:/Users/dev/Documents/notes.md':   '# Notes\n',
+    'C:/Users/dev/Music/':               '',
+    'C:/Users/dev/Pictures/':            '',
+    'D:/Projects/':                      '',
+}
+
+// ── Active host ───────────────────────────────────────────────────────────────
+
+let _active: MockHost | null = null
+
+export function setActiveHost(host: MockHost): void {
+    _active = host
+}
+
+/** The host the 'gexplorer/widgets' free functions act on. */
+export function getActiveHost(): MockHost {
+    return _active ?? createMockHost()
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createMockHost(options: MockHostOptions = {}): MockHost {
+    const fs = createMemoryFs(options.files ?? DEFAULT_FILES)
+
+    const host: MockHost = {
+        fs,
+        vault:     createMemoryVault(fs),
+        clipboard: createFakeClipboard(),
+        dialog:    createScriptedDialog(),
+        bus:       createMessageBus(),
+        chat:      createChatStore(),
+        network:   createMockNetwork(),
+        audio:     createMockAudio(),
+        fabric:    options.fabric ?? createChannelFabric(),
+        links:     createLinkRouter(),
+        notices:   createNotificationCenter(),
+
+        identity: reactive({
+            userId:      'mock-user-0001',
+            publicKey:   'mock-pk-0001',
+            displayName: 'Dev',
+            isNameSet:   true,
+            ...options.identity,
+        }),
+        drives:      ref(options.drives ?? DEFAULT_DRIVES),
+        currentPath: ref(options.currentPath ?? null),
+        favorites:   createMockFavorites(reactive<FavoriteNode[]>([])),
+        config:      new Map(),
+        storage:     new Map(),
+        slots:       reactive(new Map()),
+        menus:       new Map(),
+        events:      [],
+        activeDrag:  null,
+
+        onDrivesChanged: callback => watch(host.drives, callback, { deep: true }),
+        createSdk: spec => createMockSdk(host, spec),
+
+        registerManifest(manifest) {
+            host.links.declare(manifest.id, manifest.links ?? [])
+            for (const p of manifest.provides ?? []) {
+                const key  = `${manifest.id}:${p.point}`
+                const list = (host.slots.get(p.point) ?? []).filter(s => s.key !== key)
+                list.push({
+                    id:         key,
+                    key,
+                    widgetType: manifest.id,
+                    component:  markRaw(defineAsyncComponent(p.component)),
+                    props:      p.props ?? {},
+                })
+                host.slots.set(p.point, list)
+            }
+        },
+    }
+
+    setActiveHost(host)
+    return host
+}
+
+export { mountWidget, type MountOptions, type MountedWidget, type WidgetPlacement } from './mount'
+export type { MockSdkSpec } from './sdk'
+export {
+    createChannelFabric,
+    type ChannelFabric,
+    type ChannelFabricOptions,
+    type FabricEvent,
+    type FabricSessionInfo,
+    type FabricStream,
+    type LinkConditions,
+} from './channelFabric'
+export type { LinkRouter } from './links'
+export type { MockNotification, NotificationCenter } from './notifications'
@@ -0,0 +1,73 @@
+// mock-host/links.ts
+//
+// Deep-link routing behind onLinkActivated / openLink.
+//
+// Same rules as the app:
+//   - a widget handles `<widgetType>://<path>…` for every `path` it declared
+//     in manifest `links` (registerManifest feeds them in)
+//   - activate(url) reaches every handler the owning widget registered
+//   - with no handler registered yet, links are held and delivered to the
+//     first one that registers — like the app mounting the widget first
+
+import type { LinkHandlerDeclaration } from 'gexplorer/widgets'
+
+export interface LinkRouter {
+    declare(widgetType: string, links: LinkHandlerDeclaration[]): void
+    /** Returns false when no widget declared a matching link. */
+    activate(url: string): boolean
+    listen(widgetType: string, handler: (url: string) => void): () => void
+    /** Every activated link, matched or not. */
+    readonly log: { url: string; widgetType: string | null; at: number }[]
+}
+
+export function createLinkRouter(): LinkRouter {
+    const declared = new Map<string, LinkHandlerDeclaration[]>()
+    const handlers = new Map<string, Set<(url: string) => void>>()
+    const held     = new Map<string, string[]>()
+    const log: LinkRouter['log'] = []
+
+    const owner = (url: string): string | null => {
+        const sep = url.indexOf('://')
+        if (sep <= 0) return null
+        const scheme = url.slice(0, sep).toLowerCase()   // schemes are case-insensitive
+        const rest   = url.slice(sep + 3)
+        const links  = declared.get(scheme) ?? []
+        return links.some(l => rest.startsWith(l.path)) ? scheme : null
+    }
+
+    const deliver = (handler: (url: string) => void, url: string) => {
+        queueMicrotask(() => {
+            try { handler(url) } catch (err) { console.warn('[mock-host] Link handler failed:', url, err) }
+        })
+    }
+
+    return {
+        log,
+
+        declare(widgetType, links) {
+            declared.set(widgetType, [...links])
+        },
+
+        activate(url) {
+            const widgetType = owner(url.trim())
+            log.push({ url, widgetType, at: Date.now() })
+            if (!widgetType) return false
+
+            const listening = handlers.get(widgetType)
+            if (listening?.size) for (const h of listening) deliver(h, url.trim())
+            else held.set(widgetType, [...(held.get(widgetType) ?? []), url.trim()])
+            return true
+        },
+
+        listen(widgetType, handler) {
+            const set = handlers.get(widgetType) ?? new Set()
+            handlers.set(widgetType, set)
+            set.add(handler)
+
+            for (const url of held.get(widgetType) ?? []) deliver(handler, url)
+            held.delete(widgetType)
+
+            return () => { set.delete(handler) }
+        },
+    }
+}
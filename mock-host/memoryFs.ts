@@ -0,0 +1,217 @@
+// mock-host/memoryFs.ts
+//
+// In-memory filesystem behind the mock host's fs* SDK members, vault unseal
+// targets and file dialogs.
+//
+// Paths use forward slashes and are case-sensitive. A leading drive letter
+// ("C:/…") is kept as-is so widgets that display Windows-style paths behave
+// the same as under the real host. Parent directories are created implicitly
+// on write.
+
+import type { FsEntry, FsListDirOptions, FsListDirResult } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type Node =
+    | { kind: 'dir';  modified: number }
+    | { kind: 'file'; modified: number; content: Uint8Array }
+
+export interface MemoryFs {
+    exists(path: string): boolean
+    isDir(path: string): boolean
+    mkdir(path: string): void
+    writeText(path: string, text: string, overwrite?: boolean): void
+    writeBytes(path: string, bytes: Uint8Array, overwrite?: boolean): void
+    readText(path: string): string
+    readBytes(path: string): Uint8Array
+    list(path: string, options?: FsListDirOptions): FsListDirResult
+    copy(from: string, to: string): void
+    move(from: string, to: string): void
+    remove(path: string): void
+    /** Fires on any change at or below `path`. */
+    watch(path: string, onChange: () => void): () => void
+    /** Every path currently stored, sorted — handy for assertions. */
+    paths(): string[]
+}
+
+// ── Paths ─────────────────────────────────────────────────────────────────────
+
+export function normalizePath(p: string): string {
+    const parts: string[] = []
+    for (const part of p.replace(/\\/g, '/').split('/')) {
+        if (!part || part === '.') continue
+        if (part === '..') parts.pop()
+        else parts.push(part)
+    }
+    const joined = parts.join('/')
+    return /^[A-Za-z]:$/.test(parts[0] ?? '') ? joined || '/' : '/' + joined
+}
+
+function parentOf(p: string): string | null {
+    if (p === '/' || /^[A-Za-z]:$/.test(p)) return null
+    const i = p.lastIndexOf('/')
+    if (i <= 0) return '/'
+    return p.slice(0, i)
+}
+
+function baseName(p: string): string {
+    return p.slice(p.lastIndexOf('/') + 1)
+}
+
+function extOf(name: string): string {
+    const i = name.lastIndexOf('.')
+    return i > 0 ? name.slice(i).toLowerCase() : ''
+}
+
+function isUnder(p: string, root: string): boolean {
+    return p === root || p.startsWith(root.endsWith('/') ? root : root + '/')
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createMemoryFs(seed: Record<string, string> = {}): MemoryFs {
+    const nodes    = new Map<string, Node>([['/', { kind: 'dir', modified: Date.now() }]])
+    const watchers = new Set<{ root: string; onChange: () => void }>()
+    const encoder  = new TextEncoder()
+    const decoder  = new TextDecoder()
+
+    const notify = (changed: string) => {
+        for (const w of [...watchers])
+            if (isUnder(changed, w.root) || isUnder(w.root, changed)) w.onChange()
+    }
+
+    const ensureDir = (p: string) => {
+        const existing = nodes.get(p)
+        if (existing?.kind === 'file') throw new Error(`Not a directory: ${p}`)
+        if (existing) return
+        const parent = parentOf(p)
+        if (parent) ensureDir(parent)
+        nodes.set(p, { kind: 'dir', modified: Date.now() })
+    }
+
+    const get = (p: string): Node => {
+        const node = nodes.get(p)
+        if (!node) throw new Error(`No such file or directory: ${p}`)
+        return node
+    }
+
+    const subtree = (root: string) => [...nodes.keys()].filter(p => isUnder(p, root))
+
+    const fs: MemoryFs = {
+        exists: p => nodes.has(normalizePath(p)),
+        isDir:  p => nodes.get(normalizePath(p))?.kind === 'dir',
+
+        mkdir(p) {
+            const path = normalizePath(p)
+            ensureDir(path)
+            notify(path)
+        },
+
+        writeText(p, text, overwrite = true) {
+            fs.writeBytes(p, encoder.encode(text), overwrite)
+        },
+
+        writeBytes(p, bytes, overwrite = true) {
+            const path = normalizePath(p)
+            const existing = nodes.get(path)
+            if (existing?.kind === 'dir') throw new Error(`Is a directory: ${path}`)
+            if (existing && !overwrite) throw new Error(`File exists: ${path}`)
+            const parent = parentOf(path)
+            if (parent) ensureDir(parent)
+            nodes.set(path, { kind: 'file', modified: Date.now(), content: bytes })
+            notify(path)
+        },
+
+        readText: p => decoder.decode(fs.readBytes(p)),
+
+        readBytes(p) {
+            const path = normalizePath(p)
+            const node = get(path)
+            if (node.kind !== 'file') throw new Error(`Is a directory: ${path}`)
+            return node.content
+        },
+
+        list(p, options = {}) {
+            const path = normalizePath(p)
+            const node = nodes.get(path)
+            if (!node)              return { ok: false, entries: [], error: `No such directory: ${path}` }
+            if (node.kind !== 'dir') return { ok: false, entries: [], error: `Not a directory: ${path}` }
+
+            let entries: FsEntry[] = [...nodes.entries()]
+                .filter(([child]) => child !== path && parentOf(child) === path)
+                .map(([child, n]) => ({
+                    Name:     baseName(child),
+                    FullPath: child,
+                    Kind:     n.kind,
+                    Size:     n.kind === 'file' ? n.content.byteLength : undefined,
+                    Modified: new Date(n.modified).toISOString(),
+                    Ext:      n.kind === 'file' ? extOf(child) : undefined,
+                }))
+
+            if (options.filterExts?.length) {
+                const exts = options.filterExts.map(e => (e.startsWith('.') ? e : '.' + e).toLowerCase())
+                entries = entries.filter(e => e.Kind === 'dir' || exts.includes(e.Ext ?? ''))
+            }
+
+            const sortBy = options.sortBy ?? 'name'
+            const dir    = options.sortDir === 'desc' ? -1 : 1
+            const key    = (e: FsEntry): string | number => {
+                switch (sortBy) {
+                    case 'size':     return e.Size ?? 0
+                    case 'modified': return e.Modified ?? ''
+                    case 'ext':      return e.Ext ?? ''
+                    case 'kind':     return e.Kind
+                    default:         return e.Name.toLowerCase()
+                }
+            }
+            entries.sort((a, b) => {
+                if (a.Kind !== b.Kind) return a.Kind === 'dir' ? -1 : 1
+                const ka = key(a), kb = key(b)
+                return (ka < kb ? -1 : ka > kb ? 1 : a.Name.localeCompare(b.Name)) * dir
+            })
+
+            return { ok: true, entries }
+        },
+
+        copy(f, t) {
+            const from = normalizePath(f), to = normalizePath(t)
+            get(from)
+            for (const p of subtree(from)) {
+                const node = nodes.get(p)!
+                const target = to + p.slice(from.length)
+                if (node.kind === 'dir') ensureDir(target)
+                else fs.writeBytes(target, node.content.slice())
+            }
+            notify(to)
+        },
+
+        move(f, t) {
+            const from = normalizePath(f), to = normalizePath(t)
+            if (isUnder(to, from) && to !== from) throw new Error(`Cannot move ${from} into itself`)
+            fs.copy(from, to)
+            fs.remove(from)
+        },
+
+        remove(p) {
+            const path = normalizePath(p)
+            get(path)
+            for (const child of subtree(path)) nodes.delete(child)
+            notify(path)
+        },
+
+        watch(p, onChange) {
+            const entry = { root: normalizePath(p), onChange }
+            watchers.add(entry)
+            return () => { watchers.delete(entry) }
+        },
+
+        paths: () => [...nodes.keys()].sort(),
+    }
+
+    for (const [path, text] of Object.entries(seed)) {
+        if (path.endsWith('/')) fs.mkdir(path)
+        else fs.writeText(path, text)
+    }
+
+    return fs
+}
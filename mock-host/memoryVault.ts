@@ -0,0 +1,151 @@
+// mock-host/memoryVault.ts
+//
+// In-memory stand-in for the host's SecureStorage vault.
+//
+// Nothing is encrypted. What the mock does keep faithful:
+//   - a vault is identified by (scopeId, masterKey) — reopening with a
+//     different key yields an empty vault, like a failed decrypt would
+//   - blobs are content-addressed by SHA-256, access points reference them
+//   - vaultSealContentAs takes base64 content, vaultUnsealText returns UTF-8
+//   - vaultUnseal materialises the blob as a temp file in the MemoryFs, and
+//     vaultUnsealCleanup removes it again
+//   - tokens stop working after close
+
+import type { AccessPointEntry } from 'gexplorer/widgets'
+import type { MemoryFs } from './memoryFs'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+interface VaultStore {
+    blobs:        Map<string, Uint8Array>
+    accessPoints: Map<string, AccessPointEntry>
+}
+
+export interface MemoryVault {
+    open(opts: { scopeId: string; masterKey: string }): Promise<{ vaultToken: string; vaultId: string }>
+    close(vaultToken: string): Promise<void>
+    sealAs(vaultToken: string, sourcePath: string, vpath: string): Promise<AccessPointEntry>
+    sealContentAs(vaultToken: string, content: string, vpath: string): Promise<AccessPointEntry>
+    unseal(vaultToken: string, blobSha256: string, fileName: string): Promise<{ physicalPath: string }>
+    unsealCleanup(physicalPath: string): Promise<void>
+    unsealText(vaultToken: string, blobSha256: string): Promise<string>
+    unsealBase64(vaultToken: string, blobSha256: string): Promise<string>
+    list(vaultToken: string, vpathPrefix?: string): Promise<AccessPointEntry[]>
+    delete(vaultToken: string, accessPointId: string): Promise<void>
+}
+
+// AES-GCM nonce + tag, so sizeSealed looks plausible
+const SEAL_OVERHEAD = 28
+
+export const UNSEAL_TEMP_DIR = '/tmp/vault-unseal'
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+    const bytes  = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    const digest = await crypto.subtle.digest('SHA-256', bytes.slice())
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function base64ToBytes(b64: string): Uint8Array {
+    const bin = atob(b64)
+    const out = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+    return out
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let bin = ''
+    for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i])
+    return btoa(bin)
+}
+
+function displayNameOf(vpath: string): string {
+    return vpath.slice(vpath.lastIndexOf('/') + 1) || vpath
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createMemoryVault(fs: MemoryFs): MemoryVault {
+    const stores = new Map<string, VaultStore>()
+    const tokens = new Map<string, string>()   // vaultToken → vaultId
+    let   seq    = 0
+
+    const storeFor = (vaultToken: string): VaultStore => {
+        const vaultId = tokens.get(vaultToken)
+        if (!vaultId) throw new Error('Vault token is not open')
+        return stores.get(vaultId)!
+    }
+
+    const seal = async (vaultToken: string, bytes: Uint8Array, vpath: string): Promise<AccessPointEntry> => {
+        const store = storeFor(vaultToken)
+        const sha   = await sha256Hex(bytes)
+        store.blobs.set(sha, bytes)
+        const entry: AccessPointEntry = {
+            accessPointId: `ap-${++seq}`,
+            vpath,
+            blobSha256:    sha,
+            displayName:   displayNameOf(vpath),
+            sizeOriginal:  bytes.byteLength,
+            sizeSealed:    bytes.byteLength + SEAL_OVERHEAD,
+            createdAt:     Date.now(),
+        }
+        store.accessPoints.set(entry.accessPointId, entry)
+        return entry
+    }
+
+    const blob = (vaultToken: string, sha: string): Uint8Array => {
+        const bytes = storeFor(vaultToken).blobs.get(sha)
+        if (!bytes) throw new Error(`Blob not found: ${sha}`)
+        return bytes
+    }
+
+    return {
+        async open({ scopeId, masterKey }) {
+            const vaultId = `vault-${await sha256Hex(`${scopeId}\0${masterKey}`)}`.slice(0, 22)
+            if (!stores.has(vaultId)) stores.set(vaultId, { blobs: new Map(), accessPoints: new Map() })
+            const vaultToken = `vt-${++seq}-${Math.random().toString(36).slice(2, 10)}`
+            tokens.set(vaultToken, vaultId)
+            return { vaultToken, vaultId }
+        },
+
+        async close(vaultToken) {
+            tokens.delete(vaultToken)
+        },
+
+        sealAs: async (vaultToken, sourcePath, vpath) => seal(vaultToken, fs.readBytes(sourcePath), vpath),
+
+        sealContentAs: async (vaultToken, content, vpath) => seal(vaultToken, base64ToBytes(content), vpath),
+
+        async unseal(vaultToken, blobSha256, fileName) {
+            const physicalPath = `${UNSEAL_TEMP_DIR}/${blobSha256.slice(0, 12)}-${++seq}/${fileName}`
+            fs.writeBytes(physicalPath, blob(vaultToken, blobSha256).slice())
+            return { physicalPath }
+        },
+
+        async unsealCleanup(physicalPath) {
+            if (!physicalPath.startsWith(UNSEAL_TEMP_DIR + '/')) return
+            const dir = physicalPath.slice(0, physicalPath.lastIndexOf('/'))
+            if (fs.exists(dir)) fs.remove(dir)
+        },
+
+        unsealText: async (vaultToken, blobSha256) => new TextDecoder().decode(blob(vaultToken, blobSha256)),
+        unsealBase64: async (vaultToken, blobSha256) => bytesToBase64(blob(vaultToken, blobSha256)),
+
+        async list(vaultToken, vpathPrefix = '') {
+            return [...storeFor(vaultToken).accessPoints.values()]
+                .filter(e => e.vpath.startsWith(vpathPrefix))
+                .map(e => ({ ...e }))
+        },
+
+        async delete(vaultToken, accessPointId) {
+            const store = storeFor(vaultToken)
+            const entry = store.accessPoints.get(accessPointId)
+            if (!entry) return
+            store.accessPoints.delete(accessPointId)
+            // Drop the blob once nothing references it
+            if (![...store.accessPoints.values()].some(e => e.blobSha256 === entry.blobSha256))
+                store.blobs.delete(entry.blobSha256)
+        },
+    }
+}
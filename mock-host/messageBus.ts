@@ -0,0 +1,114 @@
+// mock-host/messageBus.ts
+//
+// Cross-widget messaging for the mock host — backs createWidgetMessaging().
+//
+// Same delivery rules as the app:
+//   - send(to, topic, payload) reaches only the widget instance `to`
+//   - send(undefined, topic, payload) broadcasts to every instance but the sender
+//   - handlers receive { from, to, topic, payload }
+//   - cleanup() drops every handler the scoped instance registered
+//
+// Like the app, the bus only carries one-way messages: request() / handle()
+// are layered on top by tools/widgetRequests.ts (see widgets.ts), so they
+// show up here as its request and reply topics.
+//
+// Delivery is async (microtask), so a send never re-enters the sender.
+// Every message is appended to `log` for inspection.
+
+import type { WidgetMessage } from 'gexplorer/widgets'
+import { REPLY_TOPIC, REQUEST_TOPIC, type BaseMessaging } from '../tools/widgetRequests'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BusMessage extends WidgetMessage {
+    at: number
+}
+
+interface Subscription {
+    owner:   string
+    topic:   string
+    handler: (msg: BusMessage) => void
+}
+
+export interface MessageBus {
+    scoped(sourceId: string): BaseMessaging
+    readonly log: BusMessage[]
+    /** Runs after every delivery — used by the dev page's message log. */
+    onMessage(listener: (msg: BusMessage) => void): () => void
+}
+
+// ── Inspection ────────────────────────────────────────────────────────────────
+
+/** One-line summary for logs: `topic  from → to`, with request / reply markers. */
+export function describeMessage(msg: BusMessage): string {
+    const route = `${msg.from} → ${msg.to ?? '*'}`
+    if (msg.topic === REQUEST_TOPIC) {
+        const { topic, requestId, payload } = msg.payload ?? {}
+        return `request ${requestId} ${topic}  ${route}  ${JSON.stringify(payload ?? null)}`
+    }
+    if (msg.topic === REPLY_TOPIC) {
+        const { requestId, payload, error } = msg.payload ?? {}
+        const body = error !== undefined ? `error: ${error}` : JSON.stringify(payload ?? null)
+        return `reply ${requestId}  ${route}  ${body}`
+    }
+    return `msg ${msg.topic}  ${route}  ${JSON.stringify(msg.payload ?? null)}`
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createMessageBus(): MessageBus {
+    const subs      = new Set<Subscription>()
+    const listeners = new Set<(msg: BusMessage) => void>()
+    const log: BusMessage[] = []
+
+    const post = (msg: Omit<BusMessage, 'at'>) => {
+        const full: BusMessage = { ...msg, at: Date.now() }
+        queueMicrotask(() => deliver(full))
+    }
+
+    const deliver = (msg: BusMessage) => {
+        log.push(msg)
+        for (const sub of [...subs]) {
+            if (sub.topic !== msg.topic) continue
+            if (msg.to ? sub.owner !== msg.to : sub.owner === msg.from) continue
+            try {
+                sub.handler(msg)
+            } catch (err) {
+                console.error(`[mock-host] handler for "${msg.topic}" in ${sub.owner} threw:`, err)
+            }
+        }
+        for (const l of [...listeners]) l(msg)
+    }
+
+    return {
+        scoped(sourceId) {
+            const mine = new Set<Subscription>()
+
+            return {
+                send(to, topic, payload) {
+                    post({ from: sourceId, to: to || undefined, topic, payload })
+                },
+                on(topic, handler) {
+                    const sub: Subscription = { owner: sourceId, topic, handler }
+                    subs.add(sub)
+                    mine.add(sub)
+                    return () => {
+                        subs.delete(sub)
+                        mine.delete(sub)
+                    }
+                },
+                cleanup() {
+                    for (const sub of mine) subs.delete(sub)
+                    mine.clear()
+                },
+            }
+        },
+
+        log,
+
+        onMessage(listener) {
+            listeners.add(listener)
+            return () => { listeners.delete(listener) }
+        },
+    }
+}
@@ -0,0 +1,130 @@
+// mock-host/mount.ts
+//
+// Mounts a widget's Component the way WidgetHost does: props sourceId /
+// instanceId / config / placement / runAction, the capability-gated SDK
+// provided as 'widgetSdk', and the host directives widgets rely on
+// (v-gex-tooltip, v-context-menu).
+//
+// `updateConfig` emits are applied to the mounted config (so the widget sees
+// its own writes, like in the app) and recorded in `configUpdates`.
+//
+// The initial config goes through prepareWidgetConfig() first, like in the
+// app: when a config migration runs, the migrated config is recorded as the
+// first `configUpdates` entry, and schema problems are logged as events.
+
+import { createApp, h, reactive, type App, type Directive } from 'vue'
+import type { WidgetManifest, WidgetSdk } from 'gexplorer/widgets'
+import { getActiveHost, type MockHost } from './index'
+import { clonePlain } from './sdk'
+import { prepareWidgetConfig } from '../tools/widgetConfig'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface WidgetPlacement {
+    context: 'grid' | 'sidebar' | 'toolbar' | 'embedded' | 'dialog'
+    size?:   { cols: number; rows: number }
+    [key: string]: any
+}
+
+export interface MountOptions {
+    target:      Element | string
+    host?:       MockHost
+    /** Stored config; migrated and filled from the manifest's `defaults`. */
+    config?:     Record<string, any>
+    placement?:  WidgetPlacement
+    sourceId?:   string
+    instanceId?: string
+    /** Mount with the full SDK regardless of declared capabilities. */
+    ungated?:    boolean
+}
+
+export interface MountedWidget {
+    app:           App
+    sdk:           WidgetSdk
+    config:        Record<string, any>
+    configUpdates: Record<string, any>[]
+    /** Every runAction the widget requested (open, nav, …). */
+    actions:       any[]
+    unmount(): void
+}
+
+// ── Directives ────────────────────────────────────────────────────────────────
+
+const tooltip: Directive<HTMLElement, unknown> = {
+    mounted(el, binding)  { el.title = typeof binding.value === 'string' ? binding.value : '' },
+    updated(el, binding)  { el.title = typeof binding.value === 'string' ? binding.value : '' },
+}
+
+// The app opens its own context menu here; the mock only records the request.
+const contextMenu = (host: MockHost): Directive<HTMLElement, unknown> => ({
+    mounted(el, binding) {
+        el.addEventListener('contextmenu', (e) => {
+            e.preventDefault()
+            host.events.push({ kind: 'contextMenu', at: Date.now(), detail: binding.value })
+        })
+    },
+})
+
+// ── Mount ─────────────────────────────────────────────────────────────────────
+
+let _seq = 0
+
+export function mountWidget(manifest: WidgetManifest, options: MountOptions): MountedWidget {
+    const host = options.host ?? getActiveHost()
+    const n    = ++_seq
+
+    host.registerManifest(manifest)
+
+    const sdk = host.createSdk({
+        widgetType:   manifest.id,
+        capabilities: manifest.capabilities,
+        gate:         !options.ungated,
+    })
+
+    const prepared      = prepareWidgetConfig(manifest, options.config)
+    const config        = reactive(prepared.config)
+    const configUpdates: Record<string, any>[] = []
+
+    if (prepared.migrated.length > 0) {
+        configUpdates.push(clonePlain(prepared.stored))
+        host.events.push({ kind: 'configMigrated', at: Date.now(), detail: { widgetType: manifest.id, versions: prepared.migrated } })
+    }
+    for (const issue of prepared.issues)
+        host.events.push({ kind: 'configIssue', at: Date.now(), detail: { widgetType: manifest.id, issue } })
+    const actions: any[] = []
+
+    const props = {
+        sourceId:   options.sourceId   ?? `${manifest.id}-${n}`,
+        instanceId: options.instanceId ?? `${manifest.id}-instance-${n}`,
+        placement:  options.placement  ?? { context: 'grid', size: { cols: 4, rows: 3 } },
+        runAction:  (action: any) => {
+            actions.push(action)
+            host.events.push({ kind: 'runAction', at: Date.now(), detail: action })
+        },
+    }
+
+    const app = createApp({
+        render: () => h(manifest.Component, {
+            ...props,
+            config,
+            onUpdateConfig: (next: Record<string, any>) => {
+                configUpdates.push(clonePlain(next))
+                Object.assign(config, next)
+            },
+        }),
+    })
+
+    app.provide('widgetSdk', sdk)
+    app.directive('gex-tooltip', tooltip)
+    app.directive('context-menu', contextMenu(host))
+    app.mount(options.target)
+
+    return {
+        app,
+        sdk,
+        config,
+        configUpdates,
+        actions,
+        unmount: () => app.unmount(),
+    }
+}
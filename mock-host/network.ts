@@ -0,0 +1,98 @@
+// mock-host/network.ts
+//
+// Scripted responses for networkFetch. The mock host never touches the real
+// network — unrouted URLs answer 404 so widgets exercise their error paths.
+//
+//   host.network.route('https://api.weather.gov/*', {
+//       json: { properties: { periods: [...] } },
+//   })
+//
+// Patterns are matched in registration order, latest first; `*` matches any
+// run of characters. A function route receives the request and may return a
+// response or throw to simulate a network failure.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface MockRequest {
+    url:     string
+    method:  string
+    headers: Record<string, string>
+    body?:   string
+}
+
+export interface MockResponseInit {
+    status?:     number
+    statusText?: string
+    json?:       any
+    text?:       string
+    /** Artificial delay in ms. */
+    delay?:      number
+}
+
+export type MockRoute = MockResponseInit | ((req: MockRequest) => MockResponseInit | Promise<MockResponseInit>)
+
+export interface NetworkFetchResponse {
+    ok:         boolean
+    status:     number
+    statusText: string
+    json:       () => Promise<any>
+    text:       () => Promise<string>
+}
+
+export interface MockNetwork {
+    route(pattern: string, response: MockRoute): () => void
+    fetch(url: string, options?: { method?: string; headers?: Record<string, string>; body?: string }): Promise<NetworkFetchResponse>
+    readonly requests: MockRequest[]
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+function patternToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+    return new RegExp(`^${escaped}$`)
+}
+
+export function createMockNetwork(): MockNetwork {
+    const routes: { re: RegExp; response: MockRoute }[] = []
+    const requests: MockRequest[] = []
+
+    return {
+        route(pattern, response) {
+            const entry = { re: patternToRegExp(pattern), response }
+            routes.unshift(entry)
+            return () => {
+                const i = routes.indexOf(entry)
+                if (i >= 0) routes.splice(i, 1)
+            }
+        },
+
+        async fetch(url, options = {}) {
+            const req: MockRequest = {
+                url,
+                method:  (options.method ?? 'GET').toUpperCase(),
+                headers: options.headers ?? {},
+                body:    options.body,
+            }
+            requests.push(req)
+
+            const route = routes.find(r => r.re.test(url))
+            const init: MockResponseInit = route
+                ? typeof route.response === 'function' ? await route.response(req) : route.response
+                : { status: 404, statusText: 'Not Found (no mock route)', text: '' }
+
+            if (init.delay) await new Promise(r => setTimeout(r, init.delay))
+
+            const status = init.status ?? 200
+            const text   = init.text ?? (init.json !== undefined ? JSON.stringify(init.json) : '')
+            return {
+                ok:         status >= 200 && status < 300,
+                status,
+                statusText: init.statusText ?? (status === 200 ? 'OK' : ''),
+                json:       async () => JSON.parse(text),
+                text:       async () => text,
+            }
+        },
+
+        requests,
+    }
+}
@@ -0,0 +1,89 @@
+// mock-host/notifications.ts
+//
+// Desktop notifications behind notificationShow / onNotificationClicked.
+//
+// Same rules as the app:
+//   - notifications belong to the widget type that showed them; a click
+//     reaches every handler that widget registered
+//   - a tag replaces the widget's earlier notification with the same tag
+//   - while `blocked` (OS or user denied), show() resolves null
+//
+// Nothing is drawn — tests read `shown` and call click(id).
+
+import type { NotificationClick, NotificationOptions } from 'gexplorer/widgets'
+
+export interface MockNotification extends NotificationOptions {
+    id:         string
+    widgetType: string
+    at:         number
+    closed:     boolean
+}
+
+export interface NotificationCenter {
+    /** Every notification shown, oldest first — replaced and closed ones included. */
+    readonly shown: MockNotification[]
+    /** Simulate the user or OS refusing notifications. */
+    blocked: boolean
+
+    show(widgetType: string, options: NotificationOptions): string | null
+    close(id: string): void
+    /** Simulate a click. Returns false for an unknown or closed notification. */
+    click(id: string): boolean
+    listen(widgetType: string, handler: (event: NotificationClick) => void): () => void
+    /** Open notifications of one widget type, or of all. */
+    open(widgetType?: string): MockNotification[]
+}
+
+export function createNotificationCenter(): NotificationCenter {
+    const handlers = new Map<string, Set<(event: NotificationClick) => void>>()
+    const shown: MockNotification[] = []
+    let seq = 0
+
+    const center: NotificationCenter = {
+        shown,
+        blocked: false,
+
+        show(widgetType, options) {
+            if (center.blocked) return null
+            if (options.tag) {
+                for (const n of shown)
+                    if (!n.closed && n.widgetType === widgetType && n.tag === options.tag) n.closed = true
+            }
+            const id = `notification-${++seq}`
+            shown.push({ ...options, id, widgetType, at: Date.now(), closed: false })
+            return id
+        },
+
+        close(id) {
+            const n = shown.find(x => x.id === id)
+            if (n) n.closed = true
+        },
+
+        click(id) {
+            const n = shown.find(x => x.id === id)
+            if (!n || n.closed) return false
+            n.closed = true
+            const event: NotificationClick = {
+                id,
+                ...(n.tag ? { tag: n.tag } : {}),
+                ...(n.data ? { data: { ...n.data } } : {}),
+            }
+            for (const h of handlers.get(n.widgetType) ?? []) {
+                try { h(event) } catch (err) { console.warn('[mock-host] Notification handler failed:', id, err) }
+            }
+            return true
+        },
+
+        listen(widgetType, handler) {
+            const set = handlers.get(widgetType) ?? new Set()
+            handlers.set(widgetType, set)
+            set.add(handler)
+            return () => { set.delete(handler) }
+        },
+
+        open(widgetType) {
+            return shown.filter(n => !n.closed && (!widgetType || n.widgetType === widgetType))
+        },
+    }
+    return center
+}
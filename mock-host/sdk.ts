@@ -0,0 +1,284 @@
+// mock-host/sdk.ts
+//
+// Builds the WidgetSdk object the mock host injects as 'widgetSdk'.
+//
+// Every member is backed by the in-memory services on MockHost. Members are
+// gated by the widget's declared capabilities exactly like WidgetHost does
+// (same map as the build-time linter, tools/sdkCaps.ts): an undeclared cap
+// leaves the member undefined, so a widget that works here also works in the
+// app.
+
+import type {
+    Cap,
+    CapabilityDeclaration,
+    DriveStats,
+    FileRefData,
+    P2PInvite,
+    PlaylistItem,
+    WidgetSdk,
+} from 'gexplorer/widgets'
+import { SDK_CAPS, capsSatisfy } from '../tools/sdkCaps'
+import { normalizePath } from './memoryFs'
+import { sha256Hex } from './memoryVault'
+import type { MockHost } from './index'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface MockSdkSpec {
+    widgetType:    string
+    capabilities?: (CapabilityDeclaration | Cap)[]
+    /** Strip members whose cap is not declared. Defaults to true. */
+    gate?:         boolean
+}
+
+interface InvitePayload {
+    sessionId:     string
+    sessionSecret: string
+    rendezvousKey: string
+    userId:        string
+    publicKey:     string
+    expiresAt:     number
+    metadata?:     Record<string, string>
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function baseName(p: string): string {
+    const n = normalizePath(p)
+    return n.slice(n.lastIndexOf('/') + 1)
+}
+
+function dirName(p: string): string {
+    const n = normalizePath(p)
+    return n.slice(0, n.lastIndexOf('/')) || '/'
+}
+
+function randomHex(bytes: number): string {
+    const buf = new Uint8Array(bytes)
+    crypto.getRandomValues(buf)
+    return [...buf].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function encodeInvite(payload: InvitePayload): string {
+    // UTF-8 first — metadata may carry any room name
+    return btoa(unescape(encodeURIComponent(JSON.stringify(payload)))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function decodeInvite(token: string): InvitePayload {
+    try {
+        const b64 = token.replace(/-/g, '+').replace(/_/g, '/')
+        return JSON.parse(decodeURIComponent(escape(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4)))))
+    } catch {
+        throw new Error('Invalid invite token')
+    }
+}
+
+async function mockSignature(publicKey: string, data: string): Promise<string> {
+    return btoa(await sha256Hex(`sig\0${publicKey}\0${data}`))
+}
+
+/** Deep copy that also unwraps Vue proxies (structuredClone rejects them). */
+export function clonePlain<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+export function declaredCaps(capabilities: MockSdkSpec['capabilities'] = []): Cap[] {
+    return capabilities.map(c => (typeof c === 'string' ? c : c.cap))
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createMockSdk(host: MockHost, spec: MockSdkSpec): WidgetSdk {
+    const { fs, vault, clipboard, chat, network } = host
+
+    // fsCopy / fsMove accept either a destination directory or a full path
+    const resolveTarget = (from: string, to: string) =>
+        fs.isDir(to) ? `${normalizePath(to)}/${baseName(from)}` : to
+
+    const sdk: WidgetSdk = {
+        widgetType: spec.widgetType,
+
+        // Always available / utility
+        fsValidate: async (path) => {
+            const exists = fs.exists(path)
+            return { ok: true, exists, isDir: exists && fs.isDir(path) }
+        },
+
+        configRead: async (name) => {
+            const value = host.config.get(`${spec.widgetType}/${name}`)
+            return value === undefined ? null : clonePlain(value)
+        },
+        configWrite: async (name, data) => {
+            host.config.set(`${spec.widgetType}/${name}`, clonePlain(data))
+        },
+
+        fsWatch: (path, onChange) => fs.watch(path, onChange),
+
+        // The memory fs has no shell links — nothing resolves
+        shortcutsProbe: async () => ({}),
+
+        onLinkActivated: (handler) => host.links.listen(spec.widgetType, handler),
+        openLink:        async (url) => host.links.activate(url),
+
+        authorizeFileRefs: async (sourceWidgetType, sourceWidgetId, payload) => {
+            host.events.push({ kind: 'authorizeFileRefs', at: Date.now(), detail: { sourceWidgetType, sourceWidgetId, payload } })
+            return { ok: true }
+        },
+
+        renamePreview: async (files, matchPattern, replacePattern, options = {}) => {
+            const re = new RegExp(matchPattern, options.caseSensitive === false ? 'gi' : 'g')
+            return files.map(from => {
+                const to = `${dirName(from)}/${baseName(from).replace(re, replacePattern)}`
+                return { from, to, changed: to !== normalizePath(from) }
+            })
+        },
+
+        openEntry:  async (entry) => { host.events.push({ kind: 'openEntry', at: Date.now(), detail: entry }) },
+        openFolder: async (entry) => { host.events.push({ kind: 'openFolder', at: Date.now(), detail: entry }) },
+
+        // Read cap
+        fsListDirSmart: async (path, options) => fs.list(path, options),
+
+        // Write cap
+        fsMkdir:     async (path) => fs.mkdir(path),
+        fsWriteText: async (path, text, overwrite = true) => fs.writeText(path, text, overwrite),
+        fsCopy: async (items) => {
+            for (const { from, to } of items) fs.copy(from, resolveTarget(from, to))
+        },
+        fsMove: async (items) => {
+            for (const { from, to } of items) fs.move(from, resolveTarget(from, to))
+            clipboard.consumeCut()
+        },
+        fsRename: async (oldPath, newPath) => {
+            if (!fs.exists(oldPath)) return { ok: false, error: `No such file or directory: ${oldPath}` }
+            if (fs.exists(newPath))  return { ok: false, error: `Target exists: ${newPath}` }
+            fs.move(oldPath, newPath)
+            return { ok: true }
+        },
+        renameApplyBatch: async (renames) => {
+            const failed: { from: string; to: string; error: string }[] = []
+            let applied = 0
+            for (const r of renames) {
+                const result = await sdk.fsRename!(r.from, r.to)
+                if (result.ok) applied++
+                else failed.push({ ...r, error: result.error ?? 'rename failed' })
+            }
+            return { ok: failed.length === 0, applied, failed }
+        },
+
+        // Metadata cap
+        fsDriveStats: async (roots) =>
+            roots
+                .map(root => host.drives.value.find(d => d.root === root))
+                .filter((d): d is DriveStats => !!d)
+                .map(d => ({ ...d })),
+        loadIconPack: async () => {},
+
+        // Media cap
+        mintStreamHttp: async (path, mimeHint) => {
+            const bytes = fs.readBytes(path)
+            if (typeof URL.createObjectURL !== 'function') return `mock-stream://${normalizePath(path)}`
+            return URL.createObjectURL(new Blob([bytes.slice()], { type: mimeHint ?? '' }))
+        },
+        fileRefsToPlaylistItems: async (refs: FileRefData[]) => {
+            const items: PlaylistItem[] = []
+            for (const ref of refs) {
+                if (ref.isDirectory || !fs.exists(ref.path)) continue
+                items.push({
+                    id:   ref.path,
+                    src:  await sdk.mintStreamHttp!(ref.path, ref.mimeType),
+                    name: ref.name || baseName(ref.path),
+                    type: ref.mimeType,
+                })
+            }
+            return items
+        },
+
+        // Network cap
+        networkFetch: (url, options) => network.fetch(url, options),
+
+        // Clipboard cap
+        clipboardCopyFiles: async (paths) => clipboard.copyFiles(paths),
+        clipboardCutFiles:  async (paths) => clipboard.cutFiles(paths),
+        clipboardGetFiles:  async () => clipboard.getFiles(),
+
+        // P2P / SP2P identity + invites
+        p2pGetIdentity: async () => ({ ...host.identity }),
+        p2pDeriveKey:   (context) => sha256Hex(`${host.identity.userId}\0${context}`),
+        p2pSetUsername: async (username) => {
+            host.identity.displayName = username.trim()
+            host.identity.isNameSet   = true
+            return { displayName: host.identity.displayName }
+        },
+
+        // Keyed hash over the publicKey — anyone can recompute it, so this
+        // exercises the signing flow but not forgery resistance
+        p2pSign:   (data) => mockSignature(host.identity.publicKey, data),
+        p2pVerify: async (publicKey, data, signature) =>
+            signature === await mockSignature(publicKey, data),
+
+        p2pCreateInvite: async (sessionId, options = {}) => {
+            const sessionSecret = options.sessionSecret ?? randomHex(32)
+            const rendezvousKey = await sha256Hex(`rendezvous\0${sessionId}\0${sessionSecret}`)
+            const token = encodeInvite({
+                sessionId,
+                sessionSecret,
+                rendezvousKey,
+                userId:    host.identity.userId,
+                publicKey: host.identity.publicKey,
+                expiresAt: Date.now() + (options.validityMinutes ?? 60) * 60_000,
+                ...(options.metadata ? { metadata: { ...options.metadata } } : {}),
+            })
+            const invite: P2PInvite = { token, sessionId, sessionSecret, rendezvousKey }
+            return invite
+        },
+
+        p2pAcceptInvite: async (token) => {
+            const decoded = decodeInvite(token.trim())
+            if (Date.now() > decoded.expiresAt) throw new Error('Invite has expired')
+            return {
+                rendezvousKey: decoded.rendezvousKey,
+                publicKey:     decoded.publicKey,
+                userId:        decoded.userId,
+                sessionId:     decoded.sessionId,
+                sessionSecret: decoded.sessionSecret,
+                ...(decoded.metadata ? { metadata: decoded.metadata } : {}),
+            }
+        },
+
+        useChannel: (options) => host.fabric.open(chat, options),
+
+        // SecureStorage cap
+        vaultOpen:          (opts) => vault.open(opts),
+        vaultClose:         (token) => vault.close(token),
+        vaultSealAs:        (token, sourcePath, vpath) => vault.sealAs(token, sourcePath, vpath),
+        vaultSealContentAs: (token, content, vpath) => vault.sealContentAs(token, content, vpath),
+        vaultUnseal:        (token, sha, fileName) => vault.unseal(token, sha, fileName),
+        vaultUnsealCleanup: (physicalPath) => vault.unsealCleanup(physicalPath),
+        vaultUnsealText:    (token, sha) => vault.unsealText(token, sha),
+        vaultUnsealBase64:  (token, sha) => vault.unsealBase64(token, sha),
+        vaultList:          (token, prefix) => vault.list(token, prefix),
+        vaultDelete:        (token, accessPointId) => vault.delete(token, accessPointId),
+
+        // Chat cap
+        chatGetHistory:     async (scopeId, limit) => chat.history(scopeId, limit),
+        chatSearch:         async (scopeId, query, limit) => chat.search(scopeId, query, limit),
+        chatGetMessage:     async (scopeId, messageId) => chat.get(scopeId, messageId),
+        chatUpdateMessage:  async (scopeId, messageId, patch) => chat.update(scopeId, messageId, patch),
+        onChatMessage:      (handler) => chat.onMessage(handler),
+        onChatHistoryReady: (handler) => chat.onHistoryReady(handler),
+
+        // Notifications cap
+        notificationShow:      async (options) => host.notices.show(spec.widgetType, options),
+        notificationClose:     async (id) => host.notices.close(id),
+        onNotificationClicked: (handler) => host.notices.listen(spec.widgetType, handler),
+    }
+
+    if (spec.gate === false) return sdk
+
+    const caps = declaredCaps(spec.capabilities)
+    for (const member of Object.keys(SDK_CAPS)) {
+        if (!capsSatisfy(member, caps)) delete (sdk as Record<string, unknown>)[member]
+    }
+    return sdk
+}
@@ -0,0 +1,142 @@
+// mock-host/selection.ts
+//
+// Selection engine for the mock host — same call surface and click semantics
+// as the app's engine, without the pointer-capture and drag-threshold
+// plumbing:
+//
+//   click              select only that row (collapsed on pointer-up when the
+//                      row was already selected, so a drag keeps the set)
+//   ctrl/cmd + click   toggle row, move anchor
+//   shift + click      range from anchor
+//   Up/Down/Home/End   move focus; with shift, extend from anchor
+//
+// The mac policy uses meta (cmd) as the toggle modifier, windows uses ctrl.
+
+import type { SelectionEngine } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type Mods = { shift?: boolean; ctrl?: boolean; meta?: boolean; alt?: boolean }
+
+export interface SelectionOptions {
+    policy?: 'mac' | 'windows'
+    [key: string]: any
+}
+
+export interface SelectionAdapter {
+    orderedIds: () => string[]
+}
+
+export interface SelectionCallbacks {
+    selectionChanged?: (selected: Set<string>) => void
+    focusChanged?:     (index: number | null) => void
+    log?:              (e: { reason: string; selected: string[] }) => void
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createSelectionEngine(
+    options: SelectionOptions,
+    adapter: SelectionAdapter,
+    callbacks: SelectionCallbacks = {},
+): SelectionEngine {
+    let selected = new Set<string>()
+    let anchor: string | null = null
+    let focus:  string | null = null
+    let pendingCollapse: string | null = null
+    let dragging  = false
+    let destroyed = false
+
+    const toggleKey = (m: Mods = {}) => (options.policy === 'mac' ? !!m.meta : !!m.ctrl)
+
+    const commit = (next: Set<string>, reason: string) => {
+        if (destroyed) return
+        selected = next
+        callbacks.selectionChanged?.(new Set(selected))
+        callbacks.log?.({ reason, selected: [...selected] })
+    }
+
+    const setFocus = (id: string | null) => {
+        focus = id
+        const idx = id === null ? -1 : adapter.orderedIds().indexOf(id)
+        callbacks.focusChanged?.(idx >= 0 ? idx : null)
+    }
+
+    const range = (from: string, to: string): string[] => {
+        const ids = adapter.orderedIds()
+        const a = ids.indexOf(from), b = ids.indexOf(to)
+        if (a < 0 || b < 0) return [to]
+        return ids.slice(Math.min(a, b), Math.max(a, b) + 1)
+    }
+
+    return {
+        destroy() {
+            destroyed = true
+        },
+
+        replaceSelection(ids, meta) {
+            anchor = ids[ids.length - 1] ?? null
+            commit(new Set(ids), meta?.reason ?? 'replace')
+        },
+
+        getSelected: () => new Set(selected),
+
+        rowDownId(id, mods = {}) {
+            pendingCollapse = null
+            if (mods.shift && anchor) {
+                const next = toggleKey(mods) ? new Set(selected) : new Set<string>()
+                for (const r of range(anchor, id)) next.add(r)
+                commit(next, 'range')
+            } else if (toggleKey(mods)) {
+                const next = new Set(selected)
+                if (next.has(id)) next.delete(id)
+                else next.add(id)
+                anchor = id
+                commit(next, 'toggle')
+            } else if (selected.has(id)) {
+                anchor = id
+                pendingCollapse = id
+            } else {
+                anchor = id
+                commit(new Set([id]), 'single')
+            }
+            setFocus(id)
+        },
+
+        rowMove() {},
+
+        rowUpId(id) {
+            if (pendingCollapse === id && !dragging && selected.size > 1)
+                commit(new Set([id]), 'collapse')
+            pendingCollapse = null
+        },
+
+        dragStart() {
+            dragging = true
+            pendingCollapse = null
+        },
+
+        dragEnd() {
+            dragging = false
+        },
+
+        kbd(key: 'Up' | 'Down' | 'Home' | 'End', mods: Mods = {}) {
+            const ids = adapter.orderedIds()
+            if (ids.length === 0) return
+            const cur = focus ? ids.indexOf(focus) : -1
+            const idx =
+                key === 'Home' ? 0 :
+                key === 'End'  ? ids.length - 1 :
+                key === 'Up'   ? Math.max(0, cur < 0 ? 0 : cur - 1) :
+                                 Math.min(ids.length - 1, cur + 1)
+            const id = ids[idx]
+            if (mods.shift && anchor) {
+                commit(new Set(range(anchor, id)), 'kbd-range')
+            } else {
+                anchor = id
+                commit(new Set([id]), 'kbd')
+            }
+            setFocus(id)
+        },
+    }
+}
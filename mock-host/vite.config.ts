@@ -0,0 +1,62 @@
+// mock-host/vite.config.ts
+//
+// Dev server for the mock host page (`npm run dev`).
+//
+// Widgets import host modules that only exist inside the app — they are
+// redirected here:
+//   'gexplorer/widgets', '/src/…' host modules  →  mock-host/widgets.ts
+//   '/runtime/vue.js'                          →  the real 'vue' package
+//
+// Repo files that happen to live under /src (the GExchange widget) are left
+// alone: a '/src/…' id is only treated as a host module when no such file
+// exists in the repo.
+
+import { defineConfig, type Plugin } from 'vite'
+import vue from '@vitejs/plugin-vue'
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const here     = path.dirname(fileURLToPath(import.meta.url))
+const repoRoot = path.resolve(here, '..')
+const runtime  = path.join(here, 'widgets.ts')
+
+const SOURCE_EXTS = ['', '.ts', '.vue', '.js']
+
+function isRepoFile(id: string): boolean {
+    const file = path.join(repoRoot, id.split('?')[0])
+    return SOURCE_EXTS.some(ext => fs.existsSync(file + ext))
+}
+
+function mockHostModules(): Plugin {
+    return {
+        name: 'mock-host-modules',
+        enforce: 'pre',
+        async resolveId(source, importer) {
+            // Some widgets import '/runtime/vue.js ' with a trailing space
+            const id = source.trim()
+            if (id === '/runtime/vue.js')
+                return this.resolve('vue', importer, { skipSelf: true })
+            if (id === 'gexplorer/widgets')
+                return runtime
+            if (id.startsWith('/src/') && !isRepoFile(id))
+                return runtime
+            return null
+        },
+    }
+}
+
+export default defineConfig({
+    root: path.join(here, 'dev'),
+    plugins: [mockHostModules(), vue()],
+    // The entry glob reaches every widget folder, including ones outside the
+    // workspace that import host modules the mock does not provide — don't
+    // let the dependency scanner crawl them.
+    optimizeDeps: {
+        noDiscovery: true,
+        include: ['vue'],
+    },
+    server: {
+        fs: { allow: [repoRoot] },
+    },
+})
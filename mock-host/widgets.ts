@@ -0,0 +1,355 @@
+// mock-host/widgets.ts
+//
+// Runtime implementation of 'gexplorer/widgets' for the mock host.
+//
+// The dev page aliases 'gexplorer/widgets' (and the host's '/src/…' modules)
+// to this file, so widget code runs unmodified. Every function acts on the
+// active MockHost (see index.ts). Signatures follow what the example widgets
+// actually call, which in a few places is richer than the d.ts (e.g.
+// startNativeDrag resolves { cleanup, resolvedPaths }, iconFor accepts an
+// entry descriptor).
+//
+// Pointer-driven helpers (sortable, marquee, snap-resize, drag trigger,
+// scroll hints) return inert handles — the mock host does not simulate
+// pointer geometry.
+
+import { computed, ref, type Ref } from 'vue'
+import type {
+    DnDValidator,
+    FileRefData,
+    GexDnDPayload,
+    GexDnDType,
+    ScopedMessaging,
+    SlotProvider,
+    WidgetManifest,
+    WidgetMenuConfig,
+} from 'gexplorer/widgets'
+import { getActiveHost } from './index'
+import type { FavoritesMove } from './favorites'
+import { clonePlain } from './sdk'
+import type { DialogRequest } from './dialog'
+import { withRequests } from '../tools/widgetRequests'
+
+export { createSelectionEngine } from './selection'
+export { inspectWidgetMessages } from '../tools/widgetRequests'
+export { prepareWidgetConfig, useWidgetConfig } from '../tools/useWidgetConfig'
+
+const GEX_MIME = 'application/x-gex-payload'
+
+// ── Manifest ──────────────────────────────────────────────────────────────────
+
+export function defineWidget<M extends WidgetManifest>(manifest: M): M {
+    return manifest
+}
+
+// ── Pointer helpers (inert) ───────────────────────────────────────────────────
+
+export function createLinearSortable(_options: any) {
+    return { destroy() {}, refresh() {} }
+}
+
+export function useSortable<T>(list: Ref<T[]>, _options: any = {}) {
+    return {
+        displayList: computed(() => list.value),
+        isDragging:  ref(false),
+        draggingId:  ref<string | null>(null),
+        startDrag:   () => {},
+    }
+}
+
+export function useScrollHints(_options: any) {
+    return {
+        hasOverflow:  ref(false),
+        atStart:      ref(true),
+        atEnd:        ref(true),
+        scrollByPage: (_dir: number) => {},
+    }
+}
+
+export function useSnapResize(_options: any) {
+    return {
+        style:        computed(() => ({})),
+        onResizeDown: (_e: PointerEvent) => {},
+    }
+}
+
+export function createDragTrigger(_onDrag: (e: PointerEvent) => void, _options: any = {}) {
+    return (_e: PointerEvent) => {}
+}
+
+export function createMarqueeDriver(..._args: any[]) {
+    return {
+        pointerDown:     () => false,
+        pointerMove:     () => {},
+        pointerUp:       () => {},
+        adjustForScroll: () => {},
+        recomputeNow:    () => {},
+        destroy:         () => {},
+    }
+}
+
+// ── FS / icons ────────────────────────────────────────────────────────────────
+
+export async function fsValidate(path: string) {
+    const { fs } = getActiveHost()
+    const exists = fs.exists(path)
+    return { ok: true, exists, isDir: exists && fs.isDir(path) }
+}
+
+const EXT_ICONS: Record<string, string> = {
+    '.txt': '📄', '.md': '📝', '.json': '🧾', '.ts': '📜', '.js': '📜',
+    '.mp3': '🎵', '.flac': '🎵', '.wav': '🎵', '.ogg': '🎵',
+    '.png': '🖼️', '.jpg': '🖼️', '.jpeg': '🖼️', '.gif': '🖼️',
+    '.mp4': '🎬', '.mkv': '🎬', '.zip': '🗜️', '.exe': '⚙️', '.lnk': '🔗',
+}
+
+export function iconFor(target: string | { kind?: string; ext?: string }, _size?: number): string {
+    if (typeof target === 'string') {
+        const host = getActiveHost()
+        if (host.fs.isDir(target)) return '📁'
+        const dot = target.lastIndexOf('.')
+        return EXT_ICONS[dot >= 0 ? target.slice(dot).toLowerCase() : ''] ?? '📄'
+    }
+    if (target?.kind === 'dir') return '📁'
+    return EXT_ICONS[(target?.ext ?? '').toLowerCase()] ?? '📄'
+}
+
+/** Icons are emoji here — nothing to fetch. Resolves the number of new icons (0). */
+export async function ensureIconsFor(_targets: unknown[], _size?: number): Promise<number> {
+    return 0
+}
+
+export async function loadIconPack(): Promise<void> {}
+
+/** VFS stateStyles for an entry — no VFS handlers run on the mock host. */
+export function getEntryStyle(_entry: unknown): null {
+    return null
+}
+
+// ── Drag and drop ─────────────────────────────────────────────────────────────
+
+export function createGexPayload<T>(
+    type: GexDnDType | string,
+    data: T,
+    source: { widgetType: string; widgetId: string },
+    metadata?: Record<string, any>,
+): GexDnDPayload<T> {
+    return { type, data, source, ...(metadata ? { metadata } : {}) }
+}
+
+export function setGexPayload(dataTransfer: DataTransfer, payload: GexDnDPayload): void {
+    dataTransfer.setData(GEX_MIME, JSON.stringify(payload))
+}
+
+export function extractGexPayload(e: DragEvent): GexDnDPayload | null {
+    const raw = e.dataTransfer?.getData(GEX_MIME)
+    if (raw) {
+        try { return JSON.parse(raw) } catch { /* fall through */ }
+    }
+    return getActiveHost().activeDrag?.payload ?? null
+}
+
+export function hasGexPayload(e: DragEvent): boolean {
+    return !!e.dataTransfer?.types.includes(GEX_MIME) || !!getActiveHost().activeDrag
+}
+
+export function createDragPreview(options: { label: string; icon?: string; count?: number }): HTMLElement {
+    const el = document.createElement('div')
+    el.className   = 'gex-drag-preview'
+    el.textContent = `${options.icon ?? ''} ${options.label}${options.count && options.count > 1 ? ` (${options.count})` : ''}`.trim()
+    return el
+}
+
+export function authorizeFileRefs(
+    widgetType: string,
+    widgetId: string,
+    payload: GexDnDPayload,
+    caps?: string[],
+): Promise<{ ok: boolean; reason?: string }> {
+    const host = getActiveHost()
+    host.events.push({ kind: 'authorizeFileRefs', at: Date.now(), detail: { widgetType, widgetId, payload, caps } })
+    return Promise.resolve({ ok: true })
+}
+
+export function authorizeDrop(
+    widgetType: string,
+    widgetId: string,
+    payload: GexDnDPayload,
+    validator: DnDValidator,
+): Promise<{ ok: boolean; reason?: string }> {
+    return validator(payload, { widgetType, widgetId })
+}
+
+export async function fileRefsToPlaylistItems(refs: FileRefData[], receiverWidgetType: string, receiverWidgetId: string) {
+    const host = getActiveHost()
+    const sdk  = host.createSdk({ widgetType: receiverWidgetType, gate: false })
+    return sdk.fileRefsToPlaylistItems!(refs, receiverWidgetType, receiverWidgetId)
+}
+
+export function setActiveDragPayload(payload: GexDnDPayload, sourceId: string): void {
+    getActiveHost().activeDrag = { payload, sourceId }
+}
+
+export function clearActiveDragPayload(): void {
+    getActiveHost().activeDrag = null
+}
+
+/**
+ * There is no OS drag here: the drag is recorded as a host event and resolves
+ * immediately with every path, as if no VFS hook vetoed it.
+ */
+export function startNativeDrag(
+    paths: string[],
+    preview: { label: string; icon?: string; count?: number },
+    callbacks: { onDrop?: () => void; onExternalResult?: (effect: string) => void } = {},
+    x = 0,
+    y = 0,
+    context?: unknown,
+): Promise<{ cleanup: () => void; resolvedPaths: string[] }> {
+    const host = getActiveHost()
+    host.events.push({ kind: 'nativeDrag', at: Date.now(), detail: { paths, preview, x, y, context } })
+    return Promise.resolve({
+        cleanup:       () => { host.activeDrag = null },
+        resolvedPaths: [...paths],
+    })
+}
+
+// ── Messaging ─────────────────────────────────────────────────────────────────
+
+/** The bus carries send / on; request / handle come from the same layer the build bundles. */
+export function createWidgetMessaging(sourceId: string): ScopedMessaging {
+    return withRequests(getActiveHost().bus.scoped(sourceId), sourceId)
+}
+
+/** Legacy form: one handler for every topic addressed to `sourceId`. */
+export function onWidgetMessage(sourceId: string, handler: (msg: any) => void): () => void {
+    return getActiveHost().bus.onMessage(msg => {
+        if (msg.to === sourceId || (!msg.to && msg.from !== sourceId)) handler(msg)
+    })
+}
+
+export function sendWidgetMessage(msg: { from: string; to?: string; topic: string; payload?: any }): void {
+    getActiveHost().bus.scoped(msg.from).send(msg.to as string, msg.topic, msg.payload)
+}
+
+// ── Drives / favorites / navigation ───────────────────────────────────────────
+
+const toSnapshot = ({ root, name, fsType, kind }: { root: string; name: string; fsType: string; kind: string }) =>
+    ({ root, name, fsType, kind })
+
+export function getDrives() {
+    return getActiveHost().drives.value.map(toSnapshot)
+}
+
+export function subscribeDrives(callback: (drives: ReturnType<typeof getDrives>) => void): () => void {
+    const host = getActiveHost()
+    callback(getDrives())
+    return host.onDrivesChanged(() => callback(getDrives()))
+}
+
+export async function getFavorites(_sourceId?: string) {
+    return getActiveHost().favorites.list()
+}
+
+export async function getGlobalFavorites() {
+    return clonePlain(getActiveHost().favorites.tree)
+}
+
+export async function addFavorite(path: string, label?: string, parentId?: string | null) {
+    getActiveHost().favorites.addFavorite(path, label, parentId)
+}
+
+export async function addFolder(label: string, parentId?: string | null) {
+    return getActiveHost().favorites.addFolder(label, parentId)
+}
+
+export async function removeFavorite(path: string) {
+    getActiveHost().favorites.removeFavorite(path)
+}
+
+export async function removeFolder(id: string) {
+    getActiveHost().favorites.removeFolder(id)
+}
+
+export async function applyFavoritesMove(move: FavoritesMove) {
+    getActiveHost().favorites.move(move)
+}
+
+export function getCurrentPath(): string | null {
+    return getActiveHost().currentPath.value
+}
+
+// ── Lifecycle / audio ─────────────────────────────────────────────────────────
+
+/**
+ * Cells live on the host keyed by owner, so a remounted widget instance picks
+ * its state back up — the same guarantee the app's lifecycle store gives.
+ */
+export function createLifecycle(ownerId: string) {
+    const { storage } = getActiveHost()
+    const cell = <T>(key: string, initial: T): Ref<T> => {
+        const id = `${ownerId}:${key}`
+        if (!storage.has(id)) storage.set(id, ref(initial))
+        return storage.get(id) as Ref<T>
+    }
+    return {
+        ownerId,
+        cell,
+        persistRef: cell,
+        dispose() {
+            for (const id of [...storage.keys()])
+                if (id.startsWith(`${ownerId}:`)) storage.delete(id)
+        },
+    }
+}
+
+export function useAudio() {
+    return getActiveHost().audio
+}
+
+// ── Menus / rename / dialogs ──────────────────────────────────────────────────
+
+export function registerWidgetMenus(widgetType: string, config: WidgetMenuConfig): void {
+    getActiveHost().menus.set(widgetType, config)
+}
+
+export interface RenameOptions {
+    onCommit:   (value: string) => void | Promise<void>
+    onCancel?:  () => void
+    validate?:  (value: string) => string | null
+    [key: string]: any
+}
+
+/**
+ * Answered by the scripted dialog (kind 'rename'). A value that fails
+ * `validate` is reported as a host event and treated as a cancel.
+ */
+export function startRename(id: string, options: RenameOptions): Promise<void> {
+    const host = getActiveHost()
+    return host.dialog.open({ kind: 'rename', id }).then(async result => {
+        if (result.cancelled || result.value === undefined) {
+            options.onCancel?.()
+            return
+        }
+        const error = options.validate?.(result.value)
+        if (error) {
+            host.events.push({ kind: 'renameRejected', at: Date.now(), detail: { id, value: result.value, error } })
+            options.onCancel?.()
+            return
+        }
+        await options.onCommit(result.value)
+    })
+}
+
+export function useDialog() {
+    return {
+        open: (req: DialogRequest) => getActiveHost().dialog.open(req),
+    }
+}
+
+// ── Slots ─────────────────────────────────────────────────────────────────────
+
+export function useSlotProviders(slotId: string) {
+    const host = getActiveHost()
+    return computed<SlotProvider[]>(() => host.slots.get(slotId) ?? [])
+}
@@ -4,8 +4,9 @@
 // Third parties can define identical hooks for their own schemes.
 
 import ChatRoom from './ChatRoom.vue'
+import { defineWidget } from 'gexplorer/widgets'
 
-export default {
+export default defineWidget({
     id: 'gexchange',
     version: '1.0.0',
     displayName: 'GExchange',
@@ -15,7 +16,8 @@ export default {
     { cap: 'SP2P',          reason: 'private split-path chat and voice rooms' },
      { cap: 'SecureStorage', reason: 'encrypted file vault per room' },
      { cap: 'Chat',          reason: 'real-time messaging with peers' },
-     { cap: 'Network',       reason: 'outbound peer connections' },
+     { cap: 'Media',         reason: 'opens shared vault files in the player' },
+     { cap: 'Notifications', reason: 'desktop alerts for new messages' },
     ],
 
     Component: ChatRoom,
@@ -109,6 +111,13 @@ export default {
         },
     }],
 
+    // ── Deep Links ────────────────────────────────────────────────────────────
+
+    // gexchange://join/<token> — opens the join modal pre-filled (useRooms)
+    links: [
+        { path: 'join/', label: 'Join GExchange room' },
+    ],
+
     // ── Extension Points ──────────────────────────────────────────────────────
 
    provides: [
@@ -142,4 +151,4 @@ export default {
         data: { room: '' },
         view: { layout: 'chat' },
     },
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,452 @@
+// src/widgets/gexchange/markdown.ts
+//
+// The markdown subset chat messages are written in — parsed here, rendered by
+// MessageText.vue as ordinary elements. Nothing is ever turned into HTML, so
+// the text cannot inject markup: no v-html anywhere.
+//
+// RESPONSIBILITIES:
+//   - Blocks: paragraphs (line breaks kept), fenced code, lists, block quotes
+//   - Inlines: bold, italics, inline code, links ([text](url) and bare URLs)
+//   - Link safety: http(s), mailto and our own gexchange:// links only; any
+//     other target stays plain text
+//   - Syntax highlighting for fenced code: a small tokenizer with keyword
+//     lists for common languages
+//
+// Messages are markdown only when sent with meta.format MARKDOWN_FORMAT, so
+// history and messages from older versions keep showing as the plain text
+// they were written as.
+
+import type { ChatMessage } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type MdInline =
+    | { type: 'text';   text: string }
+    | { type: 'strong'; children: MdInline[] }
+    | { type: 'em';     children: MdInline[] }
+    | { type: 'code';   text: string }
+    | { type: 'link';   href: string; children: MdInline[] }
+    | { type: 'br' }
+
+export type MdBlock =
+    | { type: 'paragraph'; children: MdInline[] }
+    | { type: 'code';  lang: string; lines: CodeToken[][] }
+    | { type: 'list';  ordered: boolean; start: number; items: MdInline[][] }
+    | { type: 'quote'; children: MdBlock[] }
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'number' | 'comment'
+
+export interface CodeToken {
+    kind: CodeTokenKind
+    text: string
+}
+
+export const FORMAT_META     = 'format'
+export const MARKDOWN_FORMAT = 'markdown'
+
+/** Nested quotes and emphasis past this depth are left as text. */
+const MAX_DEPTH = 4
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'gexchange:']
+
+export function isMarkdown(msg: Pick<ChatMessage, 'meta'>): boolean {
+    return msg.meta?.[FORMAT_META] === MARKDOWN_FORMAT
+}
+
+export function safeHref(href: string): string | null {
+    try {
+        return SAFE_PROTOCOLS.includes(new URL(href).protocol) ? href : null
+    } catch {
+        return null
+    }
+}
+
+// ── Blocks ────────────────────────────────────────────────────────────────────
+
+const FENCE_RE     = /^\s{0,3}```\s*([\w+#.-]*)\s*$/
+const FENCE_END_RE = /^\s{0,3}```\s*$/
+const QUOTE_RE     = /^\s{0,3}> ?(.*)$/
+const BULLET_RE    = /^\s{0,3}[-*+]\s+(.*)$/
+const ORDERED_RE   = /^\s{0,3}(\d{1,9})[.)]\s+(.*)$/
+
+export function parseMarkdown(text: string, depth = 0): MdBlock[] {
+    const lines  = text.replace(/\r\n?/g, '\n').split('\n')
+    const blocks: MdBlock[] = []
+    let para: string[] = []
+
+    const flush = () => {
+        if (para.length) blocks.push({ type: 'paragraph', children: parseInline(para.join('\n')) })
+        para = []
+    }
+
+    let i = 0
+    while (i < lines.length) {
+        const line = lines[i]
+
+        const fence = FENCE_RE.exec(line)
+        if (fence) {
+            flush()
+            const code: string[] = []
+            i++
+            while (i < lines.length && !FENCE_END_RE.test(lines[i])) code.push(lines[i++])
+            i++   // closing fence — an unclosed block runs to the end
+            const lang = fence[1].toLowerCase()
+            blocks.push({ type: 'code', lang, lines: highlightCode(code.join('\n'), lang) })
+            continue
+        }
+
+        if (QUOTE_RE.test(line) && depth < MAX_DEPTH) {
+            flush()
+            const inner: string[] = []
+            let m: RegExpExecArray | null
+            while (i < lines.length && (m = QUOTE_RE.exec(lines[i]))) { inner.push(m[1]); i++ }
+            blocks.push({ type: 'quote', children: parseMarkdown(inner.join('\n'), depth + 1) })
+            continue
+        }
+
+        const bullet = BULLET_RE.exec(line), ordered = ORDERED_RE.exec(line)
+        if (bullet || ordered) {
+            flush()
+            const isOrdered = !bullet
+            const items: string[] = []
+            while (i < lines.length) {
+                const b = BULLET_RE.exec(lines[i]), o = ORDERED_RE.exec(lines[i])
+                if (isOrdered ? o : b) {
+                    items.push(isOrdered ? o![2] : b![1])
+                } else if (items.length && /^\s+\S/.test(lines[i])) {
+                    // Indented continuation of the item above
+                    items[items.length - 1] += '\n' + lines[i].trim()
+                } else {
+                    break
+                }
+                i++
+            }
+            blocks.push({
+                type:    'list',
+                ordered: isOrdered,
+                start:   isOrdered ? Number(ordered![1]) : 1,
+                items:   items.map(item => parseInline(item)),
+            })
+            continue
+        }
+
+        if (!line.trim()) flush()
+        else para.push(line)
+        i++
+    }
+    flush()
+    return blocks
+}
+
+// ── Inlines ───────────────────────────────────────────────────────────────────
+
+const ESCAPABLE    = '\\`*_[]()>#+-.!~'
+const AUTOLINK_RE  = /^(?:https?:\/\/|gexchange:\/\/|mailto:)[^\s<>]+/
+const TRAILING_RE  = /[.,;:!?)\]'"]+$/
+
+const _isWord  = (ch: string | undefined) => !!ch && /[\p{L}\p{N}_]/u.test(ch)
+const _isSpace = (ch: string | undefined) => !ch || /\s/.test(ch)
+
+/** Searches over one source that only ever move forward. */
+interface Finder {
+    /** src.indexOf(needle, from) */
+    indexOf:     (needle: string, from: number) => number
+    /** First position at or after `from` where `delim` can close emphasis, or -1. */
+    closerAfter: (delim: string, from: number) => number
+}
+
+// Openers that never close would each rescan the rest of the message —
+// quadratic on text like `_a _a _a …`. Every search here resumes from what
+// the last one found, and whether a delimiter can close depends only on its
+// own position, so the closers are listed once per source.
+function _finder(src: string): Finder {
+    const found   = new Map<string, { from: number; at: number }>()
+    const closers = new Map<string, number[]>()
+
+    const indexOf = (needle: string, from: number) => {
+        const last = found.get(needle)
+        // Nothing between last.from and last.at, so the answer still holds
+        if (last && from >= last.from && (last.at < 0 || from <= last.at)) return last.at
+        const at = src.indexOf(needle, from)
+        found.set(needle, { from, at })
+        return at
+    }
+
+    const _closers = (delim: string) => {
+        const ch     = delim[0]
+        const strong = delim.length === 2
+        const list: number[] = []
+        for (let at = src.indexOf(delim); at >= 0; at = src.indexOf(delim, at + 1)) {
+            const hugs   = !_isSpace(src[at - 1])
+            const wordOk = ch !== '_' || !_isWord(src[at + delim.length])
+            // A single '*' must not be half of a '**'
+            const single = strong || (src[at + 1] !== ch && src[at - 1] !== ch)
+            if (hugs && wordOk && single) list.push(at)
+        }
+        return list
+    }
+
+    const closerAfter = (delim: string, from: number) => {
+        let list = closers.get(delim)
+        if (!list) closers.set(delim, list = _closers(delim))
+        let lo = 0
+        let hi = list.length
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1
+            if (list[mid] < from) lo = mid + 1
+            else hi = mid
+        }
+        return lo < list.length ? list[lo] : -1
+    }
+
+    return { indexOf, closerAfter }
+}
+
+export function parseInline(src: string, depth = 0): MdInline[] {
+    const out: MdInline[] = []
+    const find = _finder(src)
+    let text = ''
+
+    const push = (node: MdInline) => {
+        if (text) out.push({ type: 'text', text })
+        text = ''
+        out.push(node)
+    }
+
+    let i = 0
+    while (i < src.length) {
+        const ch = src[i]
+
+        if (ch === '\\' && ESCAPABLE.includes(src[i + 1] ?? '')) {
+            text += src[i + 1]
+            i += 2
+            continue
+        }
+
+        if (ch === '\n') {
+            push({ type: 'br' })
+            i++
+            continue
+        }
+
+        if (ch === '`') {
+            let n = 1
+            while (src[i + n] === '`') n++
+            const fence = '`'.repeat(n)
+            const end   = find.indexOf(fence, i + n)
+            if (end > i + n) {
+                push({ type: 'code', text: src.slice(i + n, end).replace(/^ (.*) $/s, '$1') })
+                i = end + n
+                continue
+            }
+            text += fence
+            i += n
+            continue
+        }
+
+        if (ch === '[' && depth < MAX_DEPTH) {
+            const link = _link(src, i, depth, find)
+            if (link) {
+                push(link.node)
+                i = link.end
+                continue
+            }
+        }
+
+        if ('hgm'.includes(ch) && !_isWord(src[i - 1])) {
+            const m = AUTOLINK_RE.exec(src.slice(i))
+            if (m) {
+                const url  = m[0].replace(TRAILING_RE, '')
+                const href = safeHref(url)
+                if (href) {
+                    push({ type: 'link', href, children: [{ type: 'text', text: url }] })
+                    i += url.length
+                    continue
+                }
+            }
+        }
+
+        if ((ch === '*' || ch === '_') && depth < MAX_DEPTH) {
+            const emph = _emphasis(src, i, depth, find)
+            if (emph) {
+                push(emph.node)
+                i = emph.end
+                continue
+            }
+        }
+
+        text += ch
+        i++
+    }
+    if (text) out.push({ type: 'text', text })
+    return out
+}
+
+function _link(src: string, start: number, depth: number, find: Finder): { node: MdInline; end: number } | null {
+    const close = find.indexOf('](', start + 1)
+    if (close < 0) return null
+    const newline = find.indexOf('\n', start + 1)
+    if (newline >= 0 && newline < close) return null
+    const end = find.indexOf(')', close + 2)
+    if (end < 0) return null
+    const href = safeHref(src.slice(close + 2, end).trim())
+    const label = src.slice(start + 1, close)
+    if (!href || !label.trim()) return null
+    // No links inside links
+    const children = parseInline(label, depth + 1)
+        .flatMap(node => node.type === 'link' ? node.children : [node])
+    return { node: { type: 'link', href, children }, end: end + 1 }
+}
+
+function _emphasis(src: string, start: number, depth: number, find: Finder): { node: MdInline; end: number } | null {
+    const ch = src[start]
+    // No emphasis spans a blank line
+    const spansBreak = (from: number, close: number) => {
+        const at = find.indexOf('\n\n', from)
+        return at >= 0 && at + 2 <= close
+    }
+
+    // ***both*** — bold around italics
+    const triple = ch.repeat(3)
+    if (src.startsWith(triple, start) && !_isSpace(src[start + 3])) {
+        const close = find.indexOf(triple, start + 4)
+        if (close > 0 && !_isSpace(src[close - 1]) && !spansBreak(start + 3, close)) {
+            const em: MdInline = { type: 'em', children: parseInline(src.slice(start + 3, close), depth + 2) }
+            return { node: { type: 'strong', children: [em] }, end: close + 3 }
+        }
+    }
+
+    const strong = src[start + 1] === ch
+    const delim  = strong ? ch + ch : ch
+    const from   = start + delim.length
+
+    // Opening delimiter hugs the text; '_' never opens inside a word (snake_case)
+    if (_isSpace(src[from])) return null
+    if (ch === '_' && _isWord(src[start - 1])) return null
+
+    const close = find.closerAfter(delim, from + 1)
+    if (close < 0 || spansBreak(from, close)) return null
+
+    return {
+        node: { type: strong ? 'strong' : 'em', children: parseInline(src.slice(from, close), depth + 1) },
+        end:  close + delim.length,
+    }
+}
+
+// ── Syntax highlighting ───────────────────────────────────────────────────────
+
+interface LanguageSpec {
+    keywords:      Set<string>
+    lineComment?:  string
+    blockComment?: [string, string]
+}
+
+const _words = (s: string) => new Set(s.split(/\s+/))
+
+const C_LIKE = {
+    lineComment:  '//',
+    blockComment: ['/*', '*/'] as [string, string],
+}
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+    js: { ...C_LIKE, keywords: _words(
+        'async await break case catch class const continue default delete do else export extends false finally ' +
+        'for from function if import in instanceof let new null return static super switch this throw true try ' +
+        'typeof undefined var void while yield of') },
+    ts: { ...C_LIKE, keywords: _words(
+        'abstract any as async await boolean break case catch class const continue declare default delete do else ' +
+        'enum export extends false finally for from function if implements import in instanceof interface keyof let ' +
+        'namespace never new null number private protected public readonly return satisfies static string super ' +
+        'switch this throw true try type typeof undefined unknown var void while yield of') },
+    py: { lineComment: '#', keywords: _words(
+        'and as assert async await break class continue def del elif else except False finally for from global if ' +
+        'import in is lambda None nonlocal not or pass raise return True try while with yield self') },
+    rs: { ...C_LIKE, keywords: _words(
+        'as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod ' +
+        'move mut pub ref return self Self static struct super trait true type unsafe use where while Some None Ok Err') },
+    go: { ...C_LIKE, keywords: _words(
+        'break case chan const continue default defer else fallthrough false for func go goto if import interface ' +
+        'map nil package range return select struct switch true type var') },
+    sh: { lineComment: '#', keywords: _words(
+        'if then else elif fi case esac for while until do done in function return local export echo exit') },
+    json: { keywords: _words('true false null') },
+    css: { blockComment: ['/*', '*/'], keywords: _words('important inherit initial none auto') },
+}
+
+const ALIASES: Record<string, string> = {
+    javascript: 'js', jsx: 'js', mjs: 'js', typescript: 'ts', tsx: 'ts', vue: 'ts',
+    python: 'py', rust: 'rs', golang: 'go', bash: 'sh', shell: 'sh', zsh: 'sh', console: 'sh',
+}
+
+/** No keywords — strings, numbers and C-style comments still stand out. */
+const GENERIC: LanguageSpec = { ...C_LIKE, keywords: new Set() }
+
+/** Tokens per line. Unknown languages get the generic rules. */
+export function highlightCode(code: string, lang: string): CodeToken[][] {
+    const spec = LANGUAGES[ALIASES[lang] ?? lang] ?? GENERIC
+    const lines: CodeToken[][] = [[]]
+
+    const emit = (kind: CodeTokenKind, text: string) => {
+        // Tokens never span lines — multi-line strings and comments are split
+        text.split('\n').forEach((part, n) => {
+            if (n > 0) lines.push([])
+            if (!part) return
+            const line = lines[lines.length - 1]
+            const last = line[line.length - 1]
+            if (last && last.kind === kind) last.text += part
+            else line.push({ kind, text: part })
+        })
+    }
+
+    let i = 0
+    while (i < code.length) {
+        const rest = code.slice(i)
+
+        if (spec.lineComment && rest.startsWith(spec.lineComment)) {
+            const end = code.indexOf('\n', i)
+            const stop = end < 0 ? code.length : end
+            emit('comment', code.slice(i, stop))
+            i = stop
+            continue
+        }
+
+        if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+            const end  = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length)
+            const stop = end < 0 ? code.length : end + spec.blockComment[1].length
+            emit('comment', code.slice(i, stop))
+            i = stop
+            continue
+        }
+
+        const ch = code[i]
+        if (ch === '"' || ch === "'" || ch === '`') {
+            let j = i + 1
+            while (j < code.length && code[j] !== ch) {
+                if (code[j] === '\\') j++
+                else if (code[j] === '\n' && ch !== '`') break
+                j++
+            }
+            emit('string', code.slice(i, j + 1))
+            i = j + 1
+            continue
+        }
+
+        const num = /^(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)/i.exec(rest)
+        if (num && !_isWord(code[i - 1])) {
+            emit('number', num[0])
+            i += num[0].length
+            continue
+        }
+
+        const word = /^[\p{L}_$][\p{L}\p{N}_$]*/u.exec(rest)
+        if (word) {
+            emit(spec.keywords.has(word[0]) ? 'keyword' : 'plain', word[0])
+            i += word[0].length
+            continue
+        }
+
+        emit('plain', ch)
+        i++
+    }
+    return lines
+}
@@ -0,0 +1,366 @@
+// src/widgets/gexchange/qrCode.ts
+//
+// Minimal QR code encoder for invite links — runs locally, nothing leaves
+// the device.
+//
+// RESPONSIBILITIES:
+//   - Encode a string as a QR symbol: byte mode (UTF-8), error correction
+//     level M, smallest version (1–40) that fits, best of the eight masks
+//   - Turn the module matrix into an SVG path, so the template renders it
+//     with a plain <svg><path :d> — no canvas, no v-html
+//
+// Follows ISO/IEC 18004. Only what invites need is implemented: a single
+// byte-mode segment and one error correction level.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** modules[y][x] — true is a dark module. Quiet zone not included. */
+export type QrMatrix = boolean[][]
+
+// ── Tables (error correction level M) ─────────────────────────────────────────
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26,
+    26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+]
+const ECC_BLOCKS = [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14,
+    16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+]
+/** Format-info bits of level M. */
+const ECL_BITS = 0
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// ── Capacity ──────────────────────────────────────────────────────────────────
+
+function _rawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2
+        result -= (25 * numAlign - 10) * numAlign - 55
+        if (version >= 7) result -= 36
+    }
+    return result
+}
+
+function _dataCodewords(version: number): number {
+    return Math.floor(_rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version]
+}
+
+// ── Reed–Solomon over GF(2^8), polynomial 0x11D ───────────────────────────────
+
+function _gfMultiply(x: number, y: number): number {
+    let z = 0
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11D)
+        z ^= ((y >>> i) & 1) * x
+    }
+    return z
+}
+
+function _rsDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0)
+    result[degree - 1] = 1
+    let root = 1
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = _gfMultiply(result[j], root)
+            if (j + 1 < result.length) result[j] ^= result[j + 1]
+        }
+        root = _gfMultiply(root, 0x02)
+    }
+    return result
+}
+
+function _rsRemainder(data: readonly number[], divisor: readonly number[]): number[] {
+    const result = new Array<number>(divisor.length).fill(0)
+    for (const b of data) {
+        const factor = b ^ (result.shift() as number)
+        result.push(0)
+        divisor.forEach((coef, i) => { result[i] ^= _gfMultiply(coef, factor) })
+    }
+    return result
+}
+
+// ── Codewords ─────────────────────────────────────────────────────────────────
+
+function _dataBytes(bytes: Uint8Array, version: number): number[] {
+    const bits: number[] = []
+    const put = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+    }
+
+    put(0b0100, 4)                               // byte mode
+    put(bytes.length, version <= 9 ? 8 : 16)     // character count
+    for (const b of bytes) put(b, 8)
+
+    const capacity = _dataCodewords(version) * 8
+    put(0, Math.min(4, capacity - bits.length))  // terminator
+    put(0, (8 - bits.length % 8) % 8)
+
+    const codewords: number[] = []
+    for (let i = 0; i < bits.length; i += 8)
+        codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+    for (let pad = 0xEC; codewords.length < capacity / 8; pad ^= 0xEC ^ 0x11)
+        codewords.push(pad)
+    return codewords
+}
+
+/** Split into blocks, append each block's ECC and interleave. */
+function _withEcc(data: number[], version: number): number[] {
+    const numBlocks     = ECC_BLOCKS[version]
+    const eccLen        = ECC_CODEWORDS_PER_BLOCK[version]
+    const rawCodewords  = Math.floor(_rawDataModules(version) / 8)
+    const numShort      = numBlocks - rawCodewords % numBlocks
+    const shortLen      = Math.floor(rawCodewords / numBlocks)
+    const divisor       = _rsDivisor(eccLen)
+
+    const blocks: number[][] = []
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+        const dat = data.slice(k, k + shortLen - eccLen + (i < numShort ? 0 : 1))
+        k += dat.length
+        const ecc = _rsRemainder(dat, divisor)
+        if (i < numShort) dat.push(0)
+        blocks.push([...dat, ...ecc])
+    }
+
+    const result: number[] = []
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // Short blocks carry a placeholder where long blocks have one more data byte
+            if (i !== shortLen - eccLen || j >= numShort) result.push(block[i])
+        })
+    }
+    return result
+}
+
+// ── Matrix ────────────────────────────────────────────────────────────────────
+
+class _Symbol {
+    readonly size:       number
+    readonly modules:    boolean[][]
+    readonly isFunction: boolean[][]
+
+    constructor(readonly version: number) {
+        this.size       = version * 4 + 17
+        this.modules    = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    }
+
+    set(x: number, y: number, dark: boolean) {
+        this.modules[y][x]    = dark
+        this.isFunction[y][x] = true
+    }
+
+    drawFunctionPatterns() {
+        const { size } = this
+        for (let i = 0; i < size; i++) {
+            this.set(6, i, i % 2 === 0)
+            this.set(i, 6, i % 2 === 0)
+        }
+
+        this.drawFinder(3, 3)
+        this.drawFinder(size - 4, 3)
+        this.drawFinder(3, size - 4)
+
+        const align = this.alignmentPositions()
+        const n = align.length
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                // The three corners hold finder patterns
+                if ((i === 0 && j === 0) || (i === 0 && j === n - 1) || (i === n - 1 && j === 0)) continue
+                this.drawAlignment(align[i], align[j])
+            }
+        }
+
+        this.drawFormatBits(0)   // reserved now, written for real once the mask is chosen
+        this.drawVersion()
+    }
+
+    drawFinder(x: number, y: number) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const dist = Math.max(Math.abs(dx), Math.abs(dy))
+                const xx = x + dx, yy = y + dy
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size)
+                    this.set(xx, yy, dist !== 2 && dist !== 4)
+            }
+        }
+    }
+
+    drawAlignment(x: number, y: number) {
+        for (let dy = -2; dy <= 2; dy++)
+            for (let dx = -2; dx <= 2; dx++)
+                this.set(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+    }
+
+    alignmentPositions(): number[] {
+        if (this.version === 1) return []
+        const numAlign = Math.floor(this.version / 7) + 2
+        const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+        const result = [6]
+        for (let pos = this.size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos)
+        return result
+    }
+
+    drawFormatBits(mask: number) {
+        const data = (ECL_BITS << 3) | mask
+        let rem = data
+        for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+        const bits = ((data << 10) | rem) ^ 0x5412
+        const bit  = (i: number) => ((bits >>> i) & 1) !== 0
+        const { size } = this
+
+        for (let i = 0; i <= 5; i++) this.set(8, i, bit(i))
+        this.set(8, 7, bit(6))
+        this.set(8, 8, bit(7))
+        this.set(7, 8, bit(8))
+        for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i))
+
+        for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(i))
+        for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(i))
+        this.set(8, size - 8, true)   // always dark
+    }
+
+    drawVersion() {
+        if (this.version < 7) return
+        let rem = this.version
+        for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25)
+        const bits = (this.version << 12) | rem
+        for (let i = 0; i < 18; i++) {
+            const dark = ((bits >>> i) & 1) !== 0
+            const a = this.size - 11 + i % 3
+            const b = Math.floor(i / 3)
+            this.set(a, b, dark)
+            this.set(b, a, dark)
+        }
+    }
+
+    drawCodewords(data: number[]) {
+        let i = 0
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5   // skip the vertical timing column
+            for (let vert = 0; vert < this.size; vert++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j
+                    const upward = ((right + 1) & 2) === 0
+                    const y = upward ? this.size - 1 - vert : vert
+                    if (this.isFunction[y][x] || i >= data.length * 8) continue
+                    this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0
+                    i++
+                }
+            }
+        }
+    }
+
+    applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (this.isFunction[y][x]) continue
+                let invert: boolean
+                switch (mask) {
+                    case 0:  invert = (x + y) % 2 === 0; break
+                    case 1:  invert = y % 2 === 0; break
+                    case 2:  invert = x % 3 === 0; break
+                    case 3:  invert = (x + y) % 3 === 0; break
+                    case 4:  invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+                    case 5:  invert = (x * y) % 2 + (x * y) % 3 === 0; break
+                    case 6:  invert = ((x * y) % 2 + (x * y) % 3) % 2 === 0; break
+                    default: invert = ((x + y) % 2 + (x * y) % 3) % 2 === 0; break
+                }
+                if (invert) this.modules[y][x] = !this.modules[y][x]
+            }
+        }
+    }
+
+    /** ISO 18004 penalty score — lower scans more reliably. */
+    penalty(): number {
+        const { size, modules } = this
+        let score = 0
+
+        // N1: runs of five or more same-coloured modules; N3: finder-like patterns
+        const lines: boolean[][] = []
+        for (let i = 0; i < size; i++) {
+            lines.push(modules[i])
+            lines.push(modules.map(row => row[i]))
+        }
+        for (const line of lines) {
+            let run = 1
+            for (let i = 1; i <= size; i++) {
+                if (i < size && line[i] === line[i - 1]) { run++; continue }
+                if (run >= 5) score += 3 + (run - 5)
+                run = 1
+            }
+            for (let i = 0; i + 7 <= size; i++) {
+                if (!(line[i] && !line[i + 1] && line[i + 2] && line[i + 3] && line[i + 4] && !line[i + 5] && line[i + 6])) continue
+                const lightBefore = i >= 4 && [1, 2, 3, 4].every(d => !line[i - d])
+                const lightAfter  = i + 11 <= size && [7, 8, 9, 10].every(d => !line[i + d])
+                if (lightBefore || lightAfter) score += 40
+            }
+        }
+
+        // N2: 2×2 blocks of one colour
+        for (let y = 0; y < size - 1; y++)
+            for (let x = 0; x < size - 1; x++) {
+                const c = modules[y][x]
+                if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3
+            }
+
+        // N4: dark/light balance
+        const dark  = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+        const total = size * size
+        score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10
+
+        return score
+    }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/** Encode `text` as a QR matrix. Throws when it does not fit version 40. */
+export function encodeQr(text: string): QrMatrix {
+    const bytes = new TextEncoder().encode(text)
+
+    let version = MIN_VERSION
+    for (; version <= MAX_VERSION; version++) {
+        const headerBits = 4 + (version <= 9 ? 8 : 16)
+        if (headerBits + bytes.length * 8 <= _dataCodewords(version) * 8) break
+    }
+    if (version > MAX_VERSION) throw new Error('Too much data for a QR code')
+
+    const codewords = _withEcc(_dataBytes(bytes, version), version)
+
+    let best: _Symbol | null = null
+    let bestScore = Infinity
+    for (let mask = 0; mask < 8; mask++) {
+        const symbol = new _Symbol(version)
+        symbol.drawFunctionPatterns()
+        symbol.drawCodewords(codewords)
+        symbol.applyMask(mask)
+        symbol.drawFormatBits(mask)
+        const score = symbol.penalty()
+        if (score < bestScore) {
+            best = symbol
+            bestScore = score
+        }
+    }
+    return best!.modules
+}
+
+/**
+ * SVG path drawing every dark module as a unit square, offset by `margin`
+ * modules of quiet zone. Use with viewBox `0 0 ${size} ${size}` where
+ * size = matrix.length + 2 * margin.
+ */
+export function qrSvgPath(matrix: QrMatrix, margin = 4): string {
+    const parts: string[] = []
+    matrix.forEach((row, y) => {
+        row.forEach((dark, x) => {
+            if (dark) parts.push(`M${x + margin} ${y + margin}h1v1h-1z`)
+        })
+    })
+    return parts.join('')
+}
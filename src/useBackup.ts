@@ -0,0 +1,288 @@
+// src/widgets/gexchange/useBackup.ts
+//
+// Passphrase-encrypted backup of everything GExchange keeps on this device.
+//
+// RESPONSIBILITIES:
+//   - Export: every RoomConfig (secrets included), local display names, voice
+//     presets and optionally every room file, sealed into one archive
+//   - Import: decrypt and merge — rooms go through useRooms.restoreRooms, so
+//     rooms already here win; files and presets already here are kept too
+//   - Browser download of the archive (no file-system cap needed)
+//
+// ARCHIVE:
+//   A JSON envelope { format, version, kdf, cipher, data }. `data` is the
+//   AES-256-GCM ciphertext of the payload, keyed with PBKDF2-SHA-256 over the
+//   passphrase. All of it runs locally through WebCrypto; the passphrase is
+//   never stored. Without it the archive is useless — there is no recovery.
+
+import type { Ref } from 'vue'
+import type { WidgetSdk } from 'gexplorer/widgets'
+import type { Room, StoredRoomConfig } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface BackupFile {
+    roomId:  string
+    vpath:   string
+    /** base64 — vaultSealContentAs format. */
+    content: string
+}
+
+export interface BackupPayload {
+    createdAt:    number
+    rooms:        StoredRoomConfig[]
+    /** roomId → local display name (gexchange:roomDisplayNames). */
+    displayNames: Record<string, string>
+    /** VoicePanel presets, as stored under vp_presets. */
+    voicePresets: { id: string; [key: string]: unknown }[]
+    files:        BackupFile[]
+}
+
+interface BackupEnvelope {
+    format:  typeof BACKUP_FORMAT
+    version: 1
+    kdf:     { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+    cipher:  { name: 'AES-GCM'; iv: string }
+    data:    string
+}
+
+export interface BackupImportResult {
+    /** Rooms restored from the archive, in archive order. */
+    added:        Room[]
+    roomsSkipped: number
+    filesAdded:   number
+    filesSkipped: number
+    presetsAdded: number
+}
+
+export interface UseBackupOptions {
+    sdk:          WidgetSdk
+    rooms:        Ref<Room[]>
+    vaultToken:   Ref<string | null>
+    restoreRooms: (configs: StoredRoomConfig[], displayNames?: Record<string, string>) => Promise<Room[]>
+}
+
+export interface UseBackupReturn {
+    /** The encrypted archive as text. */
+    exportBackup:   (passphrase: string, options?: { includeFiles?: boolean }) => Promise<string>
+    /** exportBackup, saved through a browser download. */
+    downloadBackup: (passphrase: string, options?: { includeFiles?: boolean }) => Promise<void>
+    importBackup:   (archive: string, passphrase: string) => Promise<BackupImportResult>
+}
+
+const BACKUP_FORMAT = 'gexchange-backup'
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+const KDF_ITERATIONS = 600_000
+
+/** VoicePanel.vue's preset storage key. */
+const VOICE_PRESETS_KEY = 'vp_presets'
+
+// ── Encoding helpers ──────────────────────────────────────────────────────────
+
+function _toBase64(bytes: Uint8Array): string {
+    let bin = ''
+    for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i])
+    return btoa(bin)
+}
+
+function _fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+    const bin = atob(b64)
+    const out = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+    return out
+}
+
+async function _deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    )
+}
+
+function _isEnvelope(value: any): value is BackupEnvelope {
+    return value?.format === BACKUP_FORMAT
+        && value.version === 1
+        && value.kdf?.name === 'PBKDF2'
+        && Number.isInteger(value.kdf.iterations) && value.kdf.iterations > 0
+        && typeof value.kdf.salt === 'string'
+        && value.cipher?.name === 'AES-GCM'
+        && typeof value.cipher.iv === 'string'
+        && typeof value.data === 'string'
+}
+
+function _isRoomConfig(value: any): value is StoredRoomConfig {
+    return typeof value?.roomId === 'string'
+        && typeof value.canonicalName === 'string'
+        && typeof value.sessionSecret === 'string'
+}
+
+function _readPresets(): BackupPayload['voicePresets'] {
+    try {
+        const list = JSON.parse(localStorage.getItem(VOICE_PRESETS_KEY) ?? '[]')
+        return Array.isArray(list) ? list.filter(p => typeof p?.id === 'string') : []
+    } catch {
+        return []
+    }
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useBackup(options: UseBackupOptions): UseBackupReturn {
+    const { sdk, rooms, vaultToken, restoreRooms } = options
+
+    // ── Export ────────────────────────────────────────────────────────────
+
+    async function _collectFiles(token: string): Promise<BackupFile[]> {
+        if (!sdk.vaultList || !sdk.vaultUnsealBase64) throw new Error('Room files cannot be read from the vault')
+        const files: BackupFile[] = []
+        for (const room of rooms.value) {
+            for (const entry of await sdk.vaultList(token, `gexchange://${room.roomId}/`)) {
+                files.push({
+                    roomId:  room.roomId,
+                    vpath:   entry.vpath,
+                    content: await sdk.vaultUnsealBase64(token, entry.blobSha256),
+                })
+            }
+        }
+        return files
+    }
+
+    async function exportBackup(passphrase: string, opts: { includeFiles?: boolean } = {}): Promise<string> {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH)
+            throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`)
+        const token = vaultToken.value
+        if (!token) throw new Error('Vault not open')
+
+        const payload: BackupPayload = {
+            createdAt:    Date.now(),
+            rooms:        rooms.value.map(({ displayName: _n, accessPointId: _ap, blobSha256: _sha, ...config }) => config),
+            displayNames: Object.fromEntries(rooms.value
+                .filter(r => r.displayName !== r.canonicalName)
+                .map(r => [r.roomId, r.displayName])),
+            voicePresets: _readPresets(),
+            files:        opts.includeFiles ? await _collectFiles(token) : [],
+        }
+
+        const salt = crypto.getRandomValues(new Uint8Array(16))
+        const iv   = crypto.getRandomValues(new Uint8Array(12))
+        const key  = await _deriveKey(passphrase, salt, KDF_ITERATIONS)
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(payload)))
+
+        const envelope: BackupEnvelope = {
+            format:  BACKUP_FORMAT,
+            version: 1,
+            kdf:     { name: 'PBKDF2', hash: 'SHA-256', iterations: KDF_ITERATIONS, salt: _toBase64(salt) },
+            cipher:  { name: 'AES-GCM', iv: _toBase64(iv) },
+            data:    _toBase64(new Uint8Array(data)),
+        }
+        return JSON.stringify(envelope)
+    }
+
+    async function downloadBackup(passphrase: string, opts: { includeFiles?: boolean } = {}) {
+        const text = await exportBackup(passphrase, opts)
+        const blob = new Blob([text], { type: 'application/json' })
+        const a = document.createElement('a')
+        a.href     = URL.createObjectURL(blob)
+        a.download = `gexchange-backup-${new Date().toISOString().slice(0, 10)}.gexbackup`
+        a.click()
+        URL.revokeObjectURL(a.href)
+    }
+
+    // ── Import ────────────────────────────────────────────────────────────
+
+    async function _decrypt(archive: string, passphrase: string): Promise<BackupPayload> {
+        let envelope: unknown
+        try { envelope = JSON.parse(archive) } catch { envelope = null }
+        if (!_isEnvelope(envelope)) throw new Error('Not a GExchange backup')
+
+        let plain: ArrayBuffer
+        try {
+            const key = await _deriveKey(passphrase, _fromBase64(envelope.kdf.salt), envelope.kdf.iterations)
+            plain = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: _fromBase64(envelope.cipher.iv) }, key, _fromBase64(envelope.data))
+        } catch {
+            throw new Error('Wrong passphrase, or the backup is damaged')
+        }
+
+        const payload = JSON.parse(new TextDecoder().decode(plain))
+        return {
+            createdAt:    Number(payload?.createdAt) || 0,
+            rooms:        Array.isArray(payload?.rooms) ? payload.rooms.filter(_isRoomConfig) : [],
+            displayNames: typeof payload?.displayNames === 'object' && payload.displayNames ? payload.displayNames : {},
+            voicePresets: Array.isArray(payload?.voicePresets) ? payload.voicePresets.filter((p: any) => typeof p?.id === 'string') : [],
+            files:        Array.isArray(payload?.files) ? payload.files : [],
+        }
+    }
+
+    async function _restoreFiles(token: string, files: BackupFile[]): Promise<{ added: number; skipped: number }> {
+        if (!sdk.vaultList || !sdk.vaultSealContentAs) throw new Error('Room files cannot be written to the vault')
+        let added = 0, skipped = 0
+        const existing = new Map<string, Set<string>>()
+
+        for (const file of files) {
+            if (typeof file?.vpath !== 'string' || typeof file.content !== 'string'
+                || !rooms.value.some(r => r.roomId === file.roomId)
+                || !file.vpath.startsWith(`gexchange://${file.roomId}/`)) {
+                skipped++
+                continue
+            }
+
+            let here = existing.get(file.roomId)
+            if (!here) {
+                const entries = await sdk.vaultList(token, `gexchange://${file.roomId}/`)
+                here = new Set(entries.map(e => e.vpath))
+                existing.set(file.roomId, here)
+            }
+            if (here.has(file.vpath)) {
+                skipped++
+                continue
+            }
+
+            await sdk.vaultSealContentAs(token, file.content, file.vpath)
+            here.add(file.vpath)
+            added++
+        }
+        return { added, skipped }
+    }
+
+    function _restorePresets(presets: BackupPayload['voicePresets']): number {
+        const local = _readPresets()
+        const known = new Set(local.map(p => p.id))
+        const fresh = presets.filter(p => !known.has(p.id))
+        if (fresh.length > 0) localStorage.setItem(VOICE_PRESETS_KEY, JSON.stringify([...local, ...fresh]))
+        return fresh.length
+    }
+
+    async function importBackup(archive: string, passphrase: string): Promise<BackupImportResult> {
+        const token = vaultToken.value
+        if (!token) throw new Error('Vault not open')
+
+        const payload = await _decrypt(archive, passphrase)
+        const added   = await restoreRooms(payload.rooms, payload.displayNames)
+        const files   = payload.files.length > 0 ? await _restoreFiles(token, payload.files) : { added: 0, skipped: 0 }
+
+        const result: BackupImportResult = {
+            added,
+            roomsSkipped: payload.rooms.length - added.length,
+            filesAdded:   files.added,
+            filesSkipped: files.skipped,
+            presetsAdded: _restorePresets(payload.voicePresets),
+        }
+        console.log(`[GExchange] Backup restored: ${added.length} room(s), ${files.added} file(s), ${result.presetsAdded} preset(s)`)
+        return result
+    }
+
+    return {
+        exportBackup,
+        downloadBackup,
+        importBackup,
+    }
+}
@@ -7,7 +7,9 @@
 //   - Track outgoing call (ringing state, target room)
 //   - Play/stop ringtone (incoming) and dial tone (outgoing)
 //   - Accept: join the private room via token, then start call
-//   - Decline: send __decline__ signal back to caller
+//   - Decline: hand the call to onDeclined, which signals the caller
+//   - Call signal kinds and schemas (CALL_INVITE / CALL_DECLINE) — sent as
+//     directed control messages (useControlMessages)
 //   - Custom ringtone: loads from vault if set, falls back to built-in
 //
 // RINGTONE CONTRACT:
@@ -17,14 +19,19 @@
 
 import { ref, type Ref } from 'vue'
 import type { WidgetSdk } from 'gexplorer/widgets'
+import type { ControlContext } from './useControlMessages'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export interface IncomingCall {
     token:      string
+    /** The private room the caller created. */
+    roomId:     string
     roomName:   string
     callerName: string
     callerId:   string
+    /** Room the invite arrived in — the decline goes back there. */
+    viaRoomId:  string
     withCall:   boolean   // false = room invite only, no auto-call
 }
 
@@ -36,11 +43,10 @@ export interface OutgoingCall {
 
 export interface UseCallStateOptions {
     sdk:         WidgetSdk
-    getSelfUserId: () => string | undefined
     /** Called when user accepts — joins room and optionally starts call. */
     onAccepted:  (token: string, withCall: boolean) => Promise<void>
     /** Called when user declines. */
-    onDeclined?: (callerId: string) => void
+    onDeclined?: (call: IncomingCall) => void
 }
 
 export interface UseCallStateReturn {
@@ -50,12 +56,10 @@ export interface UseCallStateReturn {
     callAnswered:  Ref<boolean>
 
     // ── Actions ────────────────────────────────────────────────────────────
-    /** Parse an __invite__ message and show the incoming call modal. */
-    handleInviteMessage: (
-        text:       string,
-        senderId:   string,
-        senderName: string,
-    ) => boolean   // returns true if message was consumed as a call
+    /** A CALL_INVITE arrived for us — show the incoming call modal. */
+    handleInvite:  (invite: CallInviteBody, ctx: ControlContext) => void
+    /** A CALL_DECLINE arrived — stop ringing if it is for our call. */
+    handleDecline: (decline: CallDeclineBody) => void
 
     /** Show outgoing ringing state while waiting for callee to answer. */
     startRinging:  (roomId: string, roomName: string, peerNames: string[]) => void
@@ -68,12 +72,44 @@ export interface UseCallStateReturn {
     declineCall:   () => void
 }
 
-// ── Invite message format ─────────────────────────────────────────────────────
-// __invite__|{token}|{roomName}|{targetUserId}[|call]
-// The trailing |call flag means auto-start voice after joining.
+// ── Call signals ──────────────────────────────────────────────────────────────
+// Control message kinds, each sent to the one peer concerned.
 
-const INVITE_PREFIX  = '__invite__|'
-const DECLINE_PREFIX = '__decline__|'
+export const CALL_INVITE  = 'call.invite'
+export const CALL_DECLINE = 'call.decline'
+
+export interface CallInviteBody {
+    /** Private room created for the call. */
+    roomId:   string
+    roomName: string
+    /** p2pCreateInvite token for roomId. */
+    token:    string
+    /** Start voice once joined. */
+    withCall: boolean
+}
+
+export interface CallDeclineBody {
+    roomId: string
+}
+
+/** Signals older than this are dropped — the caller has stopped ringing. */
+export const CALL_SIGNAL_MAX_AGE_MS = 60_000
+
+export function isCallInvite(body: any): body is CallInviteBody {
+    return typeof body?.roomId === 'string' && body.roomId.length > 0
+        && typeof body.roomName === 'string'
+        && typeof body.token === 'string' && body.token.length > 0
+        && typeof body.withCall === 'boolean'
+}
+
+export function isCallDecline(body: any): body is CallDeclineBody {
+    return typeof body?.roomId === 'string' && body.roomId.length > 0
+}
+
+// Text signals of earlier versions — still in stored history, never shown
+const LEGACY_CALL_PREFIXES = ['__invite__|', '__decline__|']
+
+export const isLegacyCallSignal = (text: string) => LEGACY_CALL_PREFIXES.some(p => text.startsWith(p))
 
 // Timeout after which call attempt is dropped
 let _ringTimeout: ReturnType<typeof setTimeout> | null = null
@@ -110,7 +146,7 @@ class RingtonePlayer {
 // ── Composable ────────────────────────────────────────────────────────────────
 
 export function useCallState(opts: UseCallStateOptions): UseCallStateReturn {
-    const { getSelfUserId, onAccepted, onDeclined } = opts
+    const { onAccepted, onDeclined } = opts
 
     const incomingCall = ref<IncomingCall | null>(null)
     const outgoingCall = ref<OutgoingCall | null>(null)
@@ -119,49 +155,33 @@ export function useCallState(opts: UseCallStateOptions): UseCallStateReturn {
     const _ringtone = new RingtonePlayer()
     const _dialtone = new RingtonePlayer()
 
-    // ── Invite message interception ───────────────────────────────────────
-
-    function handleInviteMessage(
-        text:       string,
-        senderId:   string,
-        senderName: string,
-    ): boolean {
-        if (!text.startsWith(INVITE_PREFIX)) return false
-
-        const parts    = text.split('|')
-        // __invite__|token|roomName|targetUserId[|call]
-        const token      = parts[1]
-        const roomName   = parts[2]
-        const targetId   = parts[3]
-        const withCall   = parts[4] === 'call'
+    // ── Call signals ──────────────────────────────────────────────────────
 
-        if (!token || !roomName || !targetId) return false
-
-        const selfId = getSelfUserId()
-
-        // Only show modal to the targeted peer
-        if (targetId !== selfId) return true   // consumed but not for us
-
-        // Already have an incoming call — queue or ignore
-        if (incomingCall.value) return true
+    function handleInvite(invite: CallInviteBody, ctx: ControlContext) {
+        // Already have an incoming call — ignore
+        if (incomingCall.value) return
 
         incomingCall.value = {
-            token,
-            roomName,
-            callerName: senderName,
-            callerId:   senderId,
-            withCall,
+            token:      invite.token,
+            roomId:     invite.roomId,
+            roomName:   invite.roomName,
+            callerName: ctx.senderName,
+            callerId:   ctx.senderId,
+            viaRoomId:  ctx.roomId,
+            withCall:   invite.withCall,
         }
 
         // Play ringtone
         _ringtone.play('/sounds/ringtone.ogg')
 
         console.log(
-            `[useCallState] Incoming ${withCall ? 'call' : 'room invite'} ` +
-            `from ${senderName} → room "${roomName}"`
+            `[useCallState] Incoming ${invite.withCall ? 'call' : 'room invite'} ` +
+            `from ${ctx.senderName} → room "${invite.roomName}"`
         )
+    }
 
-        return true   // message consumed — don't show in chat feed
+    function handleDecline(decline: CallDeclineBody) {
+        if (outgoingCall.value?.roomId === decline.roomId) stopRinging()
     }
 
     // ── Outgoing ringing ──────────────────────────────────────────────────
@@ -204,7 +224,7 @@ function startRinging(roomId: string, roomName: string, peerNames: string[]) {
         if (!call) return
 
         _ringtone.stop()
-        onDeclined?.(call.callerId)
+        onDeclined?.(call)
         incomingCall.value = null
     }
 
@@ -212,7 +232,8 @@ function startRinging(roomId: string, roomName: string, peerNames: string[]) {
         incomingCall,
         outgoingCall,
         callAnswered,
-        handleInviteMessage,
+        handleInvite,
+        handleDecline,
         startRinging,
         stopRinging,
         acceptCall,
@@ -8,7 +8,11 @@
 //   - Load history on room switch
 //   - Send messages via the active channel (never touches chatSessionId)
 //   - Optimistic message insertion and correction
+//   - ChatMessage.meta on outgoing messages (replies and threads — see useThreads)
 //   - Message display helpers (shouldShowSender, shouldShowDateSep, formatTime/Date)
+//   - Keeping control messages (call signals, room documents) out of the feed —
+//     ChatRoom's ambient handler dispatches live ones for every room, history
+//     hands its own to onHistoryControl
 //
 // THE CHANNEL CONTRACT:
 //   useChat never calls chatSend directly. It gets the active channel via a
@@ -18,6 +22,8 @@
 import { ref, nextTick, type Ref } from 'vue'
 import type { WidgetSdk, ChatMessage } from 'gexplorer/widgets'
 import type { ChannelSession } from 'gexplorer/widgets'
+import { isControlMessage, isLegacyControlText } from './useControlMessages'
+import { isLegacyCallSignal } from './useCallState'
 
 // ── Options ───────────────────────────────────────────────────────────────────
 
@@ -40,15 +46,16 @@ export interface UseChatOptions {
     /** Ref to the message input for post-send re-focus. */
     inputRef:   Ref<HTMLTextAreaElement | null>
     /**
-    * Called when a message is detected as a room invite / call signal.
-    * Return true to consume the message (don't add to feed).
-    * Return false to let it render normally.
-    */
-    onInviteMessage?: (
-        text:       string,
-        senderId:   string,
-        senderName: string,
-    ) => boolean
+     * Called for every control message loaded with history, so room-wide
+     * documents (membership, closure) are applied even if they were missed
+     * live. Live control messages go through onChatMessage as usual.
+     */
+    onHistoryControl?: (msg: ChatMessage) => void
+    /**
+     * ChatMessage.meta for the draft about to be sent — called once per
+     * draft, so a reply being composed is used up by it.
+     */
+    takeDraftMeta?: () => Record<string, string> | undefined
 }
 
 // ── Return type ───────────────────────────────────────────────────────────────
@@ -60,11 +67,20 @@ export interface UseChatReturn {
     sending:     Ref<boolean>
     chatLoading: Ref<boolean>
     shiftToSend: Ref<boolean>
+    /** Message briefly highlighted after scrollToMessage. */
+    highlightId: Ref<string | null>
 
     // ── Actions ────────────────────────────────────────────────────────────
     sendMessage:  () => Promise<void>
+    /** Send text that is not the draft — the thread panel's composer. */
+    sendText:     (text: string, meta?: Record<string, string>) => Promise<boolean>
     loadHistory:  (scopeId: string) => Promise<void>
     clearMessages: () => void
+    /**
+     * Scroll a loaded message into view — in the feed, or in `container` when
+     * given. False when it is not there.
+     */
+    scrollToMessage: (messageId: string, container?: HTMLElement | null) => Promise<boolean>
 
     // ── Input handlers ─────────────────────────────────────────────────────
     onInputKeydown:   (e: KeyboardEvent) => void
@@ -105,20 +121,19 @@ export function useChat(options: UseChatOptions): UseChatReturn {
     const sending     = ref(false)
     const chatLoading = ref(false)
     const shiftToSend = ref(true)
+    const highlightId = ref<string | null>(null)
 
     // ── Unsub handles ─────────────────────────────────────────────────────
 
     let _unsubMessage: (() => void) | null = null
     let _unsubHistory: (() => void) | null = null
+    let _highlightTimer: ReturnType<typeof setTimeout> | null = null
 
     // ── Internal helpers ──────────────────────────────────────────────────
 
    function _appendMessage(msg: ChatMessage) {
-       // Intercept invite/call signals — never show in chat feed
-       if (msg.text.startsWith('__invite__|') || msg.text.startsWith('__decline__|')) {
-           options.onInviteMessage?.(msg.text, msg.senderId, msg.senderName)
-           return
-       }
+       // Call signals and other typed controls — never show in chat feed
+       if (isControlMessage(msg) || isLegacyCallSignal(msg.text) || isLegacyControlText(msg.text)) return
        if (messages.value.some(m => m.id === msg.id)) return
        messages.value.push(msg)
        nextTick(() => _scrollToBottom())
@@ -139,8 +154,10 @@ export function useChat(options: UseChatOptions): UseChatReturn {
        chatLoading.value = true
        try {
            const msgs = await chatGetHistory(scopeId, 100)
+           for (const m of msgs)
+               if (isControlMessage(m)) options.onHistoryControl?.(m)
            messages.value = msgs
-               .filter(m => !m.text.startsWith('__invite__|') && !m.text.startsWith('__decline__|'))
+               .filter(m => !isControlMessage(m) && !isLegacyCallSignal(m.text) && !isLegacyControlText(m.text))
                .map(m => ({ ...m, roomId: m.scopeId }))
            await nextTick()
            _scrollToBottom()
@@ -155,17 +172,21 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         messages.value = []
     }
 
-    async function sendMessage() {
-        const text = draftText.value.trim()
-        if (!text || sending.value) return
+    async function scrollToMessage(messageId: string, container?: HTMLElement | null): Promise<boolean> {
+        if (!messages.value.some(m => m.id === messageId)) return false
+        await nextTick()
+        const el = (container ?? feedRef.value)?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(messageId)}"]`)
+        if (!el) return false
+        el.scrollIntoView({ block: 'center' })
+        highlightId.value = messageId
+        if (_highlightTimer) clearTimeout(_highlightTimer)
+        _highlightTimer = setTimeout(() => { highlightId.value = null }, 2000)
+        return true
+    }
 
+    async function _send(text: string, meta?: Record<string, string>): Promise<boolean> {
         const channel = getChannel()
-        if (!channel) {
-            console.warn('[GExchange] No channel — message will be queued on connect')
-            // Channel will queue and drain automatically via useChannel
-            // Only bail if we have no channel instance at all
-            return
-        }
+        if (!channel) return false
 
         sending.value = true
         const optimisticId = `opt_${Date.now()}`
@@ -178,30 +199,53 @@ export function useChat(options: UseChatOptions): UseChatReturn {
             text,
             type:       'text',
             sentAt:     Date.now(),
+            ...(meta ? { meta } : {}),
         }
 
         _appendMessage(optimistic)
-        draftText.value = ''
-        _resetInputHeight()
 
         try {
-            const result = await channel.sendMessage(text)
+            const result = await channel.sendMessage(text, meta ? { meta } : undefined)
             const idx    = messages.value.findIndex(m => m.id === optimisticId)
             if (idx >= 0) messages.value[idx] = {
                 ...messages.value[idx],
                 id:     result.messageId,
                 sentAt: result.sentAt,
             }
+            return true
         } catch (err) {
             console.warn('[GExchange] Failed to send message:', err)
             messages.value = messages.value.filter(m => m.id !== optimisticId)
+            return false
         } finally {
             sending.value = false
-            await nextTick()
-            inputRef.value?.focus()
         }
     }
 
+    async function sendMessage() {
+        const text = draftText.value.trim()
+        if (!text || sending.value) return
+
+        if (!getChannel()) {
+            console.warn('[GExchange] No channel — message will be queued on connect')
+            // Channel will queue and drain automatically via useChannel
+            // Only bail if we have no channel instance at all
+            return
+        }
+
+        draftText.value = ''
+        _resetInputHeight()
+        await _send(text, options.takeDraftMeta?.())
+        await nextTick()
+        inputRef.value?.focus()
+    }
+
+    async function sendText(text: string, meta?: Record<string, string>): Promise<boolean> {
+        const trimmed = text.trim()
+        if (!trimmed || sending.value) return false
+        return _send(trimmed, meta)
+    }
+
     // ── Input handlers ────────────────────────────────────────────────────
 
     function onInputKeydown(e: KeyboardEvent) {
@@ -264,6 +308,8 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         _unsubHistory?.()
         _unsubMessage = null
         _unsubHistory = null
+        if (_highlightTimer) clearTimeout(_highlightTimer)
+        _highlightTimer = null
     }
 
     return {
@@ -272,10 +318,13 @@ export function useChat(options: UseChatOptions): UseChatReturn {
         sending,
         chatLoading,
         shiftToSend,
+        highlightId,
 
         sendMessage,
+        sendText,
         loadHistory,
         clearMessages,
+        scrollToMessage,
 
         onInputKeydown,
         autoResizeInput,
@@ -0,0 +1,290 @@
+// src/widgets/gexchange/useControlMessages.ts
+//
+// Typed control messages between peers — call invites, declines, room-wide
+// documents and the like — kept out of the chat feed.
+//
+// RESPONSIBILITIES:
+//   - The envelope: versioned, typed, signed by the sender's identity key
+//     where the host offers p2pSign, and sent as ChatMessage.type
+//     CONTROL_MESSAGE_TYPE (never 'text')
+//   - A registry of kinds: each kind brings a schema check for its body and a
+//     handler
+//   - Directed delivery: `to` goes both into the envelope and to
+//     sendMessage, so the host hands the message to those peers only;
+//     `ephemeral` keeps it out of chat history on every side
+//   - Receiving: version, schema, target, age and signature checks, then the
+//     kind's handler
+//   - Replay: kinds marked `replay` are handled again when they come back
+//     with chat history — on the strength of their body's signature, or
+//     after the same envelope checks as live delivery
+//
+// TRUST:
+//   An envelope is handled only when it names the ChatMessage's sender and
+//   room, and — when we hold the publicKey that sender presented when it
+//   joined (publicKeyOf) — that key. With the key and p2pVerify, the
+//   envelope must carry a signature that verifies against it — an unsigned
+//   one is dropped like a forged one. Only when verification is impossible
+//   (no p2pVerify here, or no key for the sender) is an envelope believed as
+//   far as the transport's senderId, like plain chat text; hosts without
+//   p2pSign send unsigned envelopes for that case.
+//
+//   Room-wide documents (membership, closure, rekey) and device sync updates
+//   carry a signature inside their body — the room owner's or our own
+//   identity's — and their handlers check it. They do not depend on who sent
+//   the envelope, which is why only they may be relayed, and why their
+//   stored copies replay without an envelope check. Other kinds replay only
+//   as 'verified': the stored envelope must pass _verify like a live one.
+//
+// LEGACY:
+//   Earlier versions sent these as prefixed chat text (`__members__|` …).
+//   Such text is still in stored history; isLegacyControlText hides it and
+//   it is never applied.
+
+import type { Ref } from 'vue'
+import type { ChatMessage, UseChannelReturn, WidgetSdk } from 'gexplorer/widgets'
+import type { Identity } from './useIdentity'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ControlEnvelope<B = unknown> {
+    v:     number
+    kind:  string
+    body:  B
+    /** Room the envelope was sent in — never handled in another. */
+    scope: string
+    /** Sender userId and publicKey. */
+    from:  string
+    key:   string
+    /** Recipients; absent for the whole room. */
+    to?:   string[]
+    at:    number
+    nonce: string
+    /** p2pSign over canonicalControl(envelope). */
+    sig:   string
+}
+
+export interface ControlContext {
+    roomId:     string
+    messageId:  string
+    senderId:   string
+    senderName: string
+    sentAt:     number
+}
+
+export interface ControlKindSpec<B> {
+    /** Schema check — envelopes whose body fails it are dropped. */
+    validate:  (body: unknown) => body is B
+    handle:    (body: B, ctx: ControlContext) => void
+    /** Envelopes older than this (late or queued delivery) are dropped. */
+    maxAgeMs?: number
+    /**
+     * Also handle copies loaded from chat history:
+     *   'signed-body' — the body carries its own signature; the stored
+     *                   envelope's sender key is not checked
+     *   'verified'    — the stored envelope passes the same key and
+     *                   signature checks as a live one
+     */
+    replay?:   'signed-body' | 'verified'
+}
+
+export interface UseControlMessagesOptions {
+    sdk:         WidgetSdk
+    identity:    Ref<Identity | null>
+    getChannel:  (roomId: string) => UseChannelReturn | undefined
+    /** The publicKey a peer presented when it joined. */
+    publicKeyOf: (userId: string) => string | undefined
+}
+
+export interface ControlSendOptions {
+    /** Recipients; the whole room when absent. */
+    to?:        string[]
+    /** Never stored in chat history — for secrets. */
+    ephemeral?: boolean
+    /** Send over this channel instead of the room's (e.g. a catch-up channel). */
+    channel?:   UseChannelReturn
+}
+
+export interface UseControlMessagesReturn {
+    /** Register a kind. Returns the unregister function. */
+    register: <B>(kind: string, spec: ControlKindSpec<B>) => () => void
+    /**
+     * Sign (when the host can) and send — to the whole room, or only to
+     * `to`. Resolves with the sentAt peers will see as ControlContext.sentAt.
+     */
+    send:     <B>(roomId: string, kind: string, body: B, options?: ControlSendOptions) => Promise<{ sentAt: number }>
+    /**
+     * Take a control message out of the chat stream. True for every control
+     * message, handled or dropped; false for anything else. With `history`,
+     * only kinds marked `replay` are handled.
+     */
+    handle:   (msg: ChatMessage, options?: { history?: boolean }) => boolean
+}
+
+export const CONTROL_MESSAGE_TYPE = 'gexchange.control'
+
+export const CONTROL_VERSION = 1
+
+/** Nonces remembered for duplicate detection. */
+const SEEN_NONCE_LIMIT = 1000
+
+export function isControlMessage(msg: Pick<ChatMessage, 'type'>): boolean {
+    return msg.type === CONTROL_MESSAGE_TYPE
+}
+
+// Prefixed text of earlier versions — still in stored history, never shown
+const LEGACY_CONTROL_PREFIXES = ['__members__|', '__closed__|', '__rekey__|', '__sync__|']
+
+export const isLegacyControlText = (text: string) => LEGACY_CONTROL_PREFIXES.some(p => text.startsWith(p))
+
+export function canonicalControl(env: Omit<ControlEnvelope, 'sig'>): string {
+    return JSON.stringify([
+        'gexchange.control', env.v, env.kind, env.scope, env.from, env.key,
+        env.to ?? null, env.at, env.nonce, env.body,
+    ])
+}
+
+function _isEnvelope(value: any): value is ControlEnvelope {
+    return Number.isInteger(value?.v)
+        && typeof value.kind === 'string'
+        && 'body' in value
+        && typeof value.scope === 'string'
+        && typeof value.from === 'string'
+        && typeof value.key === 'string'
+        && (value.to === undefined || (Array.isArray(value.to) && value.to.every((id: unknown) => typeof id === 'string')))
+        && typeof value.at === 'number'
+        && typeof value.nonce === 'string'
+        && typeof value.sig === 'string'
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useControlMessages(options: UseControlMessagesOptions): UseControlMessagesReturn {
+    const { sdk, identity, getChannel, publicKeyOf } = options
+
+    const _kinds = new Map<string, ControlKindSpec<any>>()
+    const _seen  = new Set<string>()
+
+    // Verification is async; envelopes are handled in arrival order
+    let _incoming: Promise<unknown> = Promise.resolve()
+
+    function register<B>(kind: string, spec: ControlKindSpec<B>): () => void {
+        if (_kinds.has(kind)) throw new Error(`Control kind "${kind}" is already registered`)
+        _kinds.set(kind, spec)
+        return () => { if (_kinds.get(kind) === spec) _kinds.delete(kind) }
+    }
+
+    // ── Send ──────────────────────────────────────────────────────────────
+
+    async function send<B>(roomId: string, kind: string, body: B, opts: ControlSendOptions = {}) {
+        const me = identity.value
+        if (!me) throw new Error('Identity not loaded')
+        const channel = opts.channel ?? getChannel(roomId)
+        if (!channel) throw new Error(`Not connected to room ${roomId.slice(0, 8)}…`)
+
+        const unsigned: Omit<ControlEnvelope<B>, 'sig'> = {
+            v:     CONTROL_VERSION,
+            kind,
+            body,
+            scope: roomId,
+            from:  me.userId,
+            key:   me.publicKey,
+            ...(opts.to ? { to: [...opts.to] } : {}),
+            at:    Date.now(),
+            nonce: Array.from(crypto.getRandomValues(new Uint8Array(16)))
+                .map(b => b.toString(16).padStart(2, '0')).join(''),
+        }
+        // Unsigned when the host cannot sign — receivers fall back to the transport's senderId
+        const sig = sdk.p2pSign ? await sdk.p2pSign(canonicalControl(unsigned)) : ''
+        const envelope: ControlEnvelope<B> = { ...unsigned, sig }
+
+        const { sentAt } = await channel.sendMessage(JSON.stringify(envelope), {
+            type: CONTROL_MESSAGE_TYPE,
+            ...(opts.to ? { to: opts.to } : {}),
+            ...(opts.ephemeral ? { ephemeral: true } : {}),
+        })
+        return { sentAt }
+    }
+
+    // ── Receive ───────────────────────────────────────────────────────────
+
+    function handle(msg: ChatMessage, opts: { history?: boolean } = {}): boolean {
+        if (!isControlMessage(msg)) return false
+        _incoming = _incoming.then(() => _receive(msg, !!opts.history)).catch(err =>
+            console.warn(`[GExchange] Control message in ${msg.scopeId.slice(0, 8)}… failed:`, err))
+        return true
+    }
+
+    async function _receive(msg: ChatMessage, fromHistory: boolean) {
+        const where = msg.scopeId.slice(0, 8)
+
+        let env: unknown
+        try { env = JSON.parse(msg.text) } catch { env = null }
+        if (!_isEnvelope(env)) {
+            console.warn(`[GExchange] Malformed control message in ${where}…`)
+            return
+        }
+        if (env.v !== CONTROL_VERSION) {
+            console.warn(`[GExchange] Control message v${env.v} in ${where}… — this version speaks v${CONTROL_VERSION}`)
+            return
+        }
+        if (env.from !== msg.senderId || env.scope !== msg.scopeId) {
+            console.warn(`[GExchange] Control message in ${where}… names another sender or room — ignored`)
+            return
+        }
+
+        const selfId = identity.value?.userId
+        if (env.to && (!selfId || !env.to.includes(selfId))) return
+
+        const spec = _kinds.get(env.kind)
+        if (fromHistory && !spec?.replay) return
+        if (!spec) {
+            console.log(`[GExchange] No handler for control kind "${env.kind}"`)
+            return
+        }
+        if (!spec.validate(env.body)) {
+            console.warn(`[GExchange] Control "${env.kind}" in ${where}… does not match its schema — ignored`)
+            return
+        }
+        if (!fromHistory && spec.maxAgeMs !== undefined && Date.now() - env.at > spec.maxAgeMs) return
+        if (_seen.has(env.nonce)) return
+
+        const checkEnvelope = !fromHistory || spec.replay === 'verified'
+        if (checkEnvelope && !await _verify(env)) return
+
+        _seen.add(env.nonce)
+        if (_seen.size > SEEN_NONCE_LIMIT) _seen.delete(_seen.values().next().value!)
+
+        spec.handle(env.body, {
+            roomId:     msg.scopeId,
+            messageId:  msg.id,
+            senderId:   msg.senderId,
+            senderName: msg.senderName,
+            sentAt:     msg.sentAt,
+        })
+    }
+
+    /** True when the signature verifies, or when there is no way to check it. */
+    async function _verify(env: ControlEnvelope): Promise<boolean> {
+        const known = publicKeyOf(env.from)
+        if (known && known !== env.key) {
+            console.warn(`[GExchange] Control "${env.kind}" in ${env.scope.slice(0, 8)}… names another key than its sender's — ignored`)
+            return false
+        }
+        if (!known || !sdk.p2pVerify) return true
+        if (!env.sig) {
+            console.warn(`[GExchange] Control "${env.kind}" in ${env.scope.slice(0, 8)}… is unsigned — ignored`)
+            return false
+        }
+
+        const { sig, ...unsigned } = env
+        const valid = await sdk.p2pVerify(known, canonicalControl(unsigned), sig).catch(() => false)
+        if (!valid) console.warn(`[GExchange] Control "${env.kind}" in ${env.scope.slice(0, 8)}… has a bad signature — ignored`)
+        return valid
+    }
+
+    return {
+        register,
+        send,
+        handle,
+    }
+}
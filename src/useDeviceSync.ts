@@ -0,0 +1,477 @@
+// src/widgets/gexchange/useDeviceSync.ts
+//
+// Keeps the room list in step across this identity's own devices.
+//
+// RESPONSIBILITIES:
+//   - Personal sync channel: scope and secret are derived from the identity
+//     key (p2pDeriveKey), so only devices holding that key can find it, and
+//     canConnect only admits peers presenting our own userId and publicKey
+//   - Replicate room configs, display-name overrides, room preferences
+//     (notification level, pin, order, read position) and room removals
+//   - Last-writer-wins per field: every field carries a stamp (time, device);
+//     the newer stamp wins, the device id breaks ties
+//   - Sign every update with the identity key and verify it on receipt; it
+//     travels as a DEVICE_SYNC control message on the sync channel
+//
+// STAMPS:
+//   Nothing hooks the writers. A scan compares every field with the hash
+//   recorded next to its stamp (localStorage); a changed field gets a fresh
+//   stamp and its room goes out to the other devices. Rooms a scan sees for
+//   the first time are stamped at 0, so a change made anywhere wins over
+//   them. A removed room leaves a tombstone for TOMBSTONE_TTL_MS — a device
+//   offline for longer than that brings the room back.
+//
+//   Scans and incoming updates share one queue, so a scan never stamps a
+//   half-applied update as a local change.
+
+import { ref, watch, type Ref, type WatchStopHandle } from 'vue'
+import type {
+    ChannelTransportMode,
+    MeshPeer,
+    UseChannelReturn,
+    WidgetSdk,
+} from 'gexplorer/widgets'
+import type { ControlContext, UseControlMessagesReturn } from './useControlMessages'
+import type { Identity } from './useIdentity'
+import type { Room, RoomConfigPatch, RoomPrefs, StoredRoomConfig } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SyncStamp {
+    at:     number
+    device: string
+}
+
+export interface SyncField extends SyncStamp {
+    /** null = field absent / cleared. */
+    value: unknown
+}
+
+/**
+ * roomId → field → stamped value. Field keys: `config.<RoomConfig key>`,
+ * `name` (display-name override), `pref.<RoomPrefs key>` and `removed`.
+ */
+export type SyncRooms = Record<string, Record<string, SyncField>>
+
+export interface SyncUpdate {
+    device:    string
+    sentAt:    number
+    rooms:     SyncRooms
+    signature: string
+}
+
+interface FieldRegister extends SyncStamp {
+    hash: string
+}
+
+export interface UseDeviceSyncOptions {
+    sdk:              WidgetSdk
+    rooms:            Ref<Room[]>
+    roomPrefs:        Ref<Record<string, RoomPrefs>>
+    identity:         Ref<Identity | null>
+    control:          UseControlMessagesReturn
+    presence:         () => { publicKey: string; userId: string; username: string }
+    transportMode:    () => ChannelTransportMode
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+    restoreRooms:     (configs: StoredRoomConfig[], displayNames?: Record<string, string>) => Promise<Room[]>
+    setDisplayName:   (roomId: string, name: string | null) => void
+    setRoomPrefs:     (roomId: string, patch: Partial<RoomPrefs>) => void
+    /** Dispose the room's channel and forget the room on this device. */
+    removeRoom:       (roomId: string) => Promise<void>
+    /** A room arrived from another device. */
+    onRoomAdded:      (room: Room) => void
+    /** Dispose the room's channels and open them again from the stored config. */
+    recreateChannel:  (roomId: string) => Promise<void>
+}
+
+export interface UseDeviceSyncReturn {
+    /** This device's id — random, kept in localStorage. */
+    deviceId:      string
+    /** Device ids of our other devices linked right now. */
+    otherDevices:  Ref<Set<string>>
+    lastSyncedAt:  Ref<number | null>
+
+    /** Call once identity and rooms are loaded — opens the sync channel. */
+    start:         () => Promise<void>
+    stop:          () => Promise<void>
+}
+
+export const DEVICE_SYNC = 'device.sync'
+
+const DEVICE_ID_KEY = 'gexchange:deviceId'
+const STAMPS_KEY    = 'gexchange:syncStamps'
+
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const SCAN_DELAY_MS = 500
+
+/** Rooms per signed message — a full exchange is split into several. */
+const ROOMS_PER_MESSAGE = 20
+
+/** Room fields that only make sense on this device. */
+const LOCAL_FIELDS = new Set(['accessPointId', 'blobSha256', 'displayName'])
+
+const PREF_KEYS: (keyof RoomPrefs)[] = ['notify', 'mutedUntil', 'pinned', 'order', 'readAt']
+
+/** Config changes that need the room's channel opened again. */
+const CHANNEL_FIELDS = new Set(['sessionSecret', 'isClosed'])
+
+function canonicalUpdate(u: Omit<SyncUpdate, 'signature'>): string {
+    return JSON.stringify({
+        type:   'device-sync',
+        device: u.device,
+        sentAt: u.sentAt,
+        rooms:  u.rooms,
+    })
+}
+
+function _isUpdate(value: any): value is SyncUpdate {
+    return typeof value?.device === 'string'
+        && typeof value.sentAt === 'number'
+        && typeof value.rooms === 'object' && value.rooms !== null
+        && typeof value.signature === 'string'
+}
+
+function _isField(value: any): value is SyncField {
+    return typeof value?.at === 'number' && typeof value.device === 'string' && 'value' in value
+}
+
+/** FNV-1a over the JSON form — change detection only. */
+function _hash(value: unknown): string {
+    const text = JSON.stringify(value ?? null)
+    let h = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i)
+        h = Math.imul(h, 0x01000193)
+    }
+    return (h >>> 0).toString(16)
+}
+
+const HASH_REMOVED = _hash(true)
+
+function _newer(a: SyncStamp, b: SyncStamp | undefined): boolean {
+    if (!b) return true
+    return a.at !== b.at ? a.at > b.at : a.device > b.device
+}
+
+function _fields(room: Room, prefs: RoomPrefs | undefined): Record<string, unknown> {
+    const out: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(room))
+        if (!LOCAL_FIELDS.has(key) && value !== undefined) out[`config.${key}`] = value
+    out.name = room.displayName !== room.canonicalName ? room.displayName : null
+    for (const key of PREF_KEYS) out[`pref.${key}`] = prefs?.[key] ?? null
+    out.removed = false
+    return out
+}
+
+function _deviceId(): string {
+    let id = localStorage.getItem(DEVICE_ID_KEY)
+    if (!id) {
+        id = Array.from(crypto.getRandomValues(new Uint8Array(8)))
+            .map(b => b.toString(16).padStart(2, '0'))
+            .join('')
+        localStorage.setItem(DEVICE_ID_KEY, id)
+    }
+    return id
+}
+
+function _loadStamps(): Record<string, Record<string, FieldRegister>> {
+    try { return JSON.parse(localStorage.getItem(STAMPS_KEY) ?? '{}') } catch { return {} }
+}
+
+async function _sha256(text: string): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)))
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useDeviceSync(options: UseDeviceSyncOptions): UseDeviceSyncReturn {
+    const {
+        sdk, rooms, roomPrefs, identity, control, presence, transportMode,
+        updateRoomConfig, restoreRooms, setDisplayName, setRoomPrefs,
+        removeRoom, onRoomAdded, recreateChannel,
+    } = options
+
+    const deviceId     = _deviceId()
+    const otherDevices = ref(new Set<string>())
+    const lastSyncedAt = ref<number | null>(null)
+
+    const _stamps = _loadStamps()
+    let _channel:   UseChannelReturn | null = null
+    let _scopeId:   string | null = null
+    let _unwatch:   WatchStopHandle | null = null
+    let _unregister: (() => void) | null = null
+    let _scanTimer: ReturnType<typeof setTimeout> | null = null
+
+    // Scans and incoming updates, one at a time
+    let _work: Promise<unknown> = Promise.resolve()
+
+    function _enqueue<T>(job: () => Promise<T>): Promise<T> {
+        const result = _work.then(job)
+        _work = result.catch(err => console.warn('[GExchange] Device sync failed:', err))
+        return result
+    }
+
+    function _saveStamps() {
+        localStorage.setItem(STAMPS_KEY, JSON.stringify(_stamps))
+    }
+
+    // ── Local changes ─────────────────────────────────────────────────────
+
+    /** Stamps every field that changed since the last scan. Returns the rooms touched. */
+    function _scan(): string[] {
+        const now     = Date.now()
+        const changed: string[] = []
+        const live    = new Set<string>()
+
+        for (const room of rooms.value) {
+            live.add(room.roomId)
+            const regs   = _stamps[room.roomId] ??= {}
+            const fields = _fields(room, roomPrefs.value[room.roomId])
+            for (const key of Object.keys(regs)) if (!(key in fields)) fields[key] = null
+
+            // A room seen for the first time is stamped at 0, later edits now
+            const at = Object.keys(regs).length > 0 ? now : 0
+            let touched = false
+            for (const [key, value] of Object.entries(fields)) {
+                const hash = _hash(value)
+                if (regs[key]?.hash === hash) continue
+                regs[key] = { at, device: deviceId, hash }
+                touched = true
+            }
+            if (touched) changed.push(room.roomId)
+        }
+
+        for (const [roomId, regs] of Object.entries(_stamps)) {
+            if (live.has(roomId)) continue
+            if (regs.removed?.hash === HASH_REMOVED) {
+                if (regs.removed.at < now - TOMBSTONE_TTL_MS) delete _stamps[roomId]
+                continue
+            }
+            _stamps[roomId] = { removed: { at: now, device: deviceId, hash: HASH_REMOVED } }
+            changed.push(roomId)
+        }
+
+        if (changed.length > 0) _saveStamps()
+        return changed
+    }
+
+    function _snapshot(roomIds: string[]): SyncRooms {
+        const out: SyncRooms = {}
+        for (const roomId of roomIds) {
+            const regs = _stamps[roomId]
+            if (!regs) continue
+            const room   = rooms.value.find(r => r.roomId === roomId)
+            const fields = room ? _fields(room, roomPrefs.value[roomId]) : { removed: true }
+            out[roomId] = Object.fromEntries(Object.entries(regs).map(([key, reg]) =>
+                [key, { at: reg.at, device: reg.device, value: fields[key] ?? null }]))
+        }
+        return out
+    }
+
+    async function _send(roomIds: string[]) {
+        if (!_channel || !_scopeId || roomIds.length === 0 || otherDevices.value.size === 0 || !sdk.p2pSign) return
+        for (let i = 0; i < roomIds.length; i += ROOMS_PER_MESSAGE) {
+            const unsigned = { device: deviceId, sentAt: Date.now(), rooms: _snapshot(roomIds.slice(i, i + ROOMS_PER_MESSAGE)) }
+            const update: SyncUpdate = { ...unsigned, signature: await sdk.p2pSign(canonicalUpdate(unsigned)) }
+            await control.send(_scopeId, DEVICE_SYNC, update, { channel: _channel }).catch(err =>
+                console.warn('[GExchange] Failed to send device sync:', err))
+        }
+        lastSyncedAt.value = Date.now()
+    }
+
+    function _scheduleScan() {
+        if (_scanTimer) clearTimeout(_scanTimer)
+        _scanTimer = setTimeout(() => {
+            _scanTimer = null
+            _enqueue(() => _send(_scan()))
+        }, SCAN_DELAY_MS)
+    }
+
+    // ── Incoming ──────────────────────────────────────────────────────────
+
+    function _onUpdate(update: SyncUpdate, ctx: ControlContext) {
+        if (ctx.roomId === _scopeId && ctx.senderId === identity.value?.userId)
+            _enqueue(() => _receive(update))
+    }
+
+    async function _receive(update: SyncUpdate) {
+        if (update.device === deviceId) return
+
+        const publicKey = identity.value?.publicKey
+        if (!publicKey || !sdk.p2pVerify) return
+        const { signature, ...unsigned } = update
+        const valid = await sdk.p2pVerify(publicKey, canonicalUpdate(unsigned), signature).catch(() => false)
+        if (!valid) {
+            console.warn('[GExchange] Device sync update not signed by this identity — ignored')
+            return
+        }
+
+        // Local edits not yet stamped must not lose to older remote values
+        await _send(_scan())
+
+        for (const [roomId, remote] of Object.entries(update.rooms)) {
+            const fields = Object.fromEntries(Object.entries(remote ?? {}).filter(([, f]) => _isField(f)))
+            try {
+                await _applyRoom(roomId, fields)
+            } catch (err) {
+                console.warn(`[GExchange] Failed to apply device sync for ${roomId.slice(0, 8)}…:`, err)
+            }
+        }
+        _saveStamps()
+        lastSyncedAt.value = Date.now()
+    }
+
+    async function _applyRoom(roomId: string, remote: Record<string, SyncField>) {
+        const regs  = _stamps[roomId] ?? {}
+        const local = rooms.value.find(r => r.roomId === roomId)
+        const wins  = (key: string) => !!remote[key] && _newer(remote[key], regs[key])
+        const adopt = (key: string) => {
+            const f = remote[key]
+            regs[key] = { at: f.at, device: f.device, hash: _hash(f.value) }
+        }
+
+        if (wins('removed') && remote.removed.value === true) {
+            if (local) await removeRoom(roomId)
+            _stamps[roomId] = { removed: { at: remote.removed.at, device: remote.removed.device, hash: HASH_REMOVED } }
+            console.log(`[GExchange] Room ${roomId.slice(0, 8)}… removed on another device`)
+            return
+        }
+
+        if (!local) {
+            // Gone here, and our tombstone is newer
+            if (!wins('removed')) return
+            await _addRoom(roomId, remote)
+            return
+        }
+
+        const patch: Record<string, unknown> = {}
+        const prefs: Partial<RoomPrefs> = {}
+        let name: string | null | undefined
+        for (const key of Object.keys(remote)) {
+            if (!wins(key)) continue
+            const value = remote[key].value ?? undefined
+            if (key.startsWith('config.')) {
+                const field = key.slice('config.'.length)
+                if (field === 'roomId') continue
+                patch[field] = value
+            } else if (key.startsWith('pref.')) {
+                prefs[key.slice('pref.'.length) as keyof RoomPrefs] = value as any
+            } else if (key === 'name') {
+                name = typeof value === 'string' ? value : null
+            }
+            adopt(key)
+        }
+        _stamps[roomId] = regs
+
+        if (Object.keys(prefs).length > 0) setRoomPrefs(roomId, prefs)
+        if (Object.keys(patch).length > 0) await updateRoomConfig(roomId, patch as RoomConfigPatch)
+        // After the config — clearing an override falls back to the canonical name
+        if (name !== undefined) setDisplayName(roomId, name)
+        if (Object.keys(patch).some(k => CHANNEL_FIELDS.has(k))) await recreateChannel(roomId)
+    }
+
+    async function _addRoom(roomId: string, remote: Record<string, SyncField>) {
+        const config: Record<string, unknown> = {}
+        for (const [key, field] of Object.entries(remote))
+            if (key.startsWith('config.') && field.value !== null) config[key.slice('config.'.length)] = field.value
+        if (config.roomId !== roomId || typeof config.canonicalName !== 'string' || typeof config.sessionSecret !== 'string') return
+
+        const name  = remote.name?.value
+        const [room] = await restoreRooms(
+            [config as unknown as StoredRoomConfig],
+            typeof name === 'string' ? { [roomId]: name } : {},
+        )
+        if (!room) return
+
+        const prefs: Partial<RoomPrefs> = {}
+        for (const key of PREF_KEYS) {
+            const value = remote[`pref.${key}`]?.value
+            if (value !== null && value !== undefined) prefs[key] = value as any
+        }
+        if (Object.keys(prefs).length > 0) setRoomPrefs(roomId, prefs)
+
+        _stamps[roomId] = Object.fromEntries(Object.entries(remote).map(([key, f]) =>
+            [key, { at: f.at, device: f.device, hash: _hash(f.value) }]))
+        onRoomAdded(room)
+        console.log(`[GExchange] Room ${roomId.slice(0, 8)}… added from another device`)
+    }
+
+    // ── Channel ───────────────────────────────────────────────────────────
+
+    async function start() {
+        const me = identity.value
+        if (_channel || !me || !sdk.useChannel || !sdk.p2pDeriveKey || !sdk.p2pSign) return
+
+        // Both derive to the same values on every device of this identity
+        const key    = await sdk.p2pDeriveKey('gexchange-device-sync-v1')
+        const secret = await _sha256(`secret|${key}`)
+        const scope  = Array.from(await _sha256(`scope|${key}`))
+            .slice(0, 16)
+            .map(b => b.toString(16).padStart(2, '0'))
+            .join('')
+        _scopeId = `gexsync-${scope}`
+
+        const ownPresence = () => ({ ...presence(), ticket: deviceId })
+
+        try {
+            _channel = sdk.useChannel({
+                scopeId:       _scopeId,
+                sessionSecret: secret,
+                buildPresence: ownPresence,
+                identity:      ownPresence(),
+                strategy:      'full',
+                canConnect:    async (peer: MeshPeer) =>
+                    peer.userId === me.userId && peer.publicKey === me.publicKey && peer.ticket !== deviceId,
+                transportMode: transportMode(),
+                redundancy:    0,
+                onPeerJoined:  (peer: MeshPeer) => {
+                    if (!peer.ticket) return
+                    otherDevices.value = new Set(otherDevices.value).add(peer.ticket)
+                    // A device (re)appeared — swap full state; LWW sorts out the rest
+                    _enqueue(async () => {
+                        _scan()
+                        await _send(Object.keys(_stamps))
+                    })
+                },
+                onPeerLeft:    (peer: MeshPeer) => {
+                    if (!peer.ticket) return
+                    const next = new Set(otherDevices.value)
+                    next.delete(peer.ticket)
+                    otherDevices.value = next
+                },
+            })
+        } catch (err) {
+            console.warn('[GExchange] Failed to open device sync channel:', err)
+            _channel = null
+            return
+        }
+
+        _unregister = control.register(DEVICE_SYNC, { validate: _isUpdate, handle: _onUpdate })
+        _enqueue(async () => { _scan() })
+        _unwatch = watch([rooms, roomPrefs], _scheduleScan, { deep: true })
+    }
+
+    async function stop() {
+        _unwatch?.()
+        _unwatch = null
+        _unregister?.()
+        _unregister = null
+        if (_scanTimer) clearTimeout(_scanTimer)
+        _scanTimer = null
+        await _work
+        const channel = _channel
+        _channel = null
+        otherDevices.value = new Set()
+        await channel?.dispose()
+    }
+
+    return {
+        deviceId,
+        otherDevices,
+        lastSyncedAt,
+
+        start,
+        stop,
+    }
+}
@@ -0,0 +1,279 @@
+// src/widgets/gexchange/useMembership.ts
+//
+// Signed room membership: who holds which role in a room.
+//
+// RESPONSIBILITIES:
+//   - The membership document — owner-issued, signed with the owner's identity
+//     key (p2pSign), verifiable by everyone with the owner's publicKey
+//   - Roles: owner, admin, member, read-only, and what each may do (can)
+//   - Distribution over the room channel as a ROOM_MEMBERSHIP control
+//     message, replayed from history; the owner re-sends it whenever a peer
+//     joins
+//   - Verification of incoming documents and persistence in RoomConfig
+//   - Keeping RoomConfig.isAdmin in sync with the signed role, so code that
+//     still reads the flag (useRoomAccess) follows the document
+//
+// TRUST:
+//   A document is applied only when its signature verifies against the room
+//   owner's publicKey — our own for rooms we own, the owner named in the
+//   invite (ownerPublicKey, or bootstrapPublicKey for older invites) for
+//   rooms we joined — and its version is newer than the
+//   one we hold. Anyone may relay it; nobody but the owner can change it.
+//
+// ROOMS WITHOUT A DOCUMENT:
+//   Rooms created before roles existed have no document until the owner first
+//   changes a role. Until then roles fall back to the local flags: isOwner →
+//   owner, isAdmin → admin, everyone else → member.
+
+import type { Ref } from 'vue'
+import type { WidgetSdk } from 'gexplorer/widgets'
+import type { UseControlMessagesReturn } from './useControlMessages'
+import type { Identity } from './useIdentity'
+import type { Room, RoomConfig, RoomConfigPatch } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RoomRole = 'owner' | 'admin' | 'member' | 'read-only'
+
+export type RoomPermission =
+    | 'send'        // post chat messages
+    | 'upload'      // add files to the room VFS
+    | 'call'        // start a group call
+    | 'invite'      // generate invite codes
+    | 'moderate'    // ban, approve pending peers (useRoomAccess)
+    | 'close'       // close / archive the room
+    | 'manage'      // assign roles
+
+export interface MembershipDoc {
+    roomId:         string
+    ownerId:        string
+    ownerPublicKey: string
+    /** Increases with every change; older documents are ignored. */
+    version:        number
+    issuedAt:       number
+    /** userId → role. The owner is implicit; unlisted peers are members. */
+    roles:          Record<string, Exclude<RoomRole, 'owner'>>
+}
+
+export interface SignedMembership {
+    doc:       MembershipDoc
+    /** p2pSign over canonicalMembership(doc). */
+    signature: string
+}
+
+export interface UseMembershipOptions {
+    sdk:              WidgetSdk
+    rooms:            Ref<Room[]>
+    identity:         Ref<Identity | null>
+    control:          UseControlMessagesReturn
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+}
+
+export interface UseMembershipReturn {
+    // ── Queries ────────────────────────────────────────────────────────────
+    roleOf:  (room: Room, userId: string) => RoomRole
+    /** Whether the local user may do `permission` in `room`. */
+    can:     (room: Room, permission: RoomPermission) => boolean
+
+    // ── Owner actions ──────────────────────────────────────────────────────
+    /** Sign and broadcast a new document with `userId` set to `role`. */
+    setRole: (roomId: string, userId: string, role: Exclude<RoomRole, 'owner'>) => Promise<void>
+
+    // ── Distribution ───────────────────────────────────────────────────────
+    /** Send the room's document to the channel. ChatRoom calls this on peer join. */
+    announce:       (roomId: string) => Promise<void>
+
+    dispose:        () => void
+}
+
+// ── Roles ─────────────────────────────────────────────────────────────────────
+
+export const ROOM_MEMBERSHIP = 'room.membership'
+
+export const ROLE_LABELS: Record<RoomRole, string> = {
+    'owner':     'Owner',
+    'admin':     'Admin',
+    'member':    'Member',
+    'read-only': 'Read-only',
+}
+
+const ROLE_PERMISSIONS: Record<RoomRole, readonly RoomPermission[]> = {
+    'owner':     ['send', 'upload', 'call', 'invite', 'moderate', 'close', 'manage'],
+    'admin':     ['send', 'upload', 'call', 'invite', 'moderate'],
+    'member':    ['send', 'upload', 'call'],
+    'read-only': [],
+}
+
+/** Role of `userId` under a room config — pure, shared with the VFS handler. */
+export function membershipRole(config: RoomConfig, userId: string, selfId?: string): RoomRole {
+    const doc = config.membership?.doc
+    if (doc) {
+        if (userId === doc.ownerId) return 'owner'
+        return doc.roles[userId] ?? 'member'
+    }
+    if (userId === selfId) return config.isOwner ? 'owner' : config.isAdmin ? 'admin' : 'member'
+    if (userId === (config.ownerUserId ?? config.bootstrapUserId)) return 'owner'
+    return 'member'
+}
+
+export function roleAllows(role: RoomRole, permission: RoomPermission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Whose signature room-wide documents must carry: our own key for rooms we
+ * own, the owner the invite named for rooms we joined. Invites from before
+ * that was carried came from the owner, so their bootstrap identity stands in.
+ */
+export function roomOwner(
+    room: RoomConfig,
+    self: Identity | null,
+): { userId: string; publicKey: string } | null {
+    if (room.isOwner) return self ? { userId: self.userId, publicKey: self.publicKey } : null
+    if (room.ownerUserId && room.ownerPublicKey)
+        return { userId: room.ownerUserId, publicKey: room.ownerPublicKey }
+    if (room.bootstrapUserId && room.bootstrapPublicKey)
+        return { userId: room.bootstrapUserId, publicKey: room.bootstrapPublicKey }
+    return null
+}
+
+/** The exact string that is signed: fixed key order, roles sorted by userId. */
+export function canonicalMembership(doc: MembershipDoc): string {
+    const roles = Object.fromEntries(Object.keys(doc.roles).sort().map(id => [id, doc.roles[id]]))
+    return JSON.stringify({
+        roomId:         doc.roomId,
+        ownerId:        doc.ownerId,
+        ownerPublicKey: doc.ownerPublicKey,
+        version:        doc.version,
+        issuedAt:       doc.issuedAt,
+        roles,
+    })
+}
+
+const ASSIGNABLE_ROLES: readonly RoomRole[] = ['admin', 'member', 'read-only']
+
+function _isMembership(value: any): value is SignedMembership {
+    const doc = value?.doc
+    return typeof value?.signature === 'string'
+        && typeof doc?.roomId === 'string'
+        && typeof doc.ownerId === 'string'
+        && typeof doc.ownerPublicKey === 'string'
+        && Number.isInteger(doc.version)
+        && typeof doc.issuedAt === 'number'
+        && typeof doc.roles === 'object' && doc.roles !== null
+        && Object.values(doc.roles).every(r => ASSIGNABLE_ROLES.includes(r as RoomRole))
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useMembership(options: UseMembershipOptions): UseMembershipReturn {
+    const { sdk, rooms, identity, control, updateRoomConfig } = options
+
+    // ── Queries ───────────────────────────────────────────────────────────
+
+    function roleOf(room: Room, userId: string): RoomRole {
+        return membershipRole(room, userId, identity.value?.userId)
+    }
+
+    function can(room: Room, permission: RoomPermission): boolean {
+        const selfId = identity.value?.userId
+        return !!selfId && roleAllows(roleOf(room, selfId), permission)
+    }
+
+    // ── Apply ─────────────────────────────────────────────────────────────
+
+    async function _apply(room: Room, signed: SignedMembership) {
+        const selfId = identity.value?.userId
+        const patch: RoomConfigPatch = { membership: signed }
+        if (!room.isOwner && selfId) patch.isAdmin = (signed.doc.roles[selfId] ?? 'member') === 'admin'
+        await updateRoomConfig(room.roomId, patch)
+    }
+
+    // Documents are checked one at a time so an older one can never land
+    // after a newer one that arrived (or replayed from history) alongside it
+    let _incoming: Promise<unknown> = Promise.resolve()
+
+    function _receive(signed: SignedMembership, scopeId: string) {
+        _incoming = _incoming.then(() => _handle(signed, scopeId)).catch(err =>
+            console.warn(`[GExchange] Failed to apply membership in ${scopeId.slice(0, 8)}…:`, err))
+    }
+
+    async function _handle(signed: SignedMembership, scopeId: string): Promise<boolean> {
+        const room = rooms.value.find(r => r.roomId === scopeId)
+        if (!room) return false
+
+        const { doc } = signed
+        if (doc.roomId !== room.roomId) return false
+        if (doc.version <= (room.membership?.doc.version ?? 0)) return false
+
+        const owner = roomOwner(room, identity.value)
+        if (!owner || doc.ownerId !== owner.userId || doc.ownerPublicKey !== owner.publicKey) {
+            console.warn(`[GExchange] Membership document for ${scopeId.slice(0, 8)}… is not from the room owner — ignored`)
+            return false
+        }
+        if (!sdk.p2pVerify) return false
+        const valid = await sdk.p2pVerify(owner.publicKey, canonicalMembership(doc), signed.signature).catch(() => false)
+        if (!valid) {
+            console.warn(`[GExchange] Membership document for ${scopeId.slice(0, 8)}… has a bad signature — ignored`)
+            return false
+        }
+
+        await _apply(room, { doc, signature: signed.signature })
+        return true
+    }
+
+    // ── Distribution ──────────────────────────────────────────────────────
+
+    async function announce(roomId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room?.membership) return
+        await control.send(roomId, ROOM_MEMBERSHIP, room.membership).catch(err =>
+            console.warn(`[GExchange] Failed to announce membership for ${roomId.slice(0, 8)}…:`, err))
+    }
+
+    // ── Owner actions ─────────────────────────────────────────────────────
+
+    async function setRole(roomId: string, userId: string, role: Exclude<RoomRole, 'owner'>) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) throw new Error(`Unknown room ${roomId}`)
+        if (!room.isOwner || !identity.value) throw new Error('Only the room owner can change roles')
+        if (userId === identity.value.userId) throw new Error('The owner role cannot be reassigned')
+        if (!ASSIGNABLE_ROLES.includes(role)) throw new Error(`Unknown role "${role}"`)
+        if (!sdk.p2pSign) throw new Error('Signing is not available')
+
+        const roles = { ...(room.membership?.doc.roles ?? {}) }
+        if (role === 'member') delete roles[userId]
+        else roles[userId] = role
+
+        const doc: MembershipDoc = {
+            roomId,
+            ownerId:        identity.value.userId,
+            ownerPublicKey: identity.value.publicKey,
+            version:        (room.membership?.doc.version ?? 0) + 1,
+            issuedAt:       Date.now(),
+            roles,
+        }
+        const signature = await sdk.p2pSign(canonicalMembership(doc))
+
+        await _apply(room, { doc, signature })
+        await announce(roomId)
+    }
+
+    // ── Registration ──────────────────────────────────────────────────────
+
+    const _unregister = control.register(ROOM_MEMBERSHIP, {
+        validate: _isMembership,
+        handle:   (signed, ctx) => _receive(signed, ctx.roomId),
+        replay:   'signed-body',
+    })
+
+    return {
+        roleOf,
+        can,
+
+        setRole,
+
+        announce,
+        dispose: _unregister,
+    }
+}
@@ -0,0 +1,237 @@
+// src/widgets/gexchange/useMessageEdits.ts
+//
+// Editing and deleting chat messages after they were sent.
+//
+// RESPONSIBILITIES:
+//   - Senders edit or delete their own messages; owners and admins (the
+//     'moderate' permission) delete anyone's
+//   - Propagation as control messages (MESSAGE_EDIT / MESSAGE_DELETE) naming
+//     the original message id
+//   - Applying them to stored history through chatUpdateMessage — so
+//     chatGetHistory and chatSearch return the edited text, or a tombstone
+//     with the text gone — and to the feed on screen
+//   - Holding changes that arrive before their message, until it does
+//   - Replaying them from chat history (checked like live ones), so changes
+//     made while this device was away still land
+//
+// RULES:
+//   Each peer checks the change against the stored original: an edit must come
+//   from the message's sender, a delete from the sender or a moderator. A later
+//   edit beats an earlier one (by the control message's sentAt); a tombstone is
+//   final.
+//
+// HOST SUPPORT:
+//   Needs chatGetMessage and chatUpdateMessage — without them there is no
+//   stored original to check against or patch. On such hosts `available` is
+//   false: nothing can be edited or deleted and incoming changes are dropped.
+
+import type { Ref } from 'vue'
+import type { ChatMessage, ChatMessagePatch, WidgetSdk } from 'gexplorer/widgets'
+import type { ControlContext, UseControlMessagesReturn } from './useControlMessages'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const MESSAGE_EDIT   = 'message.edit'
+export const MESSAGE_DELETE = 'message.delete'
+
+export interface MessageEditBody {
+    id:   string
+    text: string
+}
+
+export interface MessageDeleteBody {
+    id: string
+}
+
+type MessageChange =
+    | { kind: typeof MESSAGE_EDIT;   body: MessageEditBody;   ctx: ControlContext }
+    | { kind: typeof MESSAGE_DELETE; body: MessageDeleteBody; ctx: ControlContext }
+
+export interface UseMessageEditsOptions {
+    sdk:         WidgetSdk
+    control:     UseControlMessagesReturn
+    /** The feed on screen — patched in place when one of its messages changes. */
+    messages:    Ref<ChatMessage[]>
+    getSelfId:   () => string | undefined
+    /** Whether `userId` may delete other people's messages in the room. */
+    mayModerate: (roomId: string, userId: string) => boolean
+}
+
+export interface UseMessageEditsReturn {
+    /** The host can read and patch stored messages. */
+    available:     boolean
+    canEdit:       (msg: ChatMessage) => boolean
+    canDelete:     (msg: ChatMessage) => boolean
+    editMessage:   (msg: ChatMessage, text: string) => Promise<void>
+    deleteMessage: (msg: ChatMessage) => Promise<void>
+    /** Every chat message that arrives — applies changes that were waiting for it. */
+    noteMessage:   (msg: ChatMessage) => void
+    dispose:       () => void
+}
+
+/** Changes held for messages not stored yet. */
+const MAX_PENDING = 200
+
+export function isMessageEdit(body: any): body is MessageEditBody {
+    return typeof body?.id === 'string' && body.id.length > 0
+        && typeof body.text === 'string' && body.text.trim().length > 0
+}
+
+export function isMessageDelete(body: any): body is MessageDeleteBody {
+    return typeof body?.id === 'string' && body.id.length > 0
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useMessageEdits(options: UseMessageEditsOptions): UseMessageEditsReturn {
+    const { sdk, control, messages, getSelfId, mayModerate } = options
+
+    const available = !!sdk.chatGetMessage && !!sdk.chatUpdateMessage
+
+    // message id → changes that arrived before the message
+    const _pending = new Map<string, MessageChange[]>()
+
+    // Changes to stored history land one at a time
+    let _work: Promise<unknown> = Promise.resolve()
+
+    function _enqueue(task: () => Promise<void>): Promise<void> {
+        const result = _work.then(task)
+        _work = result.catch(() => {})
+        return result
+    }
+
+    // ── Queries ───────────────────────────────────────────────────────────
+
+    // Optimistic messages have no host id yet
+    const _isSent = (msg: ChatMessage) => !msg.id.startsWith('opt_')
+
+    function canEdit(msg: ChatMessage): boolean {
+        return available && _isSent(msg) && !msg.deletedAt && msg.senderId === getSelfId()
+    }
+
+    function canDelete(msg: ChatMessage): boolean {
+        const selfId = getSelfId()
+        if (!available || !selfId || !_isSent(msg) || msg.deletedAt) return false
+        return msg.senderId === selfId || mayModerate(msg.scopeId, selfId)
+    }
+
+    // ── Apply ─────────────────────────────────────────────────────────────
+
+    function _patchFeed(updated: ChatMessage) {
+        const i = messages.value.findIndex(m => m.id === updated.id)
+        if (i >= 0) messages.value[i] = { ...messages.value[i], ...updated }
+    }
+
+    async function _apply(original: ChatMessage, change: MessageChange) {
+        const { ctx } = change
+        if (original.deletedAt) return
+
+        let patch: ChatMessagePatch
+        if (change.kind === MESSAGE_EDIT) {
+            if (ctx.senderId !== original.senderId) {
+                console.warn(`[GExchange] Edit of ${original.id.slice(0, 8)}… by someone else — ignored`)
+                return
+            }
+            if ((original.editedAt ?? 0) >= ctx.sentAt) return
+            patch = { text: change.body.text, editedAt: ctx.sentAt }
+        } else {
+            if (ctx.senderId !== original.senderId && !mayModerate(ctx.roomId, ctx.senderId)) {
+                console.warn(`[GExchange] Delete of ${original.id.slice(0, 8)}… by a non-moderator — ignored`)
+                return
+            }
+            patch = { text: '', deletedAt: ctx.sentAt }
+        }
+
+        const stored = await sdk.chatUpdateMessage?.(ctx.roomId, original.id, patch)
+        _patchFeed(stored ?? { ...original, ...patch })
+    }
+
+    function _receive(change: MessageChange) {
+        if (!available) return
+        _enqueue(async () => {
+            const original = await sdk.chatGetMessage?.(change.ctx.roomId, change.body.id)
+            if (original) return _apply(original, change)
+
+            // Not here yet — wait for it
+            const held = _pending.get(change.body.id) ?? []
+            _pending.set(change.body.id, [...held, change])
+            if (_pending.size > MAX_PENDING) _pending.delete(_pending.keys().next().value!)
+        }).catch(err =>
+            console.warn(`[GExchange] Failed to apply a message change in ${change.ctx.roomId.slice(0, 8)}…:`, err))
+    }
+
+    function noteMessage(msg: ChatMessage) {
+        const held = _pending.get(msg.id)
+        if (!held || held[0].ctx.roomId !== msg.scopeId) return
+        _pending.delete(msg.id)
+        // Stored by now or shortly — read it back after the feed appended it
+        _enqueue(async () => {
+            for (const change of held) {
+                const original = await sdk.chatGetMessage?.(msg.scopeId, msg.id) ?? msg
+                await _apply(original, change)
+            }
+        }).catch(err =>
+            console.warn(`[GExchange] Failed to apply a held change to ${msg.id.slice(0, 8)}…:`, err))
+    }
+
+    // ── Actions ───────────────────────────────────────────────────────────
+
+    async function editMessage(msg: ChatMessage, text: string) {
+        const next = text.trim()
+        if (!available) throw new Error('Editing is not available on this host')
+        if (!canEdit(msg)) throw new Error('Only the sender can edit a message')
+        if (!next) throw new Error('A message cannot be empty — delete it instead')
+        if (next === msg.text) return
+
+        const body: MessageEditBody = { id: msg.id, text: next }
+        const { sentAt } = await control.send(msg.scopeId, MESSAGE_EDIT, body)
+        await _enqueue(async () => {
+            const patch: ChatMessagePatch = { text: next, editedAt: sentAt }
+            const stored = await sdk.chatUpdateMessage?.(msg.scopeId, msg.id, patch)
+            _patchFeed(stored ?? { ...msg, ...patch })
+        })
+    }
+
+    async function deleteMessage(msg: ChatMessage) {
+        if (!available) throw new Error('Deleting is not available on this host')
+        if (!canDelete(msg)) throw new Error('You cannot delete this message')
+
+        const body: MessageDeleteBody = { id: msg.id }
+        const { sentAt } = await control.send(msg.scopeId, MESSAGE_DELETE, body)
+        await _enqueue(async () => {
+            const patch: ChatMessagePatch = { text: '', deletedAt: sentAt }
+            const stored = await sdk.chatUpdateMessage?.(msg.scopeId, msg.id, patch)
+            _patchFeed(stored ?? { ...msg, ...patch })
+        })
+    }
+
+    // ── Registration ──────────────────────────────────────────────────────
+
+    const _unregister = [
+        control.register(MESSAGE_EDIT, {
+            validate: isMessageEdit,
+            handle:   (body, ctx) => _receive({ kind: MESSAGE_EDIT, body, ctx }),
+            replay:   'verified',
+        }),
+        control.register(MESSAGE_DELETE, {
+            validate: isMessageDelete,
+            handle:   (body, ctx) => _receive({ kind: MESSAGE_DELETE, body, ctx }),
+            replay:   'verified',
+        }),
+    ]
+
+    function dispose() {
+        for (const off of _unregister) off()
+        _pending.clear()
+    }
+
+    return {
+        available,
+        canEdit,
+        canDelete,
+        editMessage,
+        deleteMessage,
+        noteMessage,
+        dispose,
+    }
+}
@@ -0,0 +1,209 @@
+// src/widgets/gexchange/useNotifications.ts
+//
+// Desktop notifications for new messages.
+//
+// RESPONSIBILITIES:
+//   - Per-room level: all messages, mentions only (the default), muted, or
+//     muted until a time — stored in RoomPrefs, so useDeviceSync carries it to
+//     our other devices
+//   - Global quiet hours (do-not-disturb schedule), per device
+//   - Showing notifications through notificationShow, one per room (tagged by
+//     roomId, so a newer message replaces the older notification)
+//   - Click-through: onNotificationClicked hands the room and message back
+//     to ChatRoom through onOpen
+//
+// "Mentions only" also covers rooms where exactly one other peer is present —
+// those messages are always meant for us.
+
+import { ref, watch, type Ref } from 'vue'
+import type { ChatMessage, WidgetSdk } from 'gexplorer/widgets'
+import type { Room, RoomPrefs } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type NotifyLevel = 'all' | 'mentions' | 'muted'
+
+export interface QuietHours {
+    enabled: boolean
+    /** Local time, 'HH:MM'. A start after the end spans midnight. */
+    start:   string
+    end:     string
+}
+
+export interface UseNotificationsOptions {
+    sdk:          WidgetSdk
+    rooms:        Ref<Room[]>
+    roomPrefs:    Ref<Record<string, RoomPrefs>>
+    setRoomPrefs: (roomId: string, patch: Partial<RoomPrefs>) => void
+    getSelfId:    () => string | undefined
+    isMention:    (msg: ChatMessage) => boolean
+    /** Peers currently connected in a room, if its channel is up. */
+    getPeerCount: (roomId: string) => number | undefined
+    /** A notification was clicked — show the room and the message. */
+    onOpen:       (room: Room, messageId: string | undefined) => void
+}
+
+export interface UseNotificationsReturn {
+    quietHours: Ref<QuietHours>
+
+    /** Effective level — a mute that has run out reads as the stored level. */
+    levelOf:     (roomId: string) => NotifyLevel
+    /** End of a timed mute still running, else undefined. */
+    mutedUntil:  (roomId: string) => number | undefined
+    setLevel:    (roomId: string, level: NotifyLevel) => void
+    muteFor:     (roomId: string, ms: number) => void
+    inQuietHours: (at?: number) => boolean
+
+    shouldNotify: (msg: ChatMessage, room: Room) => boolean
+    /** Show a notification for msg if the room's level and quiet hours allow it. */
+    notify:       (msg: ChatMessage, room: Room) => Promise<void>
+    /** Close the room's notification — it has been read. */
+    dismiss:      (roomId: string) => void
+
+    mount:   () => void
+    unmount: () => void
+}
+
+const QUIET_HOURS_KEY = 'gexchange:quietHours'
+
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '07:00' }
+
+/** Notification body length, before the ellipsis. */
+const BODY_PREVIEW_CHARS = 140
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function _loadQuietHours(): QuietHours {
+    try {
+        const stored = JSON.parse(localStorage.getItem(QUIET_HOURS_KEY) ?? 'null')
+        return { ...DEFAULT_QUIET_HOURS, ...(stored ?? {}) }
+    } catch {
+        return { ...DEFAULT_QUIET_HOURS }
+    }
+}
+
+/** 'HH:MM' → minutes after midnight, or null when malformed. */
+function _minutes(hhmm: string): number | null {
+    const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm)
+    if (!m) return null
+    const h = Number(m[1]), min = Number(m[2])
+    return h < 24 && min < 60 ? h * 60 + min : null
+}
+
+function _preview(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim()
+    return flat.length > BODY_PREVIEW_CHARS ? `${flat.slice(0, BODY_PREVIEW_CHARS)}…` : flat
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useNotifications(options: UseNotificationsOptions): UseNotificationsReturn {
+    const { sdk, rooms, roomPrefs, setRoomPrefs, getSelfId, isMention, getPeerCount, onOpen } = options
+
+    const quietHours = ref<QuietHours>(_loadQuietHours())
+
+    // roomId → id of the notification on screen for it
+    const _shown = new Map<string, string>()
+
+    let _unsubClick: (() => void) | null = null
+
+    // ── Policy ────────────────────────────────────────────────────────────
+
+    function mutedUntil(roomId: string): number | undefined {
+        const until = roomPrefs.value[roomId]?.mutedUntil
+        return until && until > Date.now() ? until : undefined
+    }
+
+    function levelOf(roomId: string): NotifyLevel {
+        if (mutedUntil(roomId)) return 'muted'
+        return roomPrefs.value[roomId]?.notify ?? 'mentions'
+    }
+
+    function setLevel(roomId: string, level: NotifyLevel) {
+        setRoomPrefs(roomId, { notify: level === 'mentions' ? undefined : level, mutedUntil: undefined })
+    }
+
+    function muteFor(roomId: string, ms: number) {
+        setRoomPrefs(roomId, { mutedUntil: Date.now() + ms })
+    }
+
+    function inQuietHours(at = Date.now()): boolean {
+        const { enabled, start, end } = quietHours.value
+        const from = _minutes(start), to = _minutes(end)
+        if (!enabled || from === null || to === null || from === to) return false
+        const d   = new Date(at)
+        const now = d.getHours() * 60 + d.getMinutes()
+        return from < to ? now >= from && now < to : now >= from || now < to
+    }
+
+    function shouldNotify(msg: ChatMessage, room: Room): boolean {
+        if (msg.senderId === getSelfId()) return false
+        switch (levelOf(room.roomId)) {
+            case 'muted': return false
+            case 'all':   return true
+            default:      return isMention(msg) || getPeerCount(room.roomId) === 1
+        }
+    }
+
+    // ── Delivery ──────────────────────────────────────────────────────────
+
+    async function notify(msg: ChatMessage, room: Room) {
+        if (!sdk.notificationShow) return
+        if (!shouldNotify(msg, room) || inQuietHours(msg.sentAt)) return
+        try {
+            const id = await sdk.notificationShow({
+                title: `${msg.senderName} in #${room.displayName}`,
+                body:  _preview(msg.text),
+                tag:   room.roomId,
+                data:  { roomId: room.roomId, messageId: msg.id },
+            })
+            if (id) _shown.set(room.roomId, id)
+        } catch (err) {
+            console.warn(`[GExchange] Notification failed for ${room.roomId.slice(0, 8)}…:`, err)
+        }
+    }
+
+    function dismiss(roomId: string) {
+        const id = _shown.get(roomId)
+        if (!id) return
+        _shown.delete(roomId)
+        sdk.notificationClose?.(id).catch(() => {})
+    }
+
+    // ── Lifecycle ─────────────────────────────────────────────────────────
+
+    function mount() {
+        _unsubClick = sdk.onNotificationClicked?.((event) => {
+            const roomId = event.data?.roomId ?? event.tag
+            const room   = rooms.value.find(r => r.roomId === roomId)
+            if (!room) return
+            if (_shown.get(room.roomId) === event.id) _shown.delete(room.roomId)
+            onOpen(room, event.data?.messageId)
+        }) ?? null
+    }
+
+    function unmount() {
+        _unsubClick?.()
+        _unsubClick = null
+        for (const roomId of [..._shown.keys()]) dismiss(roomId)
+    }
+
+    watch(quietHours, value => localStorage.setItem(QUIET_HOURS_KEY, JSON.stringify(value)), { deep: true })
+
+    return {
+        quietHours,
+
+        levelOf,
+        mutedUntil,
+        setLevel,
+        muteFor,
+        inQuietHours,
+
+        shouldNotify,
+        notify,
+        dismiss,
+
+        mount,
+        unmount,
+    }
+}
@@ -0,0 +1,235 @@
+// src/widgets/gexchange/useReactions.ts
+//
+// Emoji reactions on chat messages.
+//
+// RESPONSIBILITIES:
+//   - Adding and withdrawing our reactions, sent as MESSAGE_REACT control
+//     messages naming the message id
+//   - Merging every peer's reactions into the stored message through
+//     chatUpdateMessage — so they come back with chatGetHistory — and into the
+//     feed on screen
+//   - Aggregation for display: count, whether we reacted, who did
+//   - Holding reactions that arrive before their message, until it does
+//
+// RULES:
+//   Each (message, emoji, user) keeps only its latest change, by the control
+//   message's sentAt — a withdrawal is remembered too. Merging is idempotent:
+//   redelivery, our own echo or a history reload never counts anyone twice, and
+//   an older change arriving late cannot undo a newer one.
+//
+// HOST SUPPORT:
+//   Reactions live in the stored message, so they need chatGetMessage and
+//   chatUpdateMessage. Without them `available` is false: nobody can react
+//   here and incoming reactions are dropped.
+
+import type { Ref } from 'vue'
+import type { ChatMessage, ChatReaction, WidgetSdk } from 'gexplorer/widgets'
+import type { ControlContext, UseControlMessagesReturn } from './useControlMessages'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const MESSAGE_REACT = 'message.react'
+
+export interface MessageReactBody {
+    id:    string
+    emoji: string
+    on:    boolean
+}
+
+export type MessageReactions = NonNullable<ChatMessage['reactions']>
+
+export interface ReactionSummary {
+    emoji: string
+    count: number
+    mine:  boolean
+    /** Display names, earliest reaction first. */
+    names: string[]
+}
+
+export interface UseReactionsOptions {
+    sdk:       WidgetSdk
+    control:   UseControlMessagesReturn
+    /** The feed on screen — patched in place when one of its messages changes. */
+    messages:  Ref<ChatMessage[]>
+    getSelfId:   () => string | undefined
+    getSelfName: () => string
+}
+
+export interface UseReactionsReturn {
+    /** The host can read and patch stored messages. */
+    available:  boolean
+    summarize:  (msg: ChatMessage) => ReactionSummary[]
+    /** Add our reaction, or withdraw it when we already reacted with this emoji. */
+    toggle:     (msg: ChatMessage, emoji: string) => Promise<void>
+    /** Every chat message that arrives — applies reactions that were waiting for it. */
+    noteMessage: (msg: ChatMessage) => void
+    dispose:    () => void
+}
+
+/** Offered in the picker; any single emoji is accepted from peers. */
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉']
+
+/** Distinct emoji kept per message — further new ones are dropped. */
+const MAX_EMOJI_PER_MESSAGE = 20
+
+/** Reactions held for messages not stored yet. */
+const MAX_PENDING = 200
+
+// One emoji, with its variation selectors, skin tones and ZWJ sequences
+const EMOJI_RE = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})[\p{Extended_Pictographic}\p{Regional_Indicator}\p{Emoji_Modifier}\u200D\uFE0F]*$/u
+
+export function isMessageReact(body: any): body is MessageReactBody {
+    return typeof body?.id === 'string' && body.id.length > 0
+        && typeof body.emoji === 'string' && body.emoji.length <= 32 && EMOJI_RE.test(body.emoji)
+        && typeof body.on === 'boolean'
+}
+
+/**
+ * Merge one user's change for one emoji. Returns the new reactions, or null
+ * when the change is stale or already there.
+ */
+export function mergeReaction(
+    reactions: MessageReactions | undefined,
+    emoji: string,
+    userId: string,
+    change: ChatReaction,
+): MessageReactions | null {
+    const current = reactions?.[emoji]?.[userId]
+    if (current && (current.at > change.at || (current.at === change.at && (current.on || !change.on))))
+        return null
+    if (!reactions?.[emoji] && Object.keys(reactions ?? {}).length >= MAX_EMOJI_PER_MESSAGE)
+        return null
+    return {
+        ...reactions,
+        [emoji]: { ...reactions?.[emoji], [userId]: { ...change } },
+    }
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useReactions(options: UseReactionsOptions): UseReactionsReturn {
+    const { sdk, control, messages, getSelfId, getSelfName } = options
+
+    const available = !!sdk.chatGetMessage && !!sdk.chatUpdateMessage
+
+    // message id → reactions that arrived before the message
+    const _pending = new Map<string, { body: MessageReactBody; ctx: ControlContext }[]>()
+
+    // Read-modify-write of stored reactions, one at a time
+    let _work: Promise<unknown> = Promise.resolve()
+
+    function _enqueue(task: () => Promise<void>): Promise<void> {
+        const result = _work.then(task)
+        _work = result.catch(() => {})
+        return result
+    }
+
+    // ── Queries ───────────────────────────────────────────────────────────
+
+    function summarize(msg: ChatMessage): ReactionSummary[] {
+        const selfId = getSelfId()
+        const summaries: (ReactionSummary & { first: number })[] = []
+        for (const [emoji, byUser] of Object.entries(msg.reactions ?? {})) {
+            const on = Object.entries(byUser)
+                .filter(([, r]) => r.on)
+                .sort(([, a], [, b]) => a.at - b.at)
+            if (!on.length) continue
+            summaries.push({
+                emoji,
+                count: on.length,
+                mine:  on.some(([userId]) => userId === selfId),
+                names: on.map(([, r]) => r.name),
+                first: on[0][1].at,
+            })
+        }
+        return summaries
+            .sort((a, b) => a.first - b.first)
+            .map(({ first: _first, ...summary }) => summary)
+    }
+
+    // ── Apply ─────────────────────────────────────────────────────────────
+
+    function _patchFeed(updated: ChatMessage) {
+        const i = messages.value.findIndex(m => m.id === updated.id)
+        if (i >= 0) messages.value[i] = { ...messages.value[i], reactions: updated.reactions }
+    }
+
+    // Call from inside _enqueue
+    async function _merge(roomId: string, messageId: string, emoji: string, userId: string, change: ChatReaction): Promise<boolean> {
+        const original = await sdk.chatGetMessage?.(roomId, messageId)
+        if (!original) return false
+        if (original.deletedAt) return true
+
+        const reactions = mergeReaction(original.reactions, emoji, userId, change)
+        if (!reactions) return true
+        const stored = await sdk.chatUpdateMessage?.(roomId, messageId, { reactions })
+        _patchFeed(stored ?? { ...original, reactions })
+        return true
+    }
+
+    function _receive(body: MessageReactBody, ctx: ControlContext) {
+        if (!available) return
+        _enqueue(async () => {
+            const change: ChatReaction = { on: body.on, at: ctx.sentAt, name: ctx.senderName }
+            if (await _merge(ctx.roomId, body.id, body.emoji, ctx.senderId, change)) return
+
+            // Not here yet — wait for it
+            const held = _pending.get(body.id) ?? []
+            _pending.set(body.id, [...held, { body, ctx }])
+            if (_pending.size > MAX_PENDING) _pending.delete(_pending.keys().next().value!)
+        }).catch(err =>
+            console.warn(`[GExchange] Failed to apply a reaction in ${ctx.roomId.slice(0, 8)}…:`, err))
+    }
+
+    function noteMessage(msg: ChatMessage) {
+        const held = _pending.get(msg.id)
+        if (!held || held[0].ctx.roomId !== msg.scopeId) return
+        _pending.delete(msg.id)
+        _enqueue(async () => {
+            for (const { body, ctx } of held) {
+                const change: ChatReaction = { on: body.on, at: ctx.sentAt, name: ctx.senderName }
+                await _merge(msg.scopeId, msg.id, body.emoji, ctx.senderId, change)
+            }
+        }).catch(err =>
+            console.warn(`[GExchange] Failed to apply held reactions to ${msg.id.slice(0, 8)}…:`, err))
+    }
+
+    // ── Actions ───────────────────────────────────────────────────────────
+
+    async function toggle(msg: ChatMessage, emoji: string) {
+        const selfId = getSelfId()
+        if (!available) throw new Error('Reactions are not available on this host')
+        if (!selfId) throw new Error('Identity not loaded')
+        if (msg.id.startsWith('opt_') || msg.deletedAt) throw new Error('This message cannot take reactions')
+        if (!EMOJI_RE.test(emoji)) throw new Error('A reaction is a single emoji')
+
+        const on   = !msg.reactions?.[emoji]?.[selfId]?.on
+        const body: MessageReactBody = { id: msg.id, emoji, on }
+        // Stamped like peers stamp it, so every side orders our changes alike
+        const { sentAt } = await control.send(msg.scopeId, MESSAGE_REACT, body)
+        await _enqueue(async () => {
+            const change: ChatReaction = { on, at: sentAt, name: getSelfName() }
+            await _merge(msg.scopeId, msg.id, emoji, selfId, change)
+        })
+    }
+
+    // ── Registration ──────────────────────────────────────────────────────
+
+    const _unregister = control.register(MESSAGE_REACT, {
+        validate: isMessageReact,
+        handle:   _receive,
+    })
+
+    function dispose() {
+        _unregister()
+        _pending.clear()
+    }
+
+    return {
+        available,
+        summarize,
+        toggle,
+        noteMessage,
+        dispose,
+    }
+}
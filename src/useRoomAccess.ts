@@ -0,0 +1,336 @@
+// src/widgets/gexchange/useRoomAccess.ts
+//
+// Who may connect to a room: ban list and owner approval gate.
+//
+// RESPONSIBILITIES:
+//   - canConnect(roomId, peer) — the gate behind buildCanConnect in ChatRoom.vue
+//   - Ban / unban by userId or publicKey (RoomConfig.bannedPeers)
+//   - "Approval required" room mode (RoomConfig.approvalRequired): unknown
+//     peers are held in `pendingPeers` until an owner/admin accepts or
+//     rejects them from the participant sidebar
+//   - Remember decisions per room: accepted → approvedPeers, rejected →
+//     bannedPeers (unban from the same list to reconsider)
+//   - Invites issued here (RoomConfig.invites): a peer whose presence ticket
+//     names one is refused once it is revoked, expired or used up, and is
+//     recorded as a redemption when let in
+//
+// ENFORCEMENT:
+//   Only clients whose room config has the lists enforce them, i.e. the owner
+//   and admins. Members accept everyone, and never gate the room owner
+//   (roomOwner) — otherwise a member could lock itself out of the room.
+//   A ban therefore keeps the peer away from moderators only: it can still
+//   link to plain members as long as it holds the room secret. Rotating the
+//   secret (useRoomRekey) is what shuts it out of the room for good.
+//
+// TICKETS:
+//   The presence ticket is self-reported — a peer holding a revoked token can
+//   simply leave it out. So once this device tracks invites, a peer that
+//   names none of them is treated as unapproved and held like under
+//   "approval required", unless it was let in before (approvedPeers or an
+//   earlier redemption). Approving it once remembers it.
+//
+// PENDING PEERS:
+//   canConnect holds the connection attempt open while the peer is pending,
+//   up to APPROVAL_WAIT_MS. After that the attempt is refused but the peer
+//   stays pending; approving it later re-kicks the connection.
+
+import { ref, type Ref } from 'vue'
+import type { MeshPeer, UseChannelReturn } from 'gexplorer/widgets'
+import type { Identity } from './useIdentity'
+import { roomOwner } from './useMembership'
+import { inviteStatus, type Room, type RoomConfigPatch, type RoomPeerRef } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PendingPeer {
+    roomId:      string
+    userId:      string
+    publicKey?:  string
+    username?:   string
+    requestedAt: number
+}
+
+export interface UseRoomAccessOptions {
+    rooms:            Ref<Room[]>
+    identity:         Ref<Identity | null>
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+    getChannel:       (roomId: string) => UseChannelReturn | undefined
+}
+
+export interface UseRoomAccessReturn {
+    // ── State ──────────────────────────────────────────────────────────────
+    /** Peers waiting for approval, across all rooms. */
+    pendingPeers: Ref<PendingPeer[]>
+
+    // ── Queries ────────────────────────────────────────────────────────────
+    canModerate:  (room: Room) => boolean
+    isBanned:     (room: Room, peer: { userId: string; publicKey?: string }) => boolean
+    pendingFor:   (roomId: string) => PendingPeer[]
+
+    // ── Gate ───────────────────────────────────────────────────────────────
+    canConnect:   (roomId: string, peer: MeshPeer) => Promise<boolean>
+    /** Record a peer's public key when it joins, so bans can match it too. */
+    rememberPeer: (peer: MeshPeer) => void
+    /** The publicKey a peer presented when it joined, if any. */
+    publicKeyOf:  (userId: string) => string | undefined
+
+    // ── Actions (owner / admin) ────────────────────────────────────────────
+    banPeer:             (roomId: string, userId: string, username?: string) => Promise<void>
+    unbanPeer:           (roomId: string, userId: string) => Promise<void>
+    approvePeer:         (roomId: string, userId: string) => Promise<void>
+    rejectPeer:          (roomId: string, userId: string) => Promise<void>
+    setApprovalRequired: (roomId: string, required: boolean) => Promise<void>
+
+    /** Refuse every held connection attempt. Call from onUnmounted. */
+    dispose: () => void
+}
+
+const APPROVAL_WAIT_MS = 120_000
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useRoomAccess(options: UseRoomAccessOptions): UseRoomAccessReturn {
+    const { rooms, identity, updateRoomConfig, getChannel } = options
+
+    const pendingPeers = ref<PendingPeer[]>([])
+
+    // userId → publicKey, learned from presence
+    const knownKeys = new Map<string, string>()
+    // `${roomId}|${userId}` → resolvers of held canConnect calls
+    const waiters   = new Map<string, ((allowed: boolean) => void)[]>()
+
+    const key = (roomId: string, userId: string) => `${roomId}|${userId}`
+
+    // ── Queries ───────────────────────────────────────────────────────────
+
+    function canModerate(room: Room): boolean {
+        return room.isOwner || room.isAdmin
+    }
+
+    function isBanned(room: Room, peer: { userId: string; publicKey?: string }): boolean {
+        return (room.bannedPeers ?? []).some(b =>
+            b.userId === peer.userId || (!!b.publicKey && b.publicKey === peer.publicKey))
+    }
+
+    function _isApproved(room: Room, peer: { userId: string; publicKey?: string }): boolean {
+        return (room.approvedPeers ?? []).some(a =>
+            a.userId === peer.userId && (!a.publicKey || !peer.publicKey || a.publicKey === peer.publicKey))
+    }
+
+    function pendingFor(roomId: string): PendingPeer[] {
+        return pendingPeers.value.filter(p => p.roomId === roomId)
+    }
+
+    function _room(roomId: string): Room {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) throw new Error(`Unknown room ${roomId}`)
+        return room
+    }
+
+    function _peerRef(roomId: string, userId: string, username?: string): RoomPeerRef {
+        const pending = pendingPeers.value.find(p => p.roomId === roomId && p.userId === userId)
+        const publicKey = pending?.publicKey ?? knownKeys.get(userId)
+        return {
+            userId,
+            ...(publicKey ? { publicKey } : {}),
+            ...(username ?? pending?.username ? { username: username ?? pending?.username } : {}),
+            at: Date.now(),
+        }
+    }
+
+    // ── Pending ───────────────────────────────────────────────────────────
+
+    function _settle(roomId: string, userId: string, allowed: boolean) {
+        pendingPeers.value = pendingPeers.value.filter(p => !(p.roomId === roomId && p.userId === userId))
+        const held = waiters.get(key(roomId, userId)) ?? []
+        waiters.delete(key(roomId, userId))
+        for (const resolve of held) resolve(allowed)
+    }
+
+    function _hold(roomId: string, peer: MeshPeer): Promise<boolean> {
+        if (!pendingPeers.value.some(p => p.roomId === roomId && p.userId === peer.userId)) {
+            pendingPeers.value = [...pendingPeers.value, {
+                roomId,
+                userId:      peer.userId,
+                publicKey:   peer.publicKey,
+                username:    peer.username,
+                requestedAt: Date.now(),
+            }]
+        }
+
+        return new Promise<boolean>((resolve) => {
+            const k = key(roomId, peer.userId)
+            const timer = setTimeout(() => {
+                waiters.set(k, (waiters.get(k) ?? []).filter(r => r !== done))
+                resolve(false)
+            }, APPROVAL_WAIT_MS)
+            const done = (allowed: boolean) => {
+                clearTimeout(timer)
+                resolve(allowed)
+            }
+            waiters.set(k, [...(waiters.get(k) ?? []), done])
+        })
+    }
+
+    // ── Invites ───────────────────────────────────────────────────────────
+
+    function _invite(room: Room, peer: MeshPeer) {
+        return typeof peer.ticket === 'string'
+            ? room.invites?.find(i => i.inviteId === peer.ticket)
+            : undefined
+    }
+
+    function _inviteRefuses(room: Room, peer: MeshPeer): boolean {
+        const invite = _invite(room, peer)
+        if (!invite || invite.redemptions.some(r => r.userId === peer.userId)) return false
+        return inviteStatus(invite) !== 'active'
+    }
+
+    /** Invites are tracked here but the peer names none of them and never redeemed one. */
+    function _lacksTicket(room: Room, peer: MeshPeer): boolean {
+        if (!room.invites?.length || _invite(room, peer)) return false
+        return !room.invites.some(i => i.redemptions.some(r => r.userId === peer.userId))
+    }
+
+    // Check-and-record runs one peer at a time, so two peers racing for the
+    // last use of an invite cannot both get in
+    let _redemptions: Promise<unknown> = Promise.resolve()
+
+    function _redeem(roomId: string, peer: MeshPeer): Promise<boolean> {
+        const result = _redemptions.then(async () => {
+            const room   = rooms.value.find(r => r.roomId === roomId)
+            const invite = room && _invite(room, peer)
+            if (!room || !invite) return true
+            if (invite.redemptions.some(r => r.userId === peer.userId)) return true
+            if (inviteStatus(invite) !== 'active') return false
+
+            const redemption = {
+                userId: peer.userId,
+                ...(peer.username ? { username: peer.username } : {}),
+                at:     Date.now(),
+            }
+            await updateRoomConfig(roomId, {
+                invites: room.invites!.map(i => i === invite
+                    ? { ...i, redemptions: [...i.redemptions, redemption] }
+                    : i),
+            }).catch(err =>
+                console.warn(`[GExchange] Failed to record invite use in ${roomId.slice(0, 8)}…:`, err))
+            return true
+        })
+        _redemptions = result.catch(() => {})
+        return result
+    }
+
+    // ── Gate ──────────────────────────────────────────────────────────────
+
+    async function canConnect(roomId: string, peer: MeshPeer): Promise<boolean> {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) return true
+        if (peer.publicKey) knownKeys.set(peer.userId, peer.publicKey)
+
+        if (peer.userId === identity.value?.userId)               return true
+        if (peer.userId === roomOwner(room, identity.value)?.userId) return true
+        if (!canModerate(room))                                   return true
+
+        if (isBanned(room, peer))       return false
+        if (_inviteRefuses(room, peer)) return false
+
+        const gated = room.approvalRequired || _lacksTicket(room, peer)
+        if (gated && !_isApproved(room, peer) && !await _hold(roomId, peer)) return false
+
+        return _redeem(roomId, peer)
+    }
+
+    function rememberPeer(peer: MeshPeer) {
+        if (peer.publicKey) knownKeys.set(peer.userId, peer.publicKey)
+    }
+
+    function publicKeyOf(userId: string): string | undefined {
+        if (userId === identity.value?.userId) return identity.value.publicKey
+        return knownKeys.get(userId)
+    }
+
+    // ── Actions ───────────────────────────────────────────────────────────
+
+    async function banPeer(roomId: string, userId: string, username?: string) {
+        const room = _room(roomId)
+        if (!canModerate(room)) throw new Error('Only the owner or an admin can ban')
+        if (userId === identity.value?.userId) throw new Error('You cannot ban yourself')
+
+        const ref = _peerRef(roomId, userId, username)
+        await updateRoomConfig(roomId, {
+            bannedPeers:   [...(room.bannedPeers ?? []).filter(b => b.userId !== userId), ref],
+            approvedPeers: (room.approvedPeers ?? []).filter(a => a.userId !== userId),
+        })
+        _settle(roomId, userId, false)
+        await getChannel(roomId)?.disconnectPeer?.(userId).catch(err =>
+            console.warn(`[GExchange] Failed to disconnect banned peer ${userId.slice(0, 8)}…:`, err))
+    }
+
+    async function unbanPeer(roomId: string, userId: string) {
+        const room = _room(roomId)
+        if (!canModerate(room)) throw new Error('Only the owner or an admin can unban')
+        await updateRoomConfig(roomId, {
+            bannedPeers: (room.bannedPeers ?? []).filter(b => b.userId !== userId),
+        })
+    }
+
+    async function approvePeer(roomId: string, userId: string) {
+        const room = _room(roomId)
+        if (!canModerate(room)) throw new Error('Only the owner or an admin can approve')
+
+        const ref = _peerRef(roomId, userId)
+        await updateRoomConfig(roomId, {
+            approvedPeers: [...(room.approvedPeers ?? []).filter(a => a.userId !== userId), ref],
+            bannedPeers:   (room.bannedPeers ?? []).filter(b => b.userId !== userId),
+        })
+
+        const held = waiters.get(key(roomId, userId))?.length ?? 0
+        _settle(roomId, userId, true)
+
+        // The held attempt timed out — ask the peer to connect again
+        if (held === 0 && ref.publicKey) {
+            await getChannel(roomId)?.connectToPeer(userId, ref.publicKey).catch(err =>
+                console.warn(`[GExchange] Reconnect to approved peer ${userId.slice(0, 8)}… failed:`, err))
+        }
+    }
+
+    async function rejectPeer(roomId: string, userId: string) {
+        await banPeer(roomId, userId)
+    }
+
+    async function setApprovalRequired(roomId: string, required: boolean) {
+        const room = _room(roomId)
+        if (!canModerate(room)) throw new Error('Only the owner or an admin can change room access')
+        await updateRoomConfig(roomId, { approvalRequired: required })
+
+        // Turning the gate off lets everyone who was waiting in
+        if (!required)
+            for (const p of pendingFor(roomId)) _settle(roomId, p.userId, true)
+    }
+
+    function dispose() {
+        for (const p of [...pendingPeers.value]) _settle(p.roomId, p.userId, false)
+        knownKeys.clear()
+    }
+
+    return {
+        pendingPeers,
+
+        canModerate,
+        isBanned,
+        pendingFor,
+
+        canConnect,
+        rememberPeer,
+        publicKeyOf,
+
+        banPeer,
+        unbanPeer,
+        approvePeer,
+        rejectPeer,
+        setApprovalRequired,
+
+        dispose,
+    }
+}
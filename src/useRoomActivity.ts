@@ -0,0 +1,232 @@
+// src/widgets/gexchange/useRoomActivity.ts
+//
+// Unread state and ordering for the room picker.
+//
+// RESPONSIBILITIES:
+//   - Unread and mention counters per room, fed by ChatRoom's ambient
+//     onChatMessage handler and seeded from chat history on load
+//   - Read markers: RoomPrefs.readAt (persisted by useRooms, replicated to our
+//     other devices by useDeviceSync) — counters derive from it, so reading a
+//     room anywhere clears it everywhere
+//   - Picker order: pinned rooms first, then manual (drag) order or most
+//     recent activity
+//   - Drag reordering through createLinearSortable
+//
+// Counters only cover messages this session has seen — the live feed plus the
+// last HISTORY_SEED_LIMIT messages per room at load.
+
+import { computed, nextTick, ref, watch, type ComputedRef, type Ref } from 'vue'
+import { createLinearSortable } from 'gexplorer/widgets'
+import type { ChatMessage, SortableHandle, WidgetSdk } from 'gexplorer/widgets'
+import type { Room, RoomPrefs } from './useRooms'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RoomSortMode = 'manual' | 'activity'
+
+export interface RoomCounters {
+    unread:   number
+    mentions: number
+}
+
+interface UnreadEntry {
+    id:      string
+    sentAt:  number
+    mention: boolean
+}
+
+export interface UseRoomActivityOptions {
+    sdk:          WidgetSdk
+    rooms:        Ref<Room[]>
+    roomPrefs:    Ref<Record<string, RoomPrefs>>
+    setRoomPrefs: (roomId: string, patch: Partial<RoomPrefs>) => void
+    getSelfId:    () => string | undefined
+    /** Control messages and call signals — never counted. */
+    isSignal:     (msg: ChatMessage) => boolean
+    isMention:    (msg: ChatMessage) => boolean
+}
+
+export interface UseRoomActivityReturn {
+    /** roomId → counters; rooms with nothing unread are absent. */
+    counters:     ComputedRef<Record<string, RoomCounters>>
+    totalUnread:  ComputedRef<number>
+    sortMode:     Ref<RoomSortMode>
+    /** Pinned first, then by sortMode. */
+    sortRooms:    (list: Room[]) => Room[]
+
+    /** A message arrived for a room that is not on screen. */
+    noteMessage:  (msg: ChatMessage) => void
+    /** A message arrived for the room on screen — activity only. */
+    noteActivity: (roomId: string, at: number) => void
+    /** Everything up to sentAt has been seen. */
+    markRead:     (roomId: string, sentAt: number) => void
+    togglePin:    (roomId: string) => void
+    /** New order for the visible rooms; rooms filtered out keep their slots. */
+    reorder:      (orderedIds: string[], visible: Room[]) => void
+
+    /** Bind drag reordering to the picker's list element (null unbinds). */
+    attachSortable: (el: HTMLElement | null, visible: () => Room[]) => void
+
+    load:    () => Promise<void>
+    dispose: () => void
+}
+
+const SORT_MODE_KEY = 'gexchange:roomSort'
+
+const HISTORY_SEED_LIMIT = 200
+
+/** Unread entries kept per room — the badge caps at this. */
+const MAX_UNREAD_ENTRIES = 500
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useRoomActivity(options: UseRoomActivityOptions): UseRoomActivityReturn {
+    const { sdk, rooms, roomPrefs, setRoomPrefs, getSelfId, isSignal, isMention } = options
+
+    const sortMode = ref<RoomSortMode>(localStorage.getItem(SORT_MODE_KEY) === 'activity' ? 'activity' : 'manual')
+
+    // roomId → messages seen newer than some read marker; readAt filters them
+    const _unread   = ref<Record<string, UnreadEntry[]>>({})
+    // roomId → sentAt of the newest message seen
+    const _activity = ref<Record<string, number>>({})
+
+    let _sortable: SortableHandle | null = null
+
+    // ── Counters ──────────────────────────────────────────────────────────
+
+    const counters = computed(() => {
+        const out: Record<string, RoomCounters> = {}
+        for (const [roomId, entries] of Object.entries(_unread.value)) {
+            const readAt = roomPrefs.value[roomId]?.readAt ?? 0
+            const fresh  = entries.filter(e => e.sentAt > readAt)
+            if (fresh.length === 0) continue
+            out[roomId] = { unread: fresh.length, mentions: fresh.filter(e => e.mention).length }
+        }
+        return out
+    })
+
+    const totalUnread = computed(() =>
+        Object.values(counters.value).reduce((sum, c) => sum + c.unread, 0))
+
+    function noteActivity(roomId: string, at: number) {
+        if (at > (_activity.value[roomId] ?? 0))
+            _activity.value = { ..._activity.value, [roomId]: at }
+    }
+
+    function _track(msg: ChatMessage) {
+        if (msg.sentAt <= (roomPrefs.value[msg.scopeId]?.readAt ?? 0)) return
+        const entries = _unread.value[msg.scopeId] ?? []
+        if (entries.some(e => e.id === msg.id)) return
+        _unread.value = {
+            ..._unread.value,
+            [msg.scopeId]: [...entries, { id: msg.id, sentAt: msg.sentAt, mention: isMention(msg) }].slice(-MAX_UNREAD_ENTRIES),
+        }
+    }
+
+    function noteMessage(msg: ChatMessage) {
+        if (isSignal(msg)) return
+        noteActivity(msg.scopeId, msg.sentAt)
+        if (msg.senderId !== getSelfId()) _track(msg)
+    }
+
+    function markRead(roomId: string, sentAt: number) {
+        noteActivity(roomId, sentAt)
+        if (sentAt <= (roomPrefs.value[roomId]?.readAt ?? 0)) return
+        setRoomPrefs(roomId, { readAt: sentAt })
+        // Drop what the marker now covers
+        const entries = _unread.value[roomId]
+        if (entries) _unread.value = { ..._unread.value, [roomId]: entries.filter(e => e.sentAt > sentAt) }
+    }
+
+    // ── Order ─────────────────────────────────────────────────────────────
+
+    function sortRooms(list: Room[]): Room[] {
+        const prefs = roomPrefs.value
+        const index = new Map(rooms.value.map((r, i) => [r.roomId, i]))
+        const rank  = (r: Room) => sortMode.value === 'activity'
+            ? -(_activity.value[r.roomId] ?? r.createdAt)
+            : prefs[r.roomId]?.order ?? Number.MAX_SAFE_INTEGER
+
+        return [...list].sort((a, b) =>
+            Number(!!prefs[b.roomId]?.pinned) - Number(!!prefs[a.roomId]?.pinned)
+            || rank(a) - rank(b)
+            || (index.get(a.roomId) ?? 0) - (index.get(b.roomId) ?? 0))
+    }
+
+    function togglePin(roomId: string) {
+        setRoomPrefs(roomId, { pinned: roomPrefs.value[roomId]?.pinned ? undefined : true })
+    }
+
+    function reorder(orderedIds: string[], visible: Room[]) {
+        const shown = new Set(visible.map(r => r.roomId))
+        if (orderedIds.length !== shown.size || !orderedIds.every(id => shown.has(id))) return
+
+        // Sorted by the current manual order, with the visible slots refilled
+        sortMode.value = 'manual'
+        const full  = sortRooms(rooms.value.filter(r => !r.isClosed)).map(r => r.roomId)
+        const moved = [...orderedIds]
+        const next  = full.map(id => (shown.has(id) ? moved.shift()! : id))
+
+        next.forEach((roomId, order) => {
+            if (roomPrefs.value[roomId]?.order !== order) setRoomPrefs(roomId, { order })
+        })
+    }
+
+    function attachSortable(el: HTMLElement | null, visible: () => Room[]) {
+        _sortable?.destroy?.()
+        _sortable = null
+        if (!el) return
+        _sortable = createLinearSortable({
+            container:            el,
+            orientation:          'vertical',
+            rowSelector:          '[data-room-id]',
+            rowIdAttr:            'data-room-id',
+            dragThresholdPx:      4,
+            containerClassOnDrag: 'gex-dragging',
+            autoScroll:           { marginPx: 32, maxSpeedPxPerSec: 600 },
+            onCommit:             (orderedIds: string[]) => reorder(orderedIds, visible()),
+        })
+    }
+
+    // ── Lifecycle ─────────────────────────────────────────────────────────
+
+    async function load() {
+        if (!sdk.chatGetHistory) return
+        for (const room of rooms.value) {
+            try {
+                const history = await sdk.chatGetHistory(room.roomId, HISTORY_SEED_LIMIT)
+                for (const msg of history) noteMessage(msg)
+            } catch (err) {
+                console.warn(`[GExchange] Failed to read history of ${room.roomId.slice(0, 8)}…:`, err)
+            }
+        }
+    }
+
+    function dispose() {
+        _sortable?.destroy?.()
+        _sortable = null
+    }
+
+    watch(sortMode, mode => localStorage.setItem(SORT_MODE_KEY, mode))
+
+    // Row elements change with the order — let the sortable re-read them
+    watch([rooms, roomPrefs, sortMode], () => nextTick(() => _sortable?.refresh?.()), { deep: true })
+
+    return {
+        counters,
+        totalUnread,
+        sortMode,
+        sortRooms,
+
+        noteMessage,
+        noteActivity,
+        markRead,
+        togglePin,
+        reorder,
+
+        attachSortable,
+
+        load,
+        dispose,
+    }
+}
@@ -0,0 +1,171 @@
+// src/widgets/gexchange/useRoomLifecycle.ts
+//
+// Closing and leaving rooms.
+//
+// RESPONSIBILITIES:
+//   - Close (owner): sign a closure notice, mark the room closed and
+//     broadcast it as a ROOM_CLOSURE control message, replayed from history;
+//     the owner re-sends it to anyone who joins later
+//   - Apply closure notices from the owner: isClosed / closedReason, then
+//     drop the channel — a closed room is read-only history
+//   - Leave (anyone): dispose the channel and forget the room on this device,
+//     optionally purging its files from the vault
+//
+// CLOSED ROOMS:
+//   Stay in the vault and show up under "Archived" in the picker. Their
+//   history is still readable; nothing can be sent. Only the owner keeps a
+//   channel open for them, so peers that were offline at close time still
+//   learn about it.
+
+import type { Ref } from 'vue'
+import type { WidgetSdk } from 'gexplorer/widgets'
+import type { UseControlMessagesReturn } from './useControlMessages'
+import type { Identity } from './useIdentity'
+import type { Room, RoomConfigPatch } from './useRooms'
+import { roomOwner, type RoomPermission } from './useMembership'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ClosureNotice {
+    roomId:    string
+    reason:    string
+    closedAt:  number
+    signature: string
+}
+
+export interface UseRoomLifecycleOptions {
+    sdk:              WidgetSdk
+    rooms:            Ref<Room[]>
+    identity:         Ref<Identity | null>
+    control:          UseControlMessagesReturn
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+    deleteRoom:       (roomId: string, options?: { purgeFiles?: boolean }) => Promise<void>
+    /** Dispose and forget the room's channel. ChatRoom owns the channel map. */
+    disposeChannel:   (roomId: string) => Promise<void>
+    /** Permission check from useMembership. */
+    can:              (room: Room, permission: RoomPermission) => boolean
+}
+
+export interface UseRoomLifecycleReturn {
+    /** Owner only. Signs, persists and broadcasts the closure. */
+    closeRoom:      (roomId: string, reason: string) => Promise<void>
+    /** Leave and forget the room on this device. */
+    leaveRoom:      (roomId: string, options?: { purgeFiles?: boolean }) => Promise<void>
+
+    /** Re-send the closure notice of a closed room we own. */
+    announceClosure: (roomId: string) => Promise<void>
+
+    dispose:         () => void
+}
+
+export const ROOM_CLOSURE = 'room.closure'
+
+const MAX_REASON_LENGTH = 200
+
+/** The exact string the owner signs. */
+function canonicalClosure(n: Pick<ClosureNotice, 'roomId' | 'reason' | 'closedAt'>): string {
+    return JSON.stringify({ type: 'room-closed', roomId: n.roomId, reason: n.reason, closedAt: n.closedAt })
+}
+
+function _isNotice(value: any): value is ClosureNotice {
+    return typeof value?.roomId === 'string'
+        && typeof value.reason === 'string'
+        && typeof value.closedAt === 'number'
+        && typeof value.signature === 'string'
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useRoomLifecycle(options: UseRoomLifecycleOptions): UseRoomLifecycleReturn {
+    const { sdk, rooms, identity, control, updateRoomConfig, deleteRoom, disposeChannel, can } = options
+
+    function _room(roomId: string): Room {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) throw new Error(`Unknown room ${roomId}`)
+        return room
+    }
+
+    // ── Close ─────────────────────────────────────────────────────────────
+
+    async function announceClosure(roomId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room?.isClosed || !room.closedAt || !room.closedSignature) return
+
+        const notice: ClosureNotice = {
+            roomId,
+            reason:    room.closedReason,
+            closedAt:  room.closedAt,
+            signature: room.closedSignature,
+        }
+        await control.send(roomId, ROOM_CLOSURE, notice).catch(err =>
+            console.warn(`[GExchange] Failed to announce closure of ${roomId.slice(0, 8)}…:`, err))
+    }
+
+    async function closeRoom(roomId: string, reason: string) {
+        const room = _room(roomId)
+        if (room.isClosed) return
+        if (!can(room, 'close')) throw new Error('Only the room owner can close the room')
+        if (!sdk.p2pSign) throw new Error('Signing is not available')
+
+        const notice = { roomId, reason: reason.trim().slice(0, MAX_REASON_LENGTH), closedAt: Date.now() }
+        const signature = await sdk.p2pSign(canonicalClosure(notice))
+
+        await updateRoomConfig(roomId, {
+            isClosed:        true,
+            closedReason:    notice.reason,
+            closedAt:        notice.closedAt,
+            closedSignature: signature,
+        })
+        await announceClosure(roomId)
+    }
+
+    async function _handle(notice: ClosureNotice, scopeId: string): Promise<boolean> {
+        const room = rooms.value.find(r => r.roomId === scopeId)
+        if (!room || room.isClosed || room.isOwner) return false
+        if (notice.roomId !== room.roomId) return false
+
+        const owner = roomOwner(room, identity.value)
+        if (!owner || !sdk.p2pVerify) return false
+        const valid = await sdk.p2pVerify(owner.publicKey, canonicalClosure(notice), notice.signature).catch(() => false)
+        if (!valid) {
+            console.warn(`[GExchange] Closure notice for ${scopeId.slice(0, 8)}… is not from the room owner — ignored`)
+            return false
+        }
+
+        await updateRoomConfig(room.roomId, {
+            isClosed:        true,
+            closedReason:    notice.reason.slice(0, MAX_REASON_LENGTH),
+            closedAt:        notice.closedAt,
+            closedSignature: notice.signature,
+        })
+        await disposeChannel(room.roomId)
+        return true
+    }
+
+    // ── Leave ─────────────────────────────────────────────────────────────
+
+    async function leaveRoom(roomId: string, options: { purgeFiles?: boolean } = {}) {
+        _room(roomId)
+        await disposeChannel(roomId)
+        await deleteRoom(roomId, options)
+    }
+
+    // ── Registration ──────────────────────────────────────────────────────
+
+    const _unregister = control.register(ROOM_CLOSURE, {
+        validate: _isNotice,
+        handle:   (notice, ctx) => {
+            _handle(notice, ctx.roomId).catch(err =>
+                console.warn(`[GExchange] Failed to apply closure of ${ctx.roomId.slice(0, 8)}…:`, err))
+        },
+        replay:   'signed-body',
+    })
+
+    return {
+        closeRoom,
+        leaveRoom,
+
+        announceClosure,
+        dispose: _unregister,
+    }
+}
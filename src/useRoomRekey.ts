@@ -0,0 +1,246 @@
+// src/widgets/gexchange/useRoomRekey.ts
+//
+// Room session secret rotation.
+//
+// RESPONSIBILITIES:
+//   - Rotate (owner): generate a new sessionSecret, sign a rekey notice and
+//     send it to the recipients only, store the new secret and have ChatRoom
+//     re-create the channel with it
+//   - Catch-up: the owner keeps listening on previous secrets for
+//     CATCH_UP_MS. Only members known at rotation time (and not banned) may
+//     connect there; each one is handed the latest notice on join
+//   - Apply notices from the owner: verify the signature, store the new
+//     secret and re-create the channel
+//
+// DELIVERY:
+//   A notice carries the new secret, so it travels as a ROOM_REKEY control
+//   message directed at the recipients and marked ephemeral: removed or
+//   banned peers linked at the time never receive it, and no chat history —
+//   ours or theirs — keeps a copy to replay.
+//   - Member bookkeeping (owner): remember who has been in the room, so
+//     members who were offline during a rotation are still let in to catch up
+//
+// WHY ROTATE:
+//   The sessionSecret is what an invite hands out. Until it changes, anyone
+//   who ever held an invite can rejoin — banning only refuses them at the
+//   owner's and admins' canConnect.
+
+import type { Ref } from 'vue'
+import type { UseChannelReturn, WidgetSdk } from 'gexplorer/widgets'
+import type { UseControlMessagesReturn } from './useControlMessages'
+import type { Identity } from './useIdentity'
+import type { Room, RoomConfigPatch } from './useRooms'
+import { roomOwner } from './useMembership'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface RekeyNotice {
+    roomId:        string
+    /** Increases with every rotation; older notices are ignored. */
+    epoch:         number
+    sessionSecret: string
+    issuedAt:      number
+    signature:     string
+}
+
+/** Owner-side rotation state, persisted in RoomConfig.rekey. */
+export interface RoomRekeyState {
+    /** Latest notice — re-sent to members catching up. */
+    notice:     RekeyNotice
+    /** userIds allowed onto the catch-up channels. */
+    recipients: string[]
+    /** Secrets still served for catch-up, newest first. */
+    previous:   { sessionSecret: string; expiresAt: number }[]
+}
+
+export interface UseRoomRekeyOptions {
+    sdk:              WidgetSdk
+    rooms:            Ref<Room[]>
+    identity:         Ref<Identity | null>
+    control:          UseControlMessagesReturn
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+    getChannel:       (roomId: string) => UseChannelReturn | undefined
+    isBanned:         (room: Room, peer: { userId: string; publicKey?: string }) => boolean
+    /** Dispose the room's channels and open them again from the stored config. */
+    recreateChannel:  (roomId: string) => Promise<void>
+}
+
+export interface UseRoomRekeyReturn {
+    /** Owner only. Returns once the room runs on the new secret. */
+    rotateSecret:      (roomId: string) => Promise<void>
+
+    /** Owner: record a member seen in the room. */
+    noteMember:        (roomId: string, userId: string) => void
+    /** Previous secrets the owner still serves for catch-up. */
+    catchUpSecrets:    (room: Room) => string[]
+    /** canConnect for catch-up channels. */
+    mayCatchUp:        (room: Room, peer: { userId: string; publicKey?: string }) => boolean
+    /** Hand the latest notice to a peer that joined a catch-up channel. */
+    announceRekey:     (roomId: string, channel: UseChannelReturn, userId: string) => Promise<void>
+
+    dispose:           () => void
+}
+
+export const ROOM_REKEY = 'room.rekey'
+
+/** How long the owner keeps serving an old secret to members catching up. */
+const CATCH_UP_MS = 7 * 24 * 60 * 60 * 1000
+
+function canonicalRekey(n: Omit<RekeyNotice, 'signature'>): string {
+    return JSON.stringify({
+        type:          'room-rekey',
+        roomId:        n.roomId,
+        epoch:         n.epoch,
+        sessionSecret: n.sessionSecret,
+        issuedAt:      n.issuedAt,
+    })
+}
+
+function _isNotice(value: any): value is RekeyNotice {
+    return typeof value?.roomId === 'string'
+        && Number.isInteger(value.epoch)
+        && typeof value.sessionSecret === 'string'
+        && typeof value.issuedAt === 'number'
+        && typeof value.signature === 'string'
+}
+
+function _generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    return btoa(String.fromCharCode(...bytes))
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useRoomRekey(options: UseRoomRekeyOptions): UseRoomRekeyReturn {
+    const { sdk, rooms, identity, control, updateRoomConfig, getChannel, isBanned, recreateChannel } = options
+
+    // ── Members ───────────────────────────────────────────────────────────
+
+    function noteMember(roomId: string, userId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room?.isOwner || userId === identity.value?.userId) return
+        if (room.memberIds?.includes(userId)) return
+        updateRoomConfig(roomId, { memberIds: [...(room.memberIds ?? []), userId] }).catch(err =>
+            console.warn(`[GExchange] Failed to record member of ${roomId.slice(0, 8)}…:`, err))
+    }
+
+    function _eligible(room: Room): string[] {
+        const ids = new Set<string>([
+            ...(room.memberIds ?? []),
+            ...(room.approvedPeers ?? []).map(p => p.userId),
+            ...Object.keys(room.membership?.doc.roles ?? {}),
+            ...(getChannel(room.roomId)?.peers.value.keys() ?? []),
+        ])
+        ids.delete(identity.value?.userId ?? '')
+        return [...ids].filter(userId => !isBanned(room, { userId }))
+    }
+
+    // ── Catch-up ──────────────────────────────────────────────────────────
+
+    function catchUpSecrets(room: Room): string[] {
+        if (!room.isOwner || !room.rekey) return []
+        const now = Date.now()
+        return room.rekey.previous.filter(p => p.expiresAt > now).map(p => p.sessionSecret)
+    }
+
+    function mayCatchUp(room: Room, peer: { userId: string; publicKey?: string }): boolean {
+        return !!room.rekey?.recipients.includes(peer.userId) && !isBanned(room, peer)
+    }
+
+    async function announceRekey(roomId: string, channel: UseChannelReturn, userId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room?.rekey || !mayCatchUp(room, { userId })) return
+        await control.send(roomId, ROOM_REKEY, room.rekey.notice, { to: [userId], ephemeral: true, channel }).catch(err =>
+            console.warn(`[GExchange] Failed to send rekey for ${roomId.slice(0, 8)}…:`, err))
+    }
+
+    // ── Rotate ────────────────────────────────────────────────────────────
+
+    async function rotateSecret(roomId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) throw new Error(`Unknown room ${roomId}`)
+        if (!room.isOwner) throw new Error('Only the room owner can rotate the room secret')
+        if (room.isClosed) throw new Error('Closed rooms cannot be rekeyed')
+        if (!sdk.p2pSign) throw new Error('Signing is not available')
+
+        const unsigned = {
+            roomId,
+            epoch:         (room.secretEpoch ?? 0) + 1,
+            sessionSecret: _generateSecret(),
+            issuedAt:      Date.now(),
+        }
+        const notice: RekeyNotice = { ...unsigned, signature: await sdk.p2pSign(canonicalRekey(unsigned)) }
+        const recipients = _eligible(room)
+
+        // Recipients linked right now get the new secret first; the rest catch up
+        if (recipients.length > 0 && getChannel(roomId))
+            await control.send(roomId, ROOM_REKEY, notice, { to: recipients, ephemeral: true }).catch(err =>
+                console.warn(`[GExchange] Failed to send rekey for ${roomId.slice(0, 8)}…:`, err))
+
+        const now = Date.now()
+        const previous = [
+            { sessionSecret: room.sessionSecret, expiresAt: now + CATCH_UP_MS },
+            ...(room.rekey?.previous ?? []),
+        ].filter(p => p.expiresAt > now)
+
+        await updateRoomConfig(roomId, {
+            sessionSecret: notice.sessionSecret,
+            secretEpoch:   notice.epoch,
+            rekey:         { notice, recipients, previous },
+        })
+        await recreateChannel(roomId)
+    }
+
+    // ── Apply ─────────────────────────────────────────────────────────────
+
+    // One notice at a time — copies from the room and a catch-up channel
+    // must not both re-create the channel
+    let _incoming: Promise<unknown> = Promise.resolve()
+
+    function _receive(notice: RekeyNotice, scopeId: string) {
+        _incoming = _incoming.then(() => _handle(notice, scopeId)).catch(err =>
+            console.warn(`[GExchange] Failed to apply rekey for ${scopeId.slice(0, 8)}…:`, err))
+    }
+
+    async function _handle(notice: RekeyNotice, scopeId: string): Promise<boolean> {
+        const room = rooms.value.find(r => r.roomId === scopeId)
+        if (!room || room.isOwner || room.isClosed) return false
+        if (notice.roomId !== room.roomId) return false
+        if (notice.epoch <= (room.secretEpoch ?? 0)) return false
+
+        const owner = roomOwner(room, identity.value)
+        if (!owner || !sdk.p2pVerify) return false
+        const { signature, ...unsigned } = notice
+        const valid = await sdk.p2pVerify(owner.publicKey, canonicalRekey(unsigned), signature).catch(() => false)
+        if (!valid) {
+            console.warn(`[GExchange] Rekey for ${scopeId.slice(0, 8)}… is not from the room owner — ignored`)
+            return false
+        }
+
+        await updateRoomConfig(room.roomId, {
+            sessionSecret: notice.sessionSecret,
+            secretEpoch:   notice.epoch,
+        })
+        await recreateChannel(room.roomId)
+        console.log(`[GExchange] Room ${scopeId.slice(0, 8)}… moved to secret epoch ${notice.epoch}`)
+        return true
+    }
+
+    // ── Registration ──────────────────────────────────────────────────────
+
+    const _unregister = control.register(ROOM_REKEY, {
+        validate: _isNotice,
+        handle:   (notice, ctx) => _receive(notice, ctx.roomId),
+    })
+
+    return {
+        rotateSecret,
+
+        noteMember,
+        catchUpSecrets,
+        mayCatchUp,
+        announceRekey,
+
+        dispose: _unregister,
+    }
+}
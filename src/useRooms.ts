@@ -6,10 +6,16 @@
 //   - Vault open/close (owns the vault lifecycle)
 //   - Load/save room configs from the encrypted vault
 //   - Create rooms (generates secret, derives roomId, saves config)
-//   - Join rooms via invite token
-//   - Generate/copy invite tokens
+//   - Join rooms via invite token or gexchange://join/<token> deep link
+//   - Generate/copy invite tokens; keep a record of every invite issued
+//     (uses, redemptions, revocation) — the gate lives in useRoomAccess
 //   - Local display name overrides (localStorage)
 //   - Room rename
+//   - Per-room preferences — notification level, pin, order, read position (localStorage)
+//   - Config updates for other composables (updateRoomConfig)
+//   - Forget rooms (deleteRoom — config blob, optionally the room's files)
+//   - Restore rooms from a backup (restoreRooms — archive format in useBackup)
+//   - Split the picker into open and archived (closed) rooms
 //
 // NOTE ON VAULT SCOPE:
 //   The vault token is intentionally exposed so that the file-sharing layer
@@ -21,13 +27,46 @@
 //   sdk      — needs P2P + SecureStorage caps
 //   identity — needed for doCreateRoom (derives roomId from publicKey)
 
-import { ref, computed, nextTick, watch, type Ref } from 'vue'
+import { ref, computed, nextTick, watch, type ComputedRef, type Ref } from 'vue'
 import { startRename } from 'gexplorer/widgets'
 import type { WidgetSdk } from 'gexplorer/widgets'
 import type { Identity } from './useIdentity'
+import { roomOwner, type SignedMembership } from './useMembership'
+import type { RoomRekeyState } from './useRoomRekey'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
+/** A peer let in through an invite. */
+export interface InviteRedemption {
+    userId:    string
+    username?: string
+    at:        number
+}
+
+/** An invite issued from this device, kept for the invite list and the gate. */
+export interface RoomInvite {
+    /** Random id carried in the token; joiners present it as their presence ticket. */
+    inviteId:     string
+    token:        string
+    createdAt:    number
+    expiresAt:    number
+    /** 0 = unlimited. */
+    maxUses:      number
+    description?: string
+    revokedAt?:   number
+    redemptions:  InviteRedemption[]
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'used-up'
+
+/** A peer remembered in a room's access lists. */
+export interface RoomPeerRef {
+    userId:     string
+    publicKey?: string
+    username?:  string
+    at:         number
+}
+
 export interface RoomConfig {
     roomId:        string
     canonicalName: string
@@ -37,9 +76,16 @@ export interface RoomConfig {
     isAdmin:       boolean
     isClosed:      boolean
     closedReason:  string
+    /** When the owner closed the room. Set together with isClosed. */
+    closedAt?:       number
+    /** Owner's p2pSign over the closure notice (useRoomLifecycle). */
+    closedSignature?: string
     accessPointId: string
     blobSha256:    string
 
+    /** Optional short description, set by the owner and carried in invites. */
+    description?:  string
+
     /**
      * Stable room-owner identity hint, captured from the invite.
      *
@@ -52,12 +98,62 @@ export interface RoomConfig {
      */
     bootstrapUserId?:    string
     bootstrapPublicKey?: string
+
+    /**
+     * The room owner's identity, carried in the invite's metadata — the
+     * inviter may be an admin. Membership, closure and rekey documents must be
+     * signed by it. Undefined for rooms we own; rooms joined through older
+     * invites fall back to bootstrapUserId (see roomOwner in useMembership).
+     */
+    ownerUserId?:        string
+    ownerPublicKey?:     string
+
+    /** Refused by canConnect. Managed by the owner and admins (useRoomAccess). */
+    bannedPeers?:      RoomPeerRef[]
+    /** When set, unknown peers wait for owner/admin approval before connecting. */
+    approvalRequired?: boolean
+    /** Peers an owner/admin let in while approvalRequired was on. */
+    approvedPeers?:    RoomPeerRef[]
+
+    /** Latest verified owner-signed role assignments (useMembership). */
+    membership?:       SignedMembership
+
+    /** Rotation count of sessionSecret; undefined until the first rekey. */
+    secretEpoch?:      number
+    /** Owner only: userIds seen in the room — rekey catch-up candidates. */
+    memberIds?:        string[]
+    /** Owner only: latest rekey and the old secrets still served (useRoomRekey). */
+    rekey?:            RoomRekeyState
+
+    /** Invites issued from this device, newest first. */
+    invites?:          RoomInvite[]
+    /** Joined rooms: the invite we joined with, sent as our presence ticket. */
+    inviteId?:         string
 }
 
+/** A RoomConfig as sealed in the vault — the access point fields come from the entry. */
+export type StoredRoomConfig = Omit<RoomConfig, 'accessPointId' | 'blobSha256'>
+
+/** Fields other composables may change through updateRoomConfig. */
+export type RoomConfigPatch = Partial<Omit<RoomConfig, 'roomId' | 'accessPointId' | 'blobSha256'>>
+
 export interface Room extends RoomConfig {
     displayName: string
 }
 
+/** Per-device room preferences — kept out of the config blob, replicated by useDeviceSync. */
+export interface RoomPrefs {
+    /** Notification level — unset means mentions only (useNotifications). */
+    notify?:     'all' | 'mentions' | 'muted'
+    /** Muted until this time, whatever the level. */
+    mutedUntil?: number
+    pinned?:     boolean
+    /** sentAt of the newest message seen in the room. */
+    readAt?:     number
+    /** Position in the picker's manual order. */
+    order?:      number
+}
+
 // ── Local name storage ────────────────────────────────────────────────────────
 
 const LOCAL_NAMES_KEY = 'gexchange:roomDisplayNames'
@@ -70,11 +166,77 @@ function saveLocalNames(names: Record<string, string>) {
     localStorage.setItem(LOCAL_NAMES_KEY, JSON.stringify(names))
 }
 
+// ── Room preference storage ───────────────────────────────────────────────────
+
+const ROOM_PREFS_KEY = 'gexchange:roomPrefs'
+
+function loadRoomPrefs(): Record<string, RoomPrefs> {
+    let prefs: Record<string, RoomPrefs & { muted?: boolean }>
+    try { prefs = JSON.parse(localStorage.getItem(ROOM_PREFS_KEY) ?? '{}') } catch { return {} }
+    // The old mute switch became the 'muted' level
+    for (const p of Object.values(prefs)) {
+        if (!('muted' in p)) continue
+        if (p.muted) p.notify = 'muted'
+        delete p.muted
+    }
+    return prefs
+}
+
+function saveRoomPrefs(prefs: Record<string, RoomPrefs>) {
+    localStorage.setItem(ROOM_PREFS_KEY, JSON.stringify(prefs))
+}
+
 function applyDisplayNames(configs: RoomConfig[]): Room[] {
     const localNames = loadLocalNames()
     return configs.map(r => ({ ...r, displayName: localNames[r.roomId] ?? r.canonicalName }))
 }
 
+// ── Invites ───────────────────────────────────────────────────────────────────
+
+/** Metadata keys carried in invite tokens (p2pCreateInvite metadata). */
+const INVITE_META = {
+    name:        'room',
+    description: 'description',
+    inviteId:    'invite',
+    ownerId:     'owner',
+    ownerKey:    'ownerKey',
+} as const
+
+/** Oldest records past their use are dropped beyond this many per room. */
+const MAX_INVITE_RECORDS = 50
+
+const MAX_DESCRIPTION_LENGTH = 200
+
+/** Deep-link form of an invite; entry.ts declares the 'join/' link. */
+export const JOIN_LINK_PREFIX = 'gexchange://join/'
+
+export function inviteLink(token: string): string {
+    return JOIN_LINK_PREFIX + encodeURIComponent(token)
+}
+
+/** Accepts a bare token or a join link, as pasted or activated. */
+export function inviteTokenFrom(text: string): string {
+    const value = text.trim()
+    if (!value.toLowerCase().startsWith(JOIN_LINK_PREFIX)) return value
+    const token = value.slice(JOIN_LINK_PREFIX.length).replace(/\/+$/, '')
+    try { return decodeURIComponent(token) } catch { return token }
+}
+
+export function inviteStatus(invite: RoomInvite, now = Date.now()): InviteStatus {
+    if (invite.revokedAt) return 'revoked'
+    if (invite.maxUses > 0 && invite.redemptions.length >= invite.maxUses) return 'used-up'
+    if (now >= invite.expiresAt) return 'expired'
+    return 'active'
+}
+
+function _pruneInvites(invites: RoomInvite[]): RoomInvite[] {
+    if (invites.length <= MAX_INVITE_RECORDS) return invites
+    const now  = Date.now()
+    const keep = new Set(invites.filter(i => inviteStatus(i, now) === 'active'))
+    for (const i of invites) if (keep.size < MAX_INVITE_RECORDS) keep.add(i)
+    return invites.filter(i => keep.has(i))
+}
+
 // ── Options ───────────────────────────────────────────────────────────────────
 
 export interface UseRoomsOptions {
@@ -102,7 +264,10 @@ export interface UseRoomsReturn {
     // ── Room picker ────────────────────────────────────────────────────────
     roomFilter:       Ref<string>
     pickerOpen:       Ref<boolean>
+    /** Open rooms matching roomFilter. */
     filteredRooms:    ReturnType<typeof computed<Room[]>>
+    /** Closed rooms matching roomFilter — read-only history. */
+    archivedRooms:    ComputedRef<Room[]>
     canCreate:        ReturnType<typeof computed<boolean>>
     togglePicker:     () => void
     closePicker:      () => void
@@ -118,21 +283,62 @@ export interface UseRoomsReturn {
     openInItems:       () => void
     focusCreateField:  () => void
     renameRoom:        (room: Room) => void
+    /** Set or clear (null) this device's display name for a room. */
+    setDisplayName:    (roomId: string, name: string | null) => void
     /**
     * Create a room with an explicit name — no user input required.
     * Used by ChatRoom.vue when creating private rooms from the participant list.
     * Returns the created Room so the caller can generate invites immediately.
     */
     createNamedRoom: (name: string) => Promise<Room>
+    /**
+     * Persist a change to a room's config and apply it to the loaded room
+     * objects in place (activeRoom keeps its identity, so no room switch).
+     * Writes are serialised, so concurrent patches never drop each other.
+     */
+    updateRoomConfig: (roomId: string, patch: RoomConfigPatch) => Promise<Room>
+    /**
+     * Forget a room on this device: deletes its config blob and local display
+     * name, and with purgeFiles every file sealed under gexchange://{roomId}/.
+     * The caller disposes the room's channel first.
+     */
+    deleteRoom: (roomId: string, options?: { purgeFiles?: boolean }) => Promise<void>
+    /**
+     * Add rooms from a backup. Rooms already here win, like the roomId dedup
+     * in _loadRooms; so do local display names. Returns the rooms added.
+     */
+    restoreRooms: (configs: StoredRoomConfig[], displayNames?: Record<string, string>) => Promise<Room[]>
+
+    // ── Preferences ────────────────────────────────────────────────────────
+    /** roomId → preferences on this device. */
+    roomPrefs:    Ref<Record<string, RoomPrefs>>
+    /** Merge into a room's preferences; undefined fields are removed. */
+    setRoomPrefs: (roomId: string, patch: Partial<RoomPrefs>) => void
 
     // ── Invite ─────────────────────────────────────────────────────────────
     inviteToken:    Ref<string>
     inviteExpiry:   Ref<number>
+    /** Max uses for the next generated invite; 0 = unlimited. */
+    inviteMaxUses:  Ref<number>
+    inviteDescription: Ref<string>
     inviteCopied:   Ref<boolean>
+    inviteLinkCopied: Ref<boolean>
     inviteError:    Ref<string>
     showInvitePanel: Ref<boolean>
     generateInvite: () => Promise<void>
     copyInvite:     () => Promise<void>
+    copyInviteLink: () => Promise<void>
+    /**
+     * Issue an invite for a room and record it in the room's config.
+     * The token carries the canonical name and description.
+     */
+    createInvite:   (roomId: string, options: {
+        validityMinutes: number
+        maxUses?:        number
+        description?:    string
+    }) => Promise<RoomInvite>
+    /** Stop an invite from letting anyone new in. */
+    revokeInvite:   (roomId: string, inviteId: string) => Promise<void>
 
     // ── Join modal ─────────────────────────────────────────────────────────
     showJoinModal:  Ref<boolean>
@@ -141,6 +347,8 @@ export interface UseRoomsReturn {
     joinLoading:    Ref<boolean>
     joinRoom:       () => Promise<void>
     closeJoinModal: () => void
+    /** Open the join modal pre-filled from an activated join link. */
+    openJoinLink:   (url: string) => void
 
     // ── Lifecycle ───────────────────────────────────────────────────────────
     /** Call from onMounted — opens vault and loads rooms. */
@@ -170,6 +378,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
     const activeRoom     = ref<Room | null>(null)
     const loading        = ref(false)
     const vaultToken     = ref<string | null>(null)
+    const roomPrefs      = ref<Record<string, RoomPrefs>>(loadRoomPrefs())
 
     const roomFilter      = ref('')
     const pickerOpen      = ref(false)
@@ -179,7 +388,10 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
 
     const inviteToken    = ref('')
     const inviteExpiry   = ref(15)
+    const inviteMaxUses  = ref(0)
+    const inviteDescription = ref('')
     const inviteCopied   = ref(false)
+    const inviteLinkCopied = ref(false)
     const inviteError    = ref('')
     const showInvitePanel = ref(false)
 
@@ -190,7 +402,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
 
     // ── Computed ──────────────────────────────────────────────────────────
 
-    const filteredRooms = computed(() => {
+    const _matchingRooms = computed(() => {
         const q = roomFilter.value.trim().toLowerCase()
         if (!q) return rooms.value
         return rooms.value.filter(r =>
@@ -200,6 +412,9 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         )
     })
 
+    const filteredRooms = computed(() => _matchingRooms.value.filter(r => !r.isClosed))
+    const archivedRooms = computed(() => _matchingRooms.value.filter(r => r.isClosed))
+
     const canCreate = computed(() => {
         const q = roomFilter.value.trim()
         return q.length > 0 && !rooms.value.some(r => r.canonicalName === q)
@@ -262,8 +477,10 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         }
     }
 
+    const _configPath = (roomId: string) => `gexchange://config/${roomId}.room.json`
+
     async function _saveRoomConfig(
-        config: Omit<RoomConfig, 'accessPointId' | 'blobSha256'>,
+        config: StoredRoomConfig,
         existingAccessPointId?: string   // pass when updating, omit when creating
     ): Promise<{ accessPointId: string; blobSha256: string }> {
         if (!vaultToken.value || !vaultSealContentAs)
@@ -282,7 +499,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
 
         const json    = JSON.stringify(config, null, 2)
         const content = btoa(unescape(encodeURIComponent(json)))
-        const vpath   = `gexchange://config/${config.roomId}.room.json`
+        const vpath   = _configPath(config.roomId)
         const ap      = await vaultSealContentAs(vaultToken.value, content, vpath)
         return { accessPointId: ap.accessPointId, blobSha256: ap.blobSha256 }
     }
@@ -357,13 +574,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         startRename(`gex-room-${room.roomId}`, {
             onCommit: (newName) => {
                 if (!newName.trim()) return
-                const localNames        = loadLocalNames()
-                localNames[room.roomId] = newName.trim()
-                saveLocalNames(localNames)
-                const r = rooms.value.find(x => x.roomId === room.roomId)
-                if (r) r.displayName = newName.trim()
-                if (activeRoom.value?.roomId === room.roomId)
-                    activeRoom.value = { ...activeRoom.value, displayName: newName.trim() }
+                setDisplayName(room.roomId, newName.trim())
             },
             onCancel:  () => {},
             selectAll: true,
@@ -371,6 +582,20 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         })
     }
 
+    function setDisplayName(roomId: string, name: string | null) {
+        const localNames = loadLocalNames()
+        if (name) localNames[roomId] = name
+        else delete localNames[roomId]
+        saveLocalNames(localNames)
+
+        const r = rooms.value.find(x => x.roomId === roomId)
+        const displayName = name ?? r?.canonicalName
+        if (!displayName) return
+        if (r) r.displayName = displayName
+        if (activeRoom.value?.roomId === roomId)
+            activeRoom.value = { ...activeRoom.value, displayName }
+    }
+
    async function createNamedRoom(name: string): Promise<Room> {
        await _doCreateRoom(name)
        // _doCreateRoom pushes the new room and selects it —
@@ -380,19 +605,182 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
        return room
    }
 
+    let _configWrites: Promise<unknown> = Promise.resolve()
+
+    function updateRoomConfig(roomId: string, patch: RoomConfigPatch): Promise<Room> {
+        const write = _configWrites.then(async () => {
+            const room = rooms.value.find(r => r.roomId === roomId)
+            if (!room) throw new Error(`updateRoomConfig: unknown room ${roomId}`)
+
+            const { displayName: _name, accessPointId, blobSha256: _sha, ...current } = room
+            const config = { ...current, ...patch }
+            const saved  = await _saveRoomConfig(config, accessPointId)
+
+            Object.assign(room, patch, saved)
+            if (activeRoom.value?.roomId === roomId && activeRoom.value !== room)
+                Object.assign(activeRoom.value, patch, saved)
+            return room
+        })
+        _configWrites = write.catch(() => {})
+        return write
+    }
+
+    function deleteRoom(roomId: string, options: { purgeFiles?: boolean } = {}): Promise<void> {
+        const write = _configWrites.then(async () => {
+            const room = rooms.value.find(r => r.roomId === roomId)
+            if (!room) return
+            if (!vaultToken.value || !sdk.vaultDelete) throw new Error('Vault not open')
+
+            // Every stored copy — a ghost left by a failed update would bring the room back
+            const configPath = _configPath(roomId)
+            const copies = vaultList
+                ? (await vaultList(vaultToken.value, 'gexchange://config/'))
+                    .filter(entry => entry.vpath === configPath)
+                    .map(entry => entry.accessPointId)
+                : []
+            for (const accessPointId of new Set([room.accessPointId, ...copies]))
+                await sdk.vaultDelete(vaultToken.value, accessPointId)
+
+            if (options.purgeFiles && vaultList) {
+                for (const file of await vaultList(vaultToken.value, `gexchange://${roomId}/`)) {
+                    await sdk.vaultDelete(vaultToken.value, file.accessPointId).catch(err =>
+                        console.warn('[GExchange] Failed to delete room file:', file.vpath, err))
+                }
+            }
+
+            const localNames = loadLocalNames()
+            if (roomId in localNames) {
+                delete localNames[roomId]
+                saveLocalNames(localNames)
+            }
+            if (roomId in roomPrefs.value) {
+                const { [roomId]: _gone, ...rest } = roomPrefs.value
+                roomPrefs.value = rest
+                saveRoomPrefs(rest)
+            }
+
+            rooms.value = rooms.value.filter(r => r.roomId !== roomId)
+            if (activeRoom.value?.roomId === roomId) {
+                const next = rooms.value.find(r => !r.isClosed)
+                if (next) selectRoom(next)
+                else activeRoom.value = null
+            }
+        })
+        _configWrites = write.catch(() => {})
+        return write
+    }
+
+    function restoreRooms(configs: StoredRoomConfig[], displayNames: Record<string, string> = {}): Promise<Room[]> {
+        const write = _configWrites.then(async () => {
+            const added: Room[] = []
+            const localNames = loadLocalNames()
+
+            for (const config of configs) {
+                if (rooms.value.some(r => r.roomId === config.roomId)) continue
+                const { accessPointId, blobSha256 } = await _saveRoomConfig(config)
+
+                const name = displayNames[config.roomId]
+                if (name && !(config.roomId in localNames)) localNames[config.roomId] = name
+
+                const room: Room = {
+                    ...config,
+                    accessPointId,
+                    blobSha256,
+                    displayName: localNames[config.roomId] ?? config.canonicalName,
+                }
+                rooms.value.push(room)
+                added.push(room)
+            }
+
+            saveLocalNames(localNames)
+            return added
+        })
+        _configWrites = write.catch(() => {})
+        return write
+    }
+
+    // ── Preferences ───────────────────────────────────────────────────────
+
+    function setRoomPrefs(roomId: string, patch: Partial<RoomPrefs>) {
+        const next: RoomPrefs = { ...roomPrefs.value[roomId], ...patch }
+        for (const key of Object.keys(next) as (keyof RoomPrefs)[])
+            if (next[key] === undefined) delete next[key]
+        roomPrefs.value = { ...roomPrefs.value, [roomId]: next }
+        saveRoomPrefs(roomPrefs.value)
+    }
+
     // ── Invite ────────────────────────────────────────────────────────────
 
+    async function createInvite(
+        roomId: string,
+        options: { validityMinutes: number; maxUses?: number; description?: string },
+    ): Promise<RoomInvite> {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        if (!room) throw new Error(`Unknown room ${roomId}`)
+        if (room.isClosed) throw new Error('Closed rooms cannot be joined')
+        if (!p2pCreateInvite) throw new Error('Invites are not available')
+
+        const inviteId    = _randomId()
+        const description = (options.description ?? room.description ?? '').trim().slice(0, MAX_DESCRIPTION_LENGTH)
+        const metadata: Record<string, string> = {
+            [INVITE_META.name]:     room.canonicalName,
+            [INVITE_META.inviteId]: inviteId,
+        }
+        if (description) metadata[INVITE_META.description] = description
+
+        // Admins invite too — joiners must still know whose signature counts
+        const owner = roomOwner(room, identity.value)
+        if (!owner) throw new Error('The room owner is not known on this device')
+        metadata[INVITE_META.ownerId]  = owner.userId
+        metadata[INVITE_META.ownerKey] = owner.publicKey
+
+        const createdAt = Date.now()
+        const result    = await p2pCreateInvite(roomId, {
+            sessionSecret:   room.sessionSecret,
+            validityMinutes: options.validityMinutes,
+            metadata,
+        })
+
+        const invite: RoomInvite = {
+            inviteId,
+            token:       result.token,
+            createdAt,
+            expiresAt:   createdAt + options.validityMinutes * 60_000,
+            maxUses:     Math.max(0, Math.floor(options.maxUses ?? 0)),
+            ...(description ? { description } : {}),
+            redemptions: [],
+        }
+        // The description doubles as the room's — later invites reuse it
+        await updateRoomConfig(roomId, {
+            invites: _pruneInvites([invite, ...(room.invites ?? [])]),
+            ...(description !== (room.description ?? '') ? { description } : {}),
+        })
+        return invite
+    }
+
+    async function revokeInvite(roomId: string, inviteId: string) {
+        const room = rooms.value.find(r => r.roomId === roomId)
+        const invite = room?.invites?.find(i => i.inviteId === inviteId)
+        if (!room || !invite) throw new Error('Unknown invite')
+        if (invite.revokedAt) return
+        await updateRoomConfig(roomId, {
+            invites: room.invites!.map(i => i.inviteId === inviteId ? { ...i, revokedAt: Date.now() } : i),
+        })
+        if (inviteToken.value === invite.token) inviteToken.value = ''
+    }
+
     async function generateInvite() {
         if (!activeRoom.value || !p2pCreateInvite) return
         inviteError.value  = ''
         inviteToken.value  = ''
         inviteCopied.value = false
         try {
-            const result      = await p2pCreateInvite(activeRoom.value.roomId, {
-                sessionSecret:   activeRoom.value.sessionSecret,
+            const invite      = await createInvite(activeRoom.value.roomId, {
                 validityMinutes: inviteExpiry.value,
+                maxUses:         inviteMaxUses.value,
+                description:     inviteDescription.value,
             })
-            inviteToken.value = result.token
+            inviteToken.value = invite.token
         } catch (err: any) {
             inviteError.value = err.message
         }
@@ -407,16 +795,31 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         } catch { }
     }
 
+    async function copyInviteLink() {
+        if (!inviteToken.value) return
+        try {
+            await navigator.clipboard.writeText(inviteLink(inviteToken.value))
+            inviteLinkCopied.value = true
+            setTimeout(() => { inviteLinkCopied.value = false }, 2000)
+        } catch { }
+    }
+
     // ── Join ──────────────────────────────────────────────────────────────
 
     async function joinRoom() {
-        const token = joinToken.value.trim()
+        const token = inviteTokenFrom(joinToken.value)
         if (!token || !p2pAcceptInvite || !identity.value) return
         joinError.value   = ''
         joinLoading.value = true
         try {
             const decoded       = await p2pAcceptInvite(token)
-            const canonicalName = decoded.sessionId
+            const meta          = decoded.metadata ?? {}
+            // Invites from before names were carried only have the roomId
+            const canonicalName = meta[INVITE_META.name]?.trim() || decoded.sessionId
+            const description   = meta[INVITE_META.description]?.trim().slice(0, MAX_DESCRIPTION_LENGTH)
+            const inviteId      = meta[INVITE_META.inviteId]
+            const ownerUserId   = meta[INVITE_META.ownerId]
+            const ownerKey      = meta[INVITE_META.ownerKey]
 
             const config: Omit<RoomConfig, 'accessPointId' | 'blobSha256'> = {
                 roomId:        decoded.sessionId,
@@ -427,10 +830,14 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
                 isAdmin:       false,
                 isClosed:      false,
                 closedReason:  '',
+                ...(description ? { description } : {}),
+                ...(inviteId ? { inviteId } : {}),
                 // Persisted room-owner identity hint.
                 // Safe to keep: this is userId/publicKey, not a network endpoint.
                 bootstrapUserId:    decoded.userId,
                 bootstrapPublicKey: decoded.publicKey,
+                // Invites from before the owner was carried were the owner's own
+                ...(ownerUserId && ownerKey ? { ownerUserId, ownerPublicKey: ownerKey } : {}),
             }
 
             const { accessPointId, blobSha256 } = await _saveRoomConfig(config)
@@ -452,6 +859,14 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         joinError.value     = ''
     }
 
+    function openJoinLink(url: string) {
+        const token = inviteTokenFrom(url)
+        if (!token) return
+        joinToken.value     = token
+        joinError.value     = ''
+        showJoinModal.value = true
+    }
+
     // ── Picker ────────────────────────────────────────────────────────────
 
     function togglePicker() {
@@ -493,6 +908,10 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         if (v) nextTick(() => newRoomInputRef?.value?.focus())
     })
 
+    watch([showInvitePanel, activeRoom], ([open, room]) => {
+        if (open) inviteDescription.value = room?.description ?? ''
+    })
+
     // ── Helpers ───────────────────────────────────────────────────────────
 
     function _generateSecret(): string {
@@ -500,6 +919,12 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         return btoa(String.fromCharCode(...bytes))
     }
 
+    function _randomId(): string {
+        return Array.from(crypto.getRandomValues(new Uint8Array(8)))
+            .map(b => b.toString(16).padStart(2, '0'))
+            .join('')
+    }
+
     async function _deriveRoomId(publicKey: string, name: string, createdAt: number): Promise<string> {
         const input   = `${publicKey}|${name}|${createdAt}`
         const encoded = new TextEncoder().encode(input)
@@ -519,6 +944,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         roomFilter,
         pickerOpen,
         filteredRooms,
+        archivedRooms,
         canCreate,
         togglePicker,
         closePicker,
@@ -533,15 +959,28 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         openInItems,
         focusCreateField,
         renameRoom,
+        setDisplayName,
         createNamedRoom,
+        updateRoomConfig,
+        deleteRoom,
+        restoreRooms,
+
+        roomPrefs,
+        setRoomPrefs,
 
         inviteToken,
         inviteExpiry,
+        inviteMaxUses,
+        inviteDescription,
         inviteCopied,
+        inviteLinkCopied,
         inviteError,
         showInvitePanel,
         generateInvite,
         copyInvite,
+        copyInviteLink,
+        createInvite,
+        revokeInvite,
 
         showJoinModal,
         joinToken,
@@ -549,6 +988,7 @@ export function useRooms(options: UseRoomsOptions): UseRoomsReturn {
         joinLoading,
         joinRoom,
         closeJoinModal,
+        openJoinLink,
 
         load,
         dispose,
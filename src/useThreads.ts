@@ -0,0 +1,271 @@
+// src/widgets/gexchange/useThreads.ts
+//
+// Replies, quotes and threads in the chat feed.
+//
+// RESPONSIBILITIES:
+//   - Reply-to references: a message carrying meta.replyTo shows the original
+//     as an inline quote, with a jump back to it
+//   - Threads: messages carrying meta.thread (the root message's id) leave the
+//     main feed and collapse under their root; they are read and written in a
+//     side panel
+//   - Per-thread unread counts, with read positions kept per device
+//   - The reply being composed in the main input
+//
+// COMPATIBILITY:
+//   Everything travels in ChatMessage.meta next to ordinary text, so peers on
+//   older versions show replies and thread messages as plain messages. A thread
+//   message whose root is not loaded stays in the main feed for the same reason.
+
+import { computed, ref, watch, type ComputedRef, type Ref } from 'vue'
+import type { ChatMessage } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const REPLY_TO_META = 'replyTo'
+export const THREAD_META   = 'thread'
+
+export interface ThreadSummary {
+    rootId:  string
+    replies: number
+    /** Replies from others after our read position. */
+    unread:  number
+    lastAt:  number
+    /** Display names of the people who replied, first reply first. */
+    participants: string[]
+}
+
+/**
+ * What a reply quotes: the original, or why it cannot be shown.
+ * 'missing' — the original is older than the loaded history.
+ */
+export type QuotedMessage =
+    | { state: 'loaded'; message: ChatMessage }
+    | { state: 'missing'; id: string }
+
+export interface UseThreadsOptions {
+    /** The active room's messages — main feed and threads alike. */
+    messages:  Ref<ChatMessage[]>
+    getSelfId: () => string | undefined
+}
+
+export interface UseThreadsReturn {
+    /** Messages for the main feed — thread messages with a loaded root left out. */
+    mainFeed:       ComputedRef<ChatMessage[]>
+    replyingTo:     Ref<ChatMessage | null>
+    openThreadId:   Ref<string | null>
+    threadRoot:     ComputedRef<ChatMessage | null>
+    threadMessages: ComputedRef<ChatMessage[]>
+    /** Unread thread messages across the room's threads. */
+    unreadThreads:  ComputedRef<number>
+
+    threadOf:  (rootId: string) => ThreadSummary | undefined
+    quotedOf:  (msg: ChatMessage) => QuotedMessage | undefined
+    isInThread: (msg: ChatMessage) => boolean
+
+    startReply:    (msg: ChatMessage) => void
+    cancelReply:   () => void
+    /** Meta for the main input's next message; clears the reply. */
+    takeReplyMeta: () => Record<string, string> | undefined
+    /** Meta for a message in the open thread. */
+    threadMeta:    () => Record<string, string> | undefined
+
+    openThread:  (msg: ChatMessage) => void
+    /** Open the most recently active thread with unread messages. False when none. */
+    openNextUnread: () => boolean
+    closeThread: () => void
+    /** Forget the reply and panel — on room change. */
+    reset:       () => void
+}
+
+const THREAD_READS_KEY = 'gexchange:threadReads'
+
+/** Read positions kept — the threads read most recently. */
+const MAX_THREAD_READS = 500
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function replyToOf(msg: ChatMessage): string | undefined {
+    return msg.meta?.[REPLY_TO_META] || undefined
+}
+
+export function threadIdOf(msg: ChatMessage): string | undefined {
+    return msg.meta?.[THREAD_META] || undefined
+}
+
+function _loadReads(): Record<string, number> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(THREAD_READS_KEY) ?? 'null')
+        return stored && typeof stored === 'object' ? stored : {}
+    } catch {
+        return {}
+    }
+}
+
+// ── Composable ────────────────────────────────────────────────────────────────
+
+export function useThreads(options: UseThreadsOptions): UseThreadsReturn {
+    const { messages, getSelfId } = options
+
+    const replyingTo   = ref<ChatMessage | null>(null)
+    const openThreadId = ref<string | null>(null)
+
+    // rootId → sentAt of the newest thread message read on this device
+    const _reads = ref<Record<string, number>>(_loadReads())
+
+    // ── Derived ───────────────────────────────────────────────────────────
+
+    const _byId = computed(() => new Map(messages.value.map(m => [m.id, m])))
+
+    // rootId → thread messages, oldest first (the feed is in order already)
+    const _threads = computed(() => {
+        const threads = new Map<string, ChatMessage[]>()
+        for (const m of messages.value) {
+            const rootId = threadIdOf(m)
+            if (!rootId || rootId === m.id || !_byId.value.has(rootId)) continue
+            const list = threads.get(rootId) ?? []
+            list.push(m)
+            threads.set(rootId, list)
+        }
+        return threads
+    })
+
+    const isInThread = (msg: ChatMessage) => {
+        const rootId = threadIdOf(msg)
+        return !!rootId && rootId !== msg.id && _byId.value.has(rootId)
+    }
+
+    const mainFeed = computed(() => messages.value.filter(m => !isInThread(m)))
+
+    function _readAt(rootId: string, list: ChatMessage[]): number {
+        // Our own messages mark everything before them read
+        const selfId = getSelfId()
+        let at = _reads.value[rootId] ?? 0
+        for (const m of list) if (m.senderId === selfId && m.sentAt > at) at = m.sentAt
+        return at
+    }
+
+    const _summaries = computed(() => {
+        const selfId    = getSelfId()
+        const summaries = new Map<string, ThreadSummary>()
+        for (const [rootId, list] of _threads.value) {
+            const readAt = _readAt(rootId, list)
+            summaries.set(rootId, {
+                rootId,
+                replies: list.length,
+                unread:  list.filter(m => m.senderId !== selfId && m.sentAt > readAt && !m.deletedAt).length,
+                lastAt:  list[list.length - 1].sentAt,
+                participants: [...new Set(list.map(m => m.senderName))],
+            })
+        }
+        return summaries
+    })
+
+    const unreadThreads = computed(() =>
+        [..._summaries.value.values()].reduce((sum, t) => sum + t.unread, 0))
+
+    const threadRoot = computed(() =>
+        openThreadId.value ? _byId.value.get(openThreadId.value) ?? null : null)
+
+    const threadMessages = computed(() =>
+        openThreadId.value ? _threads.value.get(openThreadId.value) ?? [] : [])
+
+    function threadOf(rootId: string): ThreadSummary | undefined {
+        return _summaries.value.get(rootId)
+    }
+
+    function quotedOf(msg: ChatMessage): QuotedMessage | undefined {
+        const id = replyToOf(msg)
+        if (!id || id === msg.id) return undefined
+        const original = _byId.value.get(id)
+        return original ? { state: 'loaded', message: original } : { state: 'missing', id }
+    }
+
+    // ── Replies ───────────────────────────────────────────────────────────
+
+    function startReply(msg: ChatMessage) {
+        replyingTo.value = msg
+    }
+
+    function cancelReply() {
+        replyingTo.value = null
+    }
+
+    function takeReplyMeta(): Record<string, string> | undefined {
+        const original = replyingTo.value
+        replyingTo.value = null
+        if (!original || original.id.startsWith('opt_')) return undefined
+        return { [REPLY_TO_META]: original.id }
+    }
+
+    // ── Threads ───────────────────────────────────────────────────────────
+
+    function threadMeta(): Record<string, string> | undefined {
+        const rootId = openThreadId.value
+        return rootId ? { [THREAD_META]: rootId } : undefined
+    }
+
+    function openThread(msg: ChatMessage) {
+        // A thread message opens its own thread, not a thread of its own
+        const rootId = isInThread(msg) ? threadIdOf(msg)! : msg.id
+        if (rootId.startsWith('opt_')) return
+        openThreadId.value = rootId
+    }
+
+    function openNextUnread(): boolean {
+        let next: ThreadSummary | undefined
+        for (const t of _summaries.value.values())
+            if (t.unread > 0 && t.lastAt >= (next?.lastAt ?? 0)) next = t
+        if (!next) return false
+        openThreadId.value = next.rootId
+        return true
+    }
+
+    function closeThread() {
+        openThreadId.value = null
+    }
+
+    function reset() {
+        replyingTo.value   = null
+        openThreadId.value = null
+    }
+
+    function _markRead(rootId: string, sentAt: number) {
+        if ((_reads.value[rootId] ?? 0) >= sentAt) return
+        const next = { ..._reads.value, [rootId]: sentAt }
+        const ids  = Object.keys(next)
+        if (ids.length > MAX_THREAD_READS) {
+            ids.sort((a, b) => next[a] - next[b])
+            for (const id of ids.slice(0, ids.length - MAX_THREAD_READS)) delete next[id]
+        }
+        _reads.value = next
+    }
+
+    // The open thread is being read
+    watch(() => [openThreadId.value, threadMessages.value[threadMessages.value.length - 1]?.sentAt] as const,
+        ([rootId, sentAt]) => { if (rootId && sentAt) _markRead(rootId, sentAt) })
+
+    watch(_reads, value => localStorage.setItem(THREAD_READS_KEY, JSON.stringify(value)))
+
+    return {
+        mainFeed,
+        replyingTo,
+        openThreadId,
+        threadRoot,
+        threadMessages,
+        unreadThreads,
+
+        threadOf,
+        quotedOf,
+        isInThread,
+
+        startReply,
+        cancelReply,
+        takeReplyMeta,
+        threadMeta,
+
+        openThread,
+        openNextUnread,
+        closeThread,
+        reset,
+    }
+}
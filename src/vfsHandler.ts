@@ -20,6 +20,8 @@
 //   never accidentally surfaces config blobs as user files.
 
 import type { WidgetSdk, AccessPointEntry } from 'gexplorer/widgets'
+import { membershipRole, roleAllows } from './useMembership'
+import type { RoomConfig } from './useRooms'
 
 // ── Vault token — shared across all VFS ops ───────────────────────────────────
 //
@@ -97,6 +99,23 @@ async function getVaultToken(sdk: WidgetSdk): Promise<string> {
     return _vaultOpenPromise
 }
 
+// ── Room permissions ──────────────────────────────────────────────────────────
+//
+// Uploads follow the room's signed membership document (see useMembership).
+// Rooms whose config can't be found are left alone — the drop target is then
+// not a room this vault knows about, and sealing under it harms nobody.
+
+async function canUploadTo(sdk: WidgetSdk, token: string, roomId: string): Promise<boolean> {
+    const configs = await sdk.vaultList!(token, 'gexchange://config/')
+    const entry   = configs.find(e => e.vpath === `gexchange://config/${roomId}.room.json`)
+    if (!entry) return true
+
+    const config: RoomConfig = JSON.parse(await sdk.vaultUnsealText!(token, entry.blobSha256))
+    const selfId = (await sdk.p2pGetIdentity?.())?.userId
+    if (!selfId) return true
+    return roleAllows(membershipRole(config, selfId, selfId), 'upload')
+}
+
 // ── Handler factory ───────────────────────────────────────────────────────────
 
 export default function createVfsHandler(sdk: WidgetSdk) {
@@ -190,6 +209,9 @@ export default function createVfsHandler(sdk: WidgetSdk) {
                              src.split(/[\\/]/).pop() || 'file'
             const vpath   = `gexchange://${roomId}/${fileName}`
 
+            if (!await canUploadTo(sdk, token, roomId))
+                return { ok: false, error: 'Your role in this room does not allow uploading files' }
+
             const ap = await sdk.vaultSealAs!(token, src, vpath)
 
             return {
@@ -0,0 +1,213 @@
+// tests/controlMessages.test.ts
+//
+// Control envelopes end to end: one useControlMessages() sends, another
+// receives — sender, room, target, schema, nonce and signature checks, and
+// which kinds replay from history.
+//
+// Signing is faked: a signature is the signer's key and the data joined, so
+// tests can forge and strip signatures without real keys.
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import { ref } from 'vue'
+import type { ChatMessage, UseChannelReturn, WidgetSdk } from 'gexplorer/widgets'
+import {
+    CONTROL_MESSAGE_TYPE,
+    isControlMessage,
+    isLegacyControlText,
+    useControlMessages,
+    type ControlContext,
+    type ControlKindSpec,
+} from '../src/useControlMessages'
+
+// ── Harness ───────────────────────────────────────────────────────────────────
+
+const ROOM = 'room-1'
+const KEYS: Record<string, string> = { alice: 'key-alice', bob: 'key-bob', carol: 'key-carol' }
+
+const fakeSig = (key: string, data: string) => `${key}|${data}`
+
+interface Peer {
+    control: ReturnType<typeof useControlMessages>
+    /** Everything this peer sent, as the room's chat stream would carry it. */
+    sent:    ChatMessage[]
+}
+
+function peer(userId: string, opts: { sign?: boolean; verify?: boolean; knownKeys?: Record<string, string> } = {}): Peer {
+    const { sign = true, verify = true, knownKeys = KEYS } = opts
+    const sent: ChatMessage[] = []
+
+    const sdk: WidgetSdk = {
+        ...(sign ? { p2pSign: async (data: string) => fakeSig(KEYS[userId], data) } : {}),
+        ...(verify ? { p2pVerify: async (key: string, data: string, sig: string) => sig === fakeSig(key, data) } : {}),
+    }
+    const channel = {
+        sendMessage: async (text: string, o: { type?: string } = {}) => {
+            const sentAt = 1000 + sent.length
+            sent.push({ id: `m${sent.length}`, scopeId: ROOM, senderId: userId, senderName: userId, text, type: o.type ?? 'text', sentAt })
+            return { sentAt }
+        },
+    } as unknown as UseChannelReturn
+
+    const control = useControlMessages({
+        sdk,
+        identity:    ref({ userId, username: userId, publicKey: KEYS[userId] }),
+        getChannel:  roomId => roomId === ROOM ? channel : undefined,
+        publicKeyOf: id => knownKeys[id],
+    })
+    return { control, sent }
+}
+
+interface Ping { n: number }
+
+const isPing = (body: unknown): body is Ping => typeof (body as Ping)?.n === 'number'
+
+function listen(p: Peer, kind = 'test.ping', spec: Partial<ControlKindSpec<Ping>> = {}) {
+    const got: { body: Ping; ctx: ControlContext }[] = []
+    p.control.register<Ping>(kind, { validate: isPing, handle: (body, ctx) => got.push({ body, ctx }), ...spec })
+    return got
+}
+
+// Handling is async (verification); timers run after every pending microtask
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+async function deliver(to: Peer, msg: ChatMessage, options?: { history?: boolean }) {
+    const taken = to.control.handle(msg, options)
+    await settle()
+    return taken
+}
+
+function tamper(msg: ChatMessage, change: (env: any) => void): ChatMessage {
+    const env = JSON.parse(msg.text)
+    change(env)
+    return { ...msg, text: JSON.stringify(env) }
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+    mock.method(console, 'warn', () => {})
+    mock.method(console, 'log', () => {})
+})
+afterEach(() => mock.restoreAll())
+
+describe('control messages', () => {
+    it('sends a typed envelope and handles it once on the other side', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const got   = listen(bob)
+
+        const { sentAt } = await alice.control.send(ROOM, 'test.ping', { n: 1 })
+        const [msg] = alice.sent
+        assert.equal(msg.type, CONTROL_MESSAGE_TYPE)
+        assert.equal(sentAt, msg.sentAt)
+
+        assert.equal(await deliver(bob, msg), true)
+        assert.equal(await deliver(bob, msg), true)
+        assert.deepEqual(got, [{
+            body: { n: 1 },
+            ctx:  { roomId: ROOM, messageId: msg.id, senderId: 'alice', senderName: 'alice', sentAt: msg.sentAt },
+        }])
+    })
+
+    it('leaves plain chat text to the feed', async () => {
+        const bob = peer('bob')
+        const text: ChatMessage = { id: 't', scopeId: ROOM, senderId: 'alice', senderName: 'alice', text: 'hi', type: 'text', sentAt: 1 }
+        assert.equal(isControlMessage(text), false)
+        assert.equal(await deliver(bob, text), false)
+        assert.ok(isLegacyControlText('__members__|{}'))
+        assert.ok(!isLegacyControlText('members'))
+    })
+
+    it('drops forged, re-keyed and unsigned envelopes when the sender key is known', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const got   = listen(bob)
+
+        await alice.control.send(ROOM, 'test.ping', { n: 1 })
+        const [msg] = alice.sent
+
+        await deliver(bob, tamper(msg, env => { env.body = { n: 2 } }))
+        await deliver(bob, tamper(msg, env => { env.key = KEYS.carol; env.nonce += 'a' }))
+        await deliver(bob, tamper(msg, env => { env.sig = ''; env.nonce += 'b' }))
+        assert.deepEqual(got, [])
+    })
+
+    it('believes unsigned envelopes only when no check is possible', async () => {
+        const quiet = peer('alice', { sign: false })
+        await quiet.control.send(ROOM, 'test.ping', { n: 1 })
+        const [msg] = quiet.sent
+        assert.equal(JSON.parse(msg.text).sig, '')
+
+        const strict     = peer('bob')
+        const unknownKey = peer('bob', { knownKeys: {} })
+        const noVerify   = peer('bob', { verify: false })
+        const got = [strict, unknownKey, noVerify].map(p => listen(p))
+        for (const p of [strict, unknownKey, noVerify]) await deliver(p, msg)
+        assert.deepEqual(got.map(g => g.length), [0, 1, 1])
+    })
+
+    it('drops envelopes naming another sender or room', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const got   = listen(bob)
+
+        await alice.control.send(ROOM, 'test.ping', { n: 1 })
+        const [msg] = alice.sent
+        await deliver(bob, { ...msg, senderId: 'carol' })
+        await deliver(bob, { ...msg, scopeId: 'room-2' })
+        assert.deepEqual(got, [])
+    })
+
+    it('hands directed envelopes to their recipients only', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const carol = peer('carol')
+        const gotBob   = listen(bob)
+        const gotCarol = listen(carol)
+
+        await alice.control.send(ROOM, 'test.ping', { n: 1 }, { to: ['carol'] })
+        const [msg] = alice.sent
+        await deliver(bob, msg)
+        await deliver(carol, msg)
+        assert.equal(gotBob.length, 0)
+        assert.equal(gotCarol.length, 1)
+    })
+
+    it('drops bodies that fail the schema and envelopes of another version', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const got   = listen(bob)
+
+        await alice.control.send(ROOM, 'test.ping', { n: 'one' })
+        await alice.control.send(ROOM, 'test.ping', { n: 2 })
+        await deliver(bob, alice.sent[0])
+        await deliver(bob, tamper(alice.sent[1], env => { env.v = 99 }))
+        assert.deepEqual(got, [])
+    })
+
+    it('replays from history only the kinds marked replay', async () => {
+        const alice = peer('alice')
+        const bob   = peer('bob')
+        const live     = listen(bob, 'test.live')
+        const verified = listen(bob, 'test.verified', { replay: 'verified' })
+        const selfSigned = listen(bob, 'test.body', { replay: 'signed-body' })
+
+        await alice.control.send(ROOM, 'test.live', { n: 1 })
+        await alice.control.send(ROOM, 'test.verified', { n: 2 })
+        await alice.control.send(ROOM, 'test.body', { n: 3 })
+        for (const msg of alice.sent) await deliver(bob, msg, { history: true })
+        assert.equal(live.length, 0)
+        assert.equal(verified.length, 1)
+        assert.equal(selfSigned.length, 1)
+
+        // A stored envelope with a bad signature replays only where the body vouches for itself
+        await alice.control.send(ROOM, 'test.verified', { n: 4 })
+        await alice.control.send(ROOM, 'test.body', { n: 5 })
+        const forge = (env: any) => { env.sig = fakeSig(KEYS.carol, 'x') }
+        await deliver(bob, tamper(alice.sent[3], forge), { history: true })
+        await deliver(bob, tamper(alice.sent[4], forge), { history: true })
+        assert.equal(verified.length, 1)
+        assert.equal(selfSigned.length, 2)
+    })
+})
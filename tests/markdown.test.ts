@@ -0,0 +1,99 @@
+// tests/markdown.test.ts
+//
+// The chat markdown subset: inlines, blocks, link safety, and that
+// pathological input stays fast.
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseInline, parseMarkdown, safeHref, type MdInline } from '../src/markdown'
+
+const text = (t: string): MdInline => ({ type: 'text', text: t })
+
+describe('parseInline', () => {
+    it('parses bold, italics and inline code', () => {
+        assert.deepEqual(parseInline('**a** *b* `c`'), [
+            { type: 'strong', children: [text('a')] },
+            text(' '),
+            { type: 'em', children: [text('b')] },
+            text(' '),
+            { type: 'code', text: 'c' },
+        ])
+    })
+
+    it('nests italics in bold for triple delimiters', () => {
+        assert.deepEqual(parseInline('***x***'), [
+            { type: 'strong', children: [{ type: 'em', children: [text('x')] }] },
+        ])
+    })
+
+    it('leaves snake_case and unclosed delimiters as text', () => {
+        assert.deepEqual(parseInline('snake_case_name'), [text('snake_case_name')])
+        assert.deepEqual(parseInline('*open'), [text('*open')])
+        assert.deepEqual(parseInline('a * b *'), [text('a * b *')])
+    })
+
+    it('does not let emphasis span a blank line', () => {
+        assert.deepEqual(parseInline('*a\n\nb*'), [text('*a'), { type: 'br' }, { type: 'br' }, text('b*')])
+    })
+
+    it('honours backslash escapes', () => {
+        assert.deepEqual(parseInline('\\*not em\\*'), [text('*not em*')])
+    })
+
+    it('links labels and bare URLs, trimming trailing punctuation', () => {
+        assert.deepEqual(parseInline('[site](https://example.com)'), [
+            { type: 'link', href: 'https://example.com', children: [text('site')] },
+        ])
+        assert.deepEqual(parseInline('see https://example.com/x.'), [
+            text('see '),
+            { type: 'link', href: 'https://example.com/x', children: [text('https://example.com/x')] },
+            text('.'),
+        ])
+    })
+
+    it('keeps unsafe link targets as text', () => {
+        assert.deepEqual(parseInline('[x](javascript:alert(1))'), [text('[x](javascript:alert(1))')])
+    })
+
+    it('stays linear on unclosed delimiters', () => {
+        for (const unit of ['_a ', '*a ', '[a\n', '``a `']) {
+            const started = performance.now()
+            parseInline(unit.repeat(5000))
+            assert.ok(performance.now() - started < 500, `${JSON.stringify(unit)} took too long`)
+        }
+    })
+})
+
+describe('parseMarkdown', () => {
+    it('splits paragraphs, lists, quotes and fenced code', () => {
+        const blocks = parseMarkdown('hello\n\n- one\n- two\n\n> quoted\n\n```js\nconst x = 1\n```')
+        assert.deepEqual(blocks.map(b => b.type), ['paragraph', 'list', 'quote', 'code'])
+
+        const list = blocks[1]
+        assert.ok(list.type === 'list')
+        assert.equal(list.ordered, false)
+        assert.deepEqual(list.items, [[text('one')], [text('two')]])
+
+        const code = blocks[3]
+        assert.ok(code.type === 'code')
+        assert.equal(code.lang, 'js')
+        assert.deepEqual(code.lines[0][0], { kind: 'keyword', text: 'const' })
+    })
+
+    it('numbers ordered lists from their first item', () => {
+        const [list] = parseMarkdown('3. a\n4. b')
+        assert.ok(list.type === 'list')
+        assert.equal(list.ordered, true)
+        assert.equal(list.start, 3)
+    })
+})
+
+describe('safeHref', () => {
+    it('allows http(s), mailto and gexchange links only', () => {
+        assert.equal(safeHref('https://example.com'), 'https://example.com')
+        assert.equal(safeHref('mailto:a@b.c'), 'mailto:a@b.c')
+        assert.equal(safeHref('gexchange://room/x'), 'gexchange://room/x')
+        assert.equal(safeHref('javascript:alert(1)'), null)
+        assert.equal(safeHref('file:///etc/passwd'), null)
+    })
+})
@@ -0,0 +1,66 @@
+// tests/reactions.test.ts
+//
+// mergeReaction — per-user, per-emoji last-writer-wins merging — and the
+// MESSAGE_REACT body check.
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { ChatReaction } from 'gexplorer/widgets'
+import { isMessageReact, mergeReaction, type MessageReactions } from '../src/useReactions'
+
+const r = (on: boolean, at: number): ChatReaction => ({ on, at, name: 'Alice' })
+
+describe('mergeReaction', () => {
+    it('adds a reaction to an empty message', () => {
+        assert.deepEqual(mergeReaction(undefined, '👍', 'alice', r(true, 10)), {
+            '👍': { alice: r(true, 10) },
+        })
+    })
+
+    it('keeps the later change and ignores a stale one', () => {
+        const base: MessageReactions = { '👍': { alice: r(true, 10) } }
+        assert.deepEqual(mergeReaction(base, '👍', 'alice', r(false, 20)), {
+            '👍': { alice: r(false, 20) },
+        })
+        assert.equal(mergeReaction(base, '👍', 'alice', r(false, 5)), null)
+    })
+
+    it('is idempotent and lets "on" win a tie', () => {
+        const on: MessageReactions = { '👍': { alice: r(true, 10) } }
+        assert.equal(mergeReaction(on, '👍', 'alice', r(true, 10)), null)
+        assert.equal(mergeReaction(on, '👍', 'alice', r(false, 10)), null)
+
+        const off: MessageReactions = { '👍': { alice: r(false, 10) } }
+        assert.deepEqual(mergeReaction(off, '👍', 'alice', r(true, 10)), on)
+    })
+
+    it('leaves other users and emoji alone', () => {
+        const base: MessageReactions = { '🎉': { bob: r(true, 1) } }
+        assert.deepEqual(mergeReaction(base, '👍', 'alice', r(true, 2)), {
+            '🎉': { bob: r(true, 1) },
+            '👍': { alice: r(true, 2) },
+        })
+        assert.deepEqual(base, { '🎉': { bob: r(true, 1) } })
+    })
+
+    it('refuses a new emoji once a message carries the maximum', () => {
+        const full: MessageReactions = {}
+        for (let i = 0; i < 20; i++) full[`e${i}`] = { bob: r(true, 1) }
+        assert.equal(mergeReaction(full, '👍', 'alice', r(true, 2)), null)
+        assert.notEqual(mergeReaction(full, 'e0', 'alice', r(true, 2)), null)
+    })
+})
+
+describe('isMessageReact', () => {
+    it('accepts one emoji, including ZWJ sequences and skin tones', () => {
+        assert.ok(isMessageReact({ id: 'm1', emoji: '👍', on: true }))
+        assert.ok(isMessageReact({ id: 'm1', emoji: '👍🏽', on: false }))
+        assert.ok(isMessageReact({ id: 'm1', emoji: '👩‍💻', on: true }))
+    })
+
+    it('rejects text, missing ids and non-boolean toggles', () => {
+        assert.ok(!isMessageReact({ id: 'm1', emoji: 'lol', on: true }))
+        assert.ok(!isMessageReact({ id: '', emoji: '👍', on: true }))
+        assert.ok(!isMessageReact({ id: 'm1', emoji: '👍', on: 'yes' }))
+    })
+})
@@ -0,0 +1,94 @@
+// tests/validateManifest.test.ts
+//
+// The static entry.ts manifest checks, run on source text — no files needed.
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { isPlaceholderReason, validateManifest } from '../tools/validateManifest'
+
+const ENTRY = '/widgets/Example/entry.ts'
+
+function issues(manifest: string, prelude = ''): string[] {
+    const text = `import { defineWidget } from 'gexplorer/widgets'\n${prelude}\nexport default defineWidget(${manifest})\n`
+    return validateManifest(ENTRY, text).map(i => i.message)
+}
+
+const BASE = `id: 'example', version: '0.1.0', Component: null`
+
+describe('validateManifest', () => {
+    it('accepts a complete manifest', () => {
+        assert.deepEqual(issues(`{
+            ${BASE},
+            capabilities: [{ cap: 'Network', reason: 'Fetches forecasts' }],
+            contexts: { grid: { layouts: [{ id: 'list' }] } },
+            defaults: { data: {}, view: { layout: 'list' } },
+        }`), [])
+    })
+
+    it('requires a default export object with id, version and Component', () => {
+        assert.deepEqual(validateManifest(ENTRY, 'export const x = 1\n').map(i => i.message), ['entry.ts has no default export'])
+        const missing = issues(`{ version: '0.1.0' }`)
+        assert.ok(missing.includes('manifest: missing required key "id"'), missing.join('\n'))
+        assert.ok(missing.includes('manifest: missing required key "Component"'), missing.join('\n'))
+    })
+
+    it('follows top-level consts', () => {
+        assert.deepEqual(issues(`manifest`, `const manifest = { ${BASE} }`), [])
+    })
+
+    it('checks capability declarations', () => {
+        const found = issues(`{
+            ${BASE},
+            capabilities: [
+                'Network',
+                { cap: 'Teleport', reason: 'Moves files instantly' },
+                { cap: 'Read', reason: '' },
+                { cap: 'Write', reason: 'TODO' },
+            ],
+        }`)
+        assert.equal(found.length, 4, found.join('\n'))
+        assert.match(found[0], /capabilities\[0\]: use \{ cap: 'Network', reason: '…' \} instead of a bare string/)
+        assert.match(found[1], /capabilities\[1\]: unknown capability "Teleport"/)
+        assert.match(found[2], /capabilities\[2\]: "reason" must be a non-empty string/)
+        assert.match(found[3], /capabilities\[3\]: "reason" is a placeholder/)
+    })
+
+    it('checks worker caps', () => {
+        const found = issues(`{
+            ${BASE},
+            workers: [{ id: 'w', executable: 'w.exe', caps: ['Ipc', 'Network', 'Warp'] }],
+        }`)
+        assert.equal(found.length, 1, found.join('\n'))
+        assert.match(found[0], /workers\[0\]\.caps: unknown capability "Warp"/)
+    })
+
+    it('requires the default layout to be declared in contexts', () => {
+        const found = issues(`{
+            ${BASE},
+            contexts: { grid: { layouts: [{ id: 'list' }] } },
+            defaults: { view: { layout: 'grid' } },
+        }`)
+        assert.equal(found.length, 1, found.join('\n'))
+        assert.match(found[0], /defaults\.view\.layout: "grid" is not declared in contexts \(declared: list\)/)
+    })
+
+    it('rejects duplicate menu item ids', () => {
+        const found = issues(`{
+            ${BASE},
+            menus: { contributions: [{ scope: 'background', items: [
+                { id: 'x.refresh', type: 'command' },
+                { id: 'x.refresh', type: 'command' },
+            ] }] },
+        }`)
+        assert.equal(found.length, 1, found.join('\n'))
+        assert.match(found[0], /menus: duplicate menu item id "x\.refresh"/)
+    })
+})
+
+describe('isPlaceholderReason', () => {
+    it('flags filler text only', () => {
+        assert.ok(isPlaceholderReason('TODO'))
+        assert.ok(isPlaceholderReason('tbd: explain later'))
+        assert.ok(!isPlaceholderReason('Fetches forecasts from api.weather.gov'))
+    })
+})
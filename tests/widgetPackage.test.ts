@@ -0,0 +1,147 @@
+// tests/widgetPackage.test.ts
+//
+// Signed .gexwidget packages: a package signed the way tools/packageWidgets.ts
+// signs verifies, and every kind of tampering is refused with its own code.
+// The signing key is derived from a fixed seed, so runs are reproducible.
+
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import { before, describe, it } from 'node:test'
+import {
+    INTEGRITY_FILE,
+    MANIFEST_FILE,
+    SIGNATURE_FILE,
+    bytesToBase64,
+    compareVersions,
+    encodeJson,
+    finishPackage,
+    keyIdOf,
+    preparePackage,
+    readZip,
+    verifyWidgetPackage,
+    writeZip,
+    type PackageManifest,
+} from '../tools/widgetPackage'
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+// PKCS#8 DER for an Ed25519 key is a fixed prefix + the 32-byte seed
+const PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+function keyFromSeed(fill: number) {
+    const privateKey = crypto.createPrivateKey({
+        key:    Buffer.concat([PKCS8_PREFIX, Buffer.alloc(32, fill)]),
+        format: 'der',
+        type:   'pkcs8',
+    })
+    // SPKI DER for Ed25519 is a fixed 12-byte prefix + the raw key
+    const spki = crypto.createPublicKey(privateKey).export({ format: 'der', type: 'spki' })
+    return { privateKey, publicKey: new Uint8Array(spki.subarray(12)) }
+}
+
+const signer = keyFromSeed(1)
+const other  = keyFromSeed(2)
+const TRUSTED = [bytesToBase64(signer.publicKey)]
+
+const manifest = (version = '1.2.0'): PackageManifest => ({
+    format:       1,
+    id:           'weather',
+    version,
+    widgetType:   'weather',
+    capabilities: [{ cap: 'Network', reason: 'Fetches forecasts' }],
+    workers:      [],
+})
+
+async function pack(m: PackageManifest, key = signer): Promise<Uint8Array> {
+    const bundle = new Map([['index.js', new TextEncoder().encode('export default 1\n')]])
+    const { files, integrityBytes } = await preparePackage(m, bundle)
+    return finishPackage(files, {
+        algorithm: 'Ed25519',
+        keyId:     await keyIdOf(key.publicKey),
+        publicKey: bytesToBase64(key.publicKey),
+        signature: bytesToBase64(new Uint8Array(crypto.sign(null, integrityBytes, key.privateKey))),
+    })
+}
+
+/** Rewrites one file of a packed archive, leaving the rest byte-for-byte. */
+function edit(bytes: Uint8Array, name: string, data: Uint8Array | null): Uint8Array {
+    const files = readZip(bytes)
+    if (data) files.set(name, data)
+    else files.delete(name)
+    return writeZip(files)
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('widget packages', () => {
+    let good: Uint8Array
+    before(async () => { good = await pack(manifest()) })
+
+    it('packs deterministically', async () => {
+        assert.deepEqual(await pack(manifest()), good)
+    })
+
+    it('verifies a package signed by a trusted key', async () => {
+        const result = await verifyWidgetPackage(good, { trustedKeys: TRUSTED })
+        assert.ok(result.ok, !result.ok ? result.error : '')
+        assert.equal(result.package.manifest.id, 'weather')
+        assert.deepEqual([...result.package.bundle.keys()], ['index.js'])
+    })
+
+    it('refuses an untrusted signer', async () => {
+        const result = await verifyWidgetPackage(await pack(manifest(), other), { trustedKeys: TRUSTED })
+        assert.ok(!result.ok && result.code === 'untrusted')
+    })
+
+    it('refuses a signature that does not match integrity.json', async () => {
+        const integrity = JSON.parse(new TextDecoder().decode(readZip(good).get(INTEGRITY_FILE)!))
+        integrity.version = '9.9.9'
+        const result = await verifyWidgetPackage(edit(good, INTEGRITY_FILE, encodeJson(integrity)), { trustedKeys: TRUSTED })
+        assert.ok(!result.ok && result.code === 'signature')
+    })
+
+    it('refuses modified, missing and unlisted files', async () => {
+        const modified = edit(good, 'bundle/index.js', new TextEncoder().encode('evil()\n'))
+        const missing  = edit(good, 'bundle/index.js', null)
+        const extra    = edit(good, 'bundle/extra.js', new TextEncoder().encode('more()\n'))
+        for (const bytes of [modified, missing, extra]) {
+            const result = await verifyWidgetPackage(bytes, { trustedKeys: TRUSTED })
+            assert.ok(!result.ok && result.code === 'integrity', !result.ok ? result.error : 'verified')
+        }
+    })
+
+    it('refuses unreadable archives', async () => {
+        const result = await verifyWidgetPackage(new Uint8Array([1, 2, 3]), { trustedKeys: TRUSTED })
+        assert.ok(!result.ok && result.code === 'format')
+        const unsigned = await verifyWidgetPackage(edit(good, SIGNATURE_FILE, null), { trustedKeys: TRUSTED })
+        assert.ok(!unsigned.ok && unsigned.code === 'format')
+    })
+
+    it('refuses another widget and downgrades, but allows reinstalls', async () => {
+        const trustedKeys = TRUSTED
+        const mismatch = await verifyWidgetPackage(good, { trustedKeys, installed: { id: 'links', version: '1.0.0' } })
+        assert.ok(!mismatch.ok && mismatch.code === 'mismatch')
+
+        const downgrade = await verifyWidgetPackage(good, { trustedKeys, installed: { id: 'weather', version: '1.10.0' } })
+        assert.ok(!downgrade.ok && downgrade.code === 'downgrade')
+
+        const same = await verifyWidgetPackage(good, { trustedKeys, installed: { id: 'weather', version: '1.2.0' } })
+        assert.ok(same.ok)
+    })
+
+    it('covers widget.json with the signature', async () => {
+        const files = readZip(good)
+        assert.ok(files.has(MANIFEST_FILE))
+        const relabelled = edit(good, MANIFEST_FILE, encodeJson({ ...manifest(), id: 'links' }))
+        const result = await verifyWidgetPackage(relabelled, { trustedKeys: TRUSTED })
+        assert.ok(!result.ok && result.code === 'integrity')
+    })
+})
+
+describe('compareVersions', () => {
+    it('orders semver numerically, pre-releases first', () => {
+        assert.ok(compareVersions('1.10.0', '1.9.0') > 0)
+        assert.ok(compareVersions('1.0.0-beta', '1.0.0') < 0)
+        assert.equal(compareVersions('2.0.0', '2.0.0'), 0)
+    })
+})
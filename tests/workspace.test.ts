@@ -0,0 +1,99 @@
+// tests/workspace.test.ts
+//
+// resolveWorkspace — paths, defaults and the uniqueness rules — against
+// throwaway widget folders.
+
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { resolveWorkspace, type WorkspaceManifest } from '../tools/workspace'
+
+let root: string
+let file: string
+
+function widget(dir: string, id: string) {
+    fs.mkdirSync(path.join(root, dir), { recursive: true })
+    fs.writeFileSync(path.join(root, dir, 'entry.ts'),
+        `export default { id: '${id}', version: '0.1.0', Component: null }\n`)
+}
+
+before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'gex-workspace-'))
+    file = path.join(root, 'widgets.workspace.json')
+    widget('A', 'alpha')
+    widget('B', 'beta')
+    widget('Copy', 'alpha')
+})
+
+after(() => fs.rmSync(root, { recursive: true, force: true }))
+
+beforeEach(() => {
+    delete process.env.OUTPUT_PUBLIC_DIR
+    delete process.env.SOURCEMAP
+})
+
+const resolve = (manifest: WorkspaceManifest) => resolveWorkspace(manifest, file)
+
+describe('resolveWorkspace', () => {
+    it('resolves entries and output dirs, with defaults filled', () => {
+        const [a, b] = resolve({
+            outputPublicDir: '/out/public',
+            widgets: [
+                { entry: 'A/entry.ts', widgetType: 'alpha' },
+                { entry: 'B/entry.ts', widgetType: 'beta', outDir: 'dist/beta', sourcemap: true, capabilityLint: 'error' },
+            ],
+        })
+        assert.equal(a.entry, path.join(root, 'A', 'entry.ts'))
+        assert.equal(a.dir, path.join(root, 'A'))
+        assert.ok(a.outDir.endsWith(path.join('runtime-widgets', 'alpha')))
+        assert.equal(a.sourcemap, false)
+        assert.equal(a.capabilityLint, 'warn')
+        assert.equal(a.scopedStyles, 'error')
+
+        assert.equal(b.outDir, path.join(root, 'dist', 'beta'))
+        assert.equal(b.sourcemap, true)
+        assert.equal(b.capabilityLint, 'error')
+    })
+
+    it('lets SOURCEMAP override the file', () => {
+        process.env.SOURCEMAP = 'true'
+        const [a] = resolve({ widgets: [{ entry: 'A/entry.ts', widgetType: 'alpha' }] })
+        assert.equal(a.sourcemap, true)
+    })
+
+    it('reports missing fields and entries', () => {
+        assert.throws(
+            () => resolve({ widgets: [{ entry: 'Nope/entry.ts', widgetType: '' }] }),
+            /widgets\[0\]: missing "widgetType"[\s\S]*entry not found — Nope\/entry\.ts/,
+        )
+    })
+
+    it('rejects a widgetType or output dir used twice', () => {
+        assert.throws(
+            () => resolve({ widgets: [
+                { entry: 'A/entry.ts', widgetType: 'alpha' },
+                { entry: 'B/entry.ts', widgetType: 'alpha' },
+            ] }),
+            /widgets\[1\]: widgetType "alpha" already used by A\/entry\.ts/,
+        )
+        assert.throws(
+            () => resolve({ widgets: [
+                { entry: 'A/entry.ts', widgetType: 'alpha', outDir: 'dist/same' },
+                { entry: 'B/entry.ts', widgetType: 'beta',  outDir: 'dist/same' },
+            ] }),
+            /widgets\[1\]: output dir .* already used by A\/entry\.ts/,
+        )
+    })
+
+    it('rejects two entries with the same manifest id', () => {
+        assert.throws(
+            () => resolve({ widgets: [
+                { entry: 'A/entry.ts',    widgetType: 'alpha' },
+                { entry: 'Copy/entry.ts', widgetType: 'alpha-copy' },
+            ] }),
+            /widgets\[1\]: manifest id "alpha" already used by A\/entry\.ts/,
+        )
+    })
+})
@@ -0,0 +1,127 @@
+// tools/buildWidgets.ts
+//
+// Builds every widget listed in widgets.workspace.json in one run.
+//
+// USAGE:
+//   npm run build:all                       — one-shot build of all widgets
+//   npm run watch:all                       — watch mode, per-widget rebuilds
+//   npm run build:all -- --only items,links — restrict to some widget types
+//
+// WATCH MODE:
+//   Each widget gets its own Rollup watcher, and a watcher only tracks the
+//   module graph reachable from its own entry.ts. Editing a file under
+//   ExampleWidget_Items/ therefore rebuilds the items bundle only; the other
+//   widgets stay idle. Shared files (types/, tools/) trigger a rebuild of the
+//   widgets that actually import them.
+
+import { build } from 'vite'
+import type { RollupWatcher, RollupWatcherEvent } from 'rollup'
+import path from 'node:path'
+import { createWidgetViteConfig } from './widgetViteConfig'
+import { readWorkspace, resolveWorkspace, workspacePath, type ResolvedWorkspaceWidget } from './workspace'
+
+// ── Args ──────────────────────────────────────────────────────────────────────
+
+interface BuildArgs {
+    watch: boolean
+    only:  Set<string> | null
+}
+
+function parseArgs(argv: string[]): BuildArgs {
+    const watch = argv.includes('--watch') || process.env.WATCH === 'true'
+    const onlyIdx = argv.indexOf('--only')
+    const only = onlyIdx >= 0 && argv[onlyIdx + 1]
+        ? new Set(argv[onlyIdx + 1].split(',').map(s => s.trim()).filter(Boolean))
+        : null
+    return { watch, only }
+}
+
+// ── Build ─────────────────────────────────────────────────────────────────────
+
+async function buildWidget(widget: ResolvedWorkspaceWidget, watch: boolean) {
+    const config = createWidgetViteConfig({
+        widgetType:  widget.widgetType,
+        entry:       widget.entry,
+        outDir:      widget.outDir,
+        sourcemap:   widget.sourcemap,
+        keepConsole: watch,
+        capabilityLint: widget.capabilityLint,
+        scopedStyles:   widget.scopedStyles,
+    })
+
+    return build({
+        ...config,
+        configFile: false,
+        root:       process.cwd(),
+        logLevel:   'warn',
+        build: {
+            ...config.build,
+            watch: watch ? {} : null,
+        },
+    })
+}
+
+function logWatchEvents(widget: ResolvedWorkspaceWidget, watcher: RollupWatcher) {
+    const tag = `[${widget.widgetType}]`
+    watcher.on('event', (event: RollupWatcherEvent) => {
+        if (event.code === 'BUNDLE_END') {
+            console.log(`${tag} built in ${event.duration}ms → ${path.relative(process.cwd(), widget.outDir) || widget.outDir}`)
+            event.result?.close()
+        } else if (event.code === 'ERROR') {
+            console.error(`${tag} build failed:`, event.error.message)
+            event.result?.close()
+        }
+    })
+    watcher.on('change', (id) => {
+        console.log(`${tag} changed: ${path.relative(process.cwd(), id)}`)
+    })
+}
+
+async function main() {
+    const args     = parseArgs(process.argv.slice(2))
+    const file     = workspacePath()
+    const widgets  = resolveWorkspace(readWorkspace(file), file)
+        .filter(w => !args.only || args.only.has(w.widgetType))
+
+    if (args.only) {
+        const known = new Set(widgets.map(w => w.widgetType))
+        const missing = [...args.only].filter(t => !known.has(t))
+        if (missing.length > 0)
+            throw new Error(`Unknown widget type(s) for --only: ${missing.join(', ')}`)
+    }
+
+    if (widgets.length === 0) {
+        console.warn('No widgets to build.')
+        return
+    }
+
+    const failures: string[] = []
+
+    // Sequential on purpose — Vite builds are CPU/memory heavy and the output
+    // log is far easier to read when widgets do not interleave.
+    for (const widget of widgets) {
+        const started = Date.now()
+        try {
+            const result = await buildWidget(widget, args.watch)
+            if (args.watch) {
+                logWatchEvents(widget, result as RollupWatcher)
+                console.log(`[${widget.widgetType}] watching ${path.relative(process.cwd(), widget.dir)}/`)
+            } else {
+                console.log(`[${widget.widgetType}] built in ${Date.now() - started}ms → ${widget.outDir}`)
+            }
+        } catch (err: any) {
+            failures.push(widget.widgetType)
+            console.error(`[${widget.widgetType}] build failed:`, err?.message ?? err)
+        }
+    }
+
+    if (failures.length > 0 && !args.watch) {
+        console.error(`\n${failures.length} widget(s) failed: ${failures.join(', ')}`)
+        process.exitCode = 1
+    }
+}
+
+main().catch((err) => {
+    console.error(err?.message ?? err)
+    process.exitCode = 1
+})
@@ -0,0 +1,125 @@
+// tools/bundledExports.ts
+//
+// 'gexplorer/widgets' exports that the host does not provide at runtime.
+//
+// Widget bundles map 'gexplorer/widgets' to the host shim (/runtime/vue.js),
+// which only carries what the app implements. The helpers below are declared
+// in types/widgets-sdk.d.ts like everything else, but their code lives in this
+// repo: the plugin moves their named imports onto a local module, so they are
+// bundled into the widget instead of being asked of the host.
+//
+//   import { defineWidget, registerWidgetMenus } from 'gexplorer/widgets'
+//     →
+//   import { registerWidgetMenus } from 'gexplorer/widgets'
+//   import { defineWidget } from 'gexplorer:define-widget'
+//
+// createWidgetMessaging is the one partial case: the host provides send / on,
+// and the bundled version wraps them with request / handle
+// (tools/widgetMessaging.ts).
+//
+// The mock host needs none of this — it aliases 'gexplorer/widgets' to
+// mock-host/widgets.ts, which re-exports the same implementations.
+
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import ts from 'typescript'
+import type { Plugin } from 'vite'
+import { parseSource } from './manifestAst'
+
+// ── Modules ───────────────────────────────────────────────────────────────────
+
+const HOST_MODULE = 'gexplorer/widgets'
+
+const here = path.dirname(fileURLToPath(import.meta.url))
+
+const DEFINE_WIDGET_MODULE = 'gexplorer:define-widget'
+const DEFINE_WIDGET_ID     = '\0' + DEFINE_WIDGET_MODULE
+const DEFINE_WIDGET_SOURCE = 'export function defineWidget(manifest) { return manifest }\n'
+
+const WIDGET_CONFIG_MODULE = 'gexplorer:widget-config'
+const WIDGET_CONFIG_FILE   = path.join(here, 'useWidgetConfig.ts')
+
+// Wraps the host's own createWidgetMessaging — its import is left alone
+const WIDGET_MESSAGING_MODULE = 'gexplorer:widget-messaging'
+const WIDGET_MESSAGING_FILE   = path.join(here, 'widgetMessaging.ts')
+
+/** Export name → module the bundle takes it from. */
+export const BUNDLED_EXPORTS: Record<string, string> = {
+    defineWidget:          DEFINE_WIDGET_MODULE,
+    prepareWidgetConfig:   WIDGET_CONFIG_MODULE,
+    useWidgetConfig:       WIDGET_CONFIG_MODULE,
+    createWidgetMessaging: WIDGET_MESSAGING_MODULE,
+    inspectWidgetMessages: WIDGET_MESSAGING_MODULE,
+}
+
+// ── Rewrite ───────────────────────────────────────────────────────────────────
+
+/**
+ * Moves bundled exports out of `import { … } from 'gexplorer/widgets'` onto
+ * their local modules. Returns null when the code imports none of them.
+ */
+export function rewriteBundledImports(code: string, file: string): string | null {
+    if (!code.includes(HOST_MODULE) || !Object.keys(BUNDLED_EXPORTS).some(name => code.includes(name))) return null
+    const sourceFile = parseSource(file, code)
+    const edits: { start: number; end: number; text: string }[] = []
+
+    for (const stmt of sourceFile.statements) {
+        if (!ts.isImportDeclaration(stmt) || !ts.isStringLiteral(stmt.moduleSpecifier)) continue
+        if (stmt.moduleSpecifier.text !== HOST_MODULE) continue
+        const clause = stmt.importClause
+        const named  = clause?.namedBindings
+        if (!clause || clause.isTypeOnly || !named || !ts.isNamedImports(named)) continue
+
+        const moduleOf = (el: ts.ImportSpecifier) =>
+            el.isTypeOnly ? undefined : BUNDLED_EXPORTS[(el.propertyName ?? el.name).text]
+        const moved = named.elements.filter(moduleOf)
+        if (moved.length === 0) continue
+
+        const lines: string[] = []
+        const rest = named.elements.filter(el => !moduleOf(el)).map(el => el.getText(sourceFile))
+        if (clause.name || rest.length > 0) {
+            const bindings = [clause.name?.text, rest.length > 0 ? `{ ${rest.join(', ')} }` : ''].filter(Boolean)
+            lines.push(`import ${bindings.join(', ')} from '${HOST_MODULE}'`)
+        }
+
+        const byModule = new Map<string, string[]>()
+        for (const el of moved) {
+            const imported = (el.propertyName ?? el.name).text
+            const local    = el.name.text === imported ? imported : `${imported} as ${el.name.text}`
+            const module   = moduleOf(el)!
+            byModule.set(module, [...byModule.get(module) ?? [], local])
+        }
+        for (const [module, locals] of byModule)
+            lines.push(`import { ${locals.join(', ')} } from '${module}'`)
+
+        edits.push({ start: stmt.getStart(sourceFile), end: stmt.getEnd(), text: lines.join('\n') })
+    }
+    if (edits.length === 0) return null
+
+    let out = code
+    for (const edit of edits.reverse()) out = out.slice(0, edit.start) + edit.text + out.slice(edit.end)
+    return out
+}
+
+// ── Vite plugin ───────────────────────────────────────────────────────────────
+
+export default function bundledExports(): Plugin {
+    return {
+        name: 'bundled-sdk-exports',
+        resolveId(source) {
+            if (source === DEFINE_WIDGET_MODULE) return DEFINE_WIDGET_ID
+            if (source === WIDGET_CONFIG_MODULE) return WIDGET_CONFIG_FILE
+            if (source === WIDGET_MESSAGING_MODULE) return WIDGET_MESSAGING_FILE
+            return null
+        },
+        load(id) {
+            return id === DEFINE_WIDGET_ID ? DEFINE_WIDGET_SOURCE : null
+        },
+        transform(code, id) {
+            if (id.startsWith('\0') || id.includes('/node_modules/') || !/\.[cm]?[jt]sx?$/.test(id)) return null
+            if (path.resolve(id) === WIDGET_MESSAGING_FILE) return null
+            const rewritten = rewriteBundledImports(code, id)
+            return rewritten === null ? null : { code: rewritten, map: null }
+        },
+    }
+}
@@ -0,0 +1,304 @@
+// tools/createWidget.ts
+//
+// Scaffolds a new widget folder and registers it in widgets.workspace.json.
+//
+// USAGE:
+//   npm run create                                   — asks for everything
+//   npm run create -- --id notes --name "Notes" --contexts grid,sidebar \
+//                     --caps Read,SecureStorage --with vfs,board --yes \
+//                     --reasons "Read=Lists notes;SecureStorage=Keeps the sync token"
+//
+// FLAGS:
+//   --id        widget id / widgetType, kebab-case (must be unused)
+//   --name      display name
+//   --contexts  comma list of grid, sidebar, toolbar, embedded, dialog
+//   --caps      comma list of capabilities (see KNOWN_CAPS)
+//   --reasons   Cap=reason pairs separated by ';' — shown to users at install
+//               time, so every declared capability needs one; missing ones are
+//               asked for
+//   --with      optional parts: vfs (VFS handler), board (GExchange board
+//               provider), worker (background worker project)
+//   --dir       folder to create (default Widget_<PascalId>)
+//   --yes       accept defaults for anything not given on the command line
+//
+// Ids that collide with a workspace widgetType or the manifest id of any
+// widget folder in the repo are refused, as are existing folders. The
+// generated entry.ts is run through the manifest validator before exiting.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import readline from 'node:readline/promises'
+import type { Cap, WidgetContextKind } from 'gexplorer/widgets'
+import { getString, readEntryManifest } from './manifestAst'
+import { KNOWN_CAPS, formatIssues, isPlaceholderReason, validateManifest } from './validateManifest'
+import { addWorkspaceWidget, readWorkspace, workspacePath } from './workspace'
+import {
+    CONTEXT_KINDS,
+    WIDGET_KINDS,
+    boardTemplate,
+    entryTemplate,
+    pascalCase,
+    vfsHandlerTemplate,
+    widgetTemplate,
+    workerProgramTemplate,
+    workerProjectTemplate,
+    workerReadmeTemplate,
+    type WidgetKind,
+    type WidgetTemplateOptions,
+} from './widgetTemplates'
+
+// ── Args ──────────────────────────────────────────────────────────────────────
+
+interface CreateArgs {
+    id?:       string
+    name?:     string
+    contexts?: string
+    caps?:     string
+    reasons?:  string
+    with?:     string
+    dir?:      string
+    yes:       boolean
+}
+
+const ID_PATTERN = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/
+
+// Folders that hold shared code, never a widget
+const NON_WIDGET_DIRS = new Set(['node_modules', 'mock-host', 'tools', 'types', 'dist'])
+
+function argValue(argv: string[], flag: string): string | undefined {
+    const i = argv.indexOf(flag)
+    return i >= 0 ? argv[i + 1] : undefined
+}
+
+function parseArgs(argv: string[]): CreateArgs {
+    return {
+        id:       argValue(argv, '--id'),
+        name:     argValue(argv, '--name'),
+        contexts: argValue(argv, '--contexts'),
+        caps:     argValue(argv, '--caps'),
+        reasons:  argValue(argv, '--reasons'),
+        with:     argValue(argv, '--with'),
+        dir:      argValue(argv, '--dir'),
+        yes:      argv.includes('--yes'),
+    }
+}
+
+const splitList = (s: string) => s.split(',').map(x => x.trim()).filter(Boolean)
+
+// ── Existing widgets ──────────────────────────────────────────────────────────
+
+/** Every id already taken: workspace widget types plus manifest ids of widget folders. */
+function takenIds(root: string): Map<string, string> {
+    const taken = new Map<string, string>()
+
+    for (const w of readWorkspace(workspacePath(root)).widgets)
+        taken.set(w.widgetType, `widgetType in widgets.workspace.json (${w.entry})`)
+
+    const candidates = ['src', ...fs.readdirSync(root, { withFileTypes: true })
+        .filter(d => d.isDirectory() && !d.name.startsWith('.') && !NON_WIDGET_DIRS.has(d.name))
+        .map(d => d.name)]
+
+    for (const dir of new Set(candidates)) {
+        const entry = path.join(root, dir, 'entry.ts')
+        if (!fs.existsSync(entry)) continue
+        try {
+            const id = getString(readEntryManifest(entry).manifest ?? undefined, 'id')
+            if (id && !taken.has(id)) taken.set(id, `manifest id in ${dir}/entry.ts`)
+        } catch {
+            // Unparseable entries can't claim an id
+        }
+    }
+    return taken
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function checkId(id: string, taken: Map<string, string>): string | null {
+    if (!ID_PATTERN.test(id)) return `"${id}" is not a valid id — use lowercase kebab-case, e.g. "my-widget"`
+    const owner = taken.get(id)
+    return owner ? `"${id}" is already used (${owner})` : null
+}
+
+function checkDir(dir: string, root: string): string | null {
+    if (!dir || path.isAbsolute(dir) || dir.split(/[\\/]/).includes('..'))
+        return `"${dir}" must be a folder name inside the repo`
+    return fs.existsSync(path.join(root, dir)) ? `${dir}/ already exists` : null
+}
+
+function parseContexts(value: string): WidgetContextKind[] {
+    const contexts = splitList(value)
+    const unknown  = contexts.filter(c => !(CONTEXT_KINDS as string[]).includes(c))
+    if (unknown.length > 0)
+        throw new Error(`Unknown context(s): ${unknown.join(', ')} — expected ${CONTEXT_KINDS.join(', ')}`)
+    if (contexts.length === 0) throw new Error('At least one context is required')
+    return [...new Set(contexts)] as WidgetContextKind[]
+}
+
+function parseCaps(value: string): Cap[] {
+    const caps    = splitList(value)
+    const unknown = caps.filter(c => !(KNOWN_CAPS as readonly string[]).includes(c))
+    if (unknown.length > 0)
+        throw new Error(`Unknown capability(ies): ${unknown.join(', ')} — expected ${KNOWN_CAPS.join(', ')}`)
+    return [...new Set(caps)] as Cap[]
+}
+
+function parseReason(value: string): string {
+    const reason = value.trim()
+    if (!reason) throw new Error('A reason is required — users see it when installing the widget')
+    if (isPlaceholderReason(reason)) throw new Error(`"${reason}" is a placeholder — say what the widget uses it for`)
+    return reason
+}
+
+function parseReasons(value: string, caps: Cap[]): Map<Cap, string> {
+    const reasons = new Map<Cap, string>()
+    for (const pair of value.split(';').map(p => p.trim()).filter(Boolean)) {
+        const eq = pair.indexOf('=')
+        if (eq <= 0) throw new Error(`--reasons: expected Cap=reason, got "${pair}"`)
+        const cap = pair.slice(0, eq).trim() as Cap
+        if (!caps.includes(cap)) throw new Error(`--reasons: "${cap}" is not among the requested capabilities`)
+        reasons.set(cap, pair.slice(eq + 1))
+    }
+    return reasons
+}
+
+function parseKinds(value: string): WidgetKind[] {
+    const kinds   = splitList(value)
+    const unknown = kinds.filter(k => !(WIDGET_KINDS as string[]).includes(k))
+    if (unknown.length > 0)
+        throw new Error(`Unknown part(s) for --with: ${unknown.join(', ')} — expected ${WIDGET_KINDS.join(', ')}`)
+    return [...new Set(kinds)] as WidgetKind[]
+}
+
+// ── Prompts ───────────────────────────────────────────────────────────────────
+
+type Ask = (question: string, fallback?: string) => Promise<string>
+
+function createAsk(args: CreateArgs): { ask: Ask; close: () => void } {
+    if (args.yes || !process.stdin.isTTY) {
+        return {
+            ask: async (question, fallback) => {
+                if (fallback === undefined) throw new Error(`Missing value for "${question}" — pass it as a flag`)
+                return fallback
+            },
+            close: () => {},
+        }
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+    return {
+        ask: async (question, fallback) => {
+            const answer = (await rl.question(fallback ? `${question} (${fallback}): ` : `${question}: `)).trim()
+            return answer || fallback || ''
+        },
+        close: () => rl.close(),
+    }
+}
+
+/** Re-asks until `parse` accepts the answer; flag values get one try. */
+async function prompt<T>(
+    ask: Ask,
+    given: string | undefined,
+    question: string,
+    fallback: string | undefined,
+    parse: (value: string) => T,
+): Promise<T> {
+    if (given !== undefined) return parse(given)
+    for (;;) {
+        const answer = await ask(question, fallback)
+        try {
+            return parse(answer)
+        } catch (err: any) {
+            if (!process.stdin.isTTY) throw err
+            console.error(`  ${err?.message ?? err}`)
+        }
+    }
+}
+
+async function collectOptions(args: CreateArgs, root: string): Promise<WidgetTemplateOptions> {
+    const taken = takenIds(root)
+    const { ask, close } = createAsk(args)
+
+    try {
+        const id = await prompt(ask, args.id, 'Widget id (kebab-case)', undefined, value => {
+            const problem = checkId(value, taken)
+            if (problem) throw new Error(problem)
+            return value
+        })
+
+        const displayName = await prompt(ask, args.name, 'Display name', pascalCase(id).replace(/(?<=[a-z0-9])(?=[A-Z])/g, ' '), value => {
+            if (!value.trim()) throw new Error('Display name cannot be empty')
+            return value.trim()
+        })
+
+        const contexts = await prompt(ask, args.contexts, `Contexts [${CONTEXT_KINDS.join(', ')}]`, 'grid', parseContexts)
+        const caps     = await prompt(ask, args.caps, `Capabilities [${KNOWN_CAPS.join(', ')}]`, '', parseCaps)
+        const kinds    = await prompt(ask, args.with, `Optional parts [${WIDGET_KINDS.join(', ')}]`, '', parseKinds)
+
+        const reasons = parseReasons(args.reasons ?? '', caps)
+        const capabilities: WidgetTemplateOptions['capabilities'] = []
+        for (const cap of caps) {
+            const reason = await prompt(ask, reasons.get(cap), `Why does ${displayName} need ${cap}?`, undefined, parseReason)
+            capabilities.push({ cap, reason })
+        }
+
+        const dir = await prompt(ask, args.dir, 'Folder', `Widget_${pascalCase(id)}`, value => {
+            const problem = checkDir(value, root)
+            if (problem) throw new Error(problem)
+            return value.replace(/\\/g, '/').replace(/\/+$/, '')
+        })
+
+        return { id, displayName, dir, contexts, capabilities, kinds }
+    } finally {
+        close()
+    }
+}
+
+// ── Generate ──────────────────────────────────────────────────────────────────
+
+function generateFiles(o: WidgetTemplateOptions): Map<string, string> {
+    const files = new Map<string, string>([
+        ['entry.ts',   entryTemplate(o)],
+        ['Widget.vue', widgetTemplate(o)],
+    ])
+    if (o.kinds.includes('vfs'))    files.set('vfsHandler.ts', vfsHandlerTemplate(o))
+    if (o.kinds.includes('board'))  files.set('Board.vue', boardTemplate(o))
+    if (o.kinds.includes('worker')) {
+        const project = `workers/${pascalCase(o.id)}Worker`
+        files.set('workers/README.md', workerReadmeTemplate(o))
+        files.set(`${project}/Program.cs`, workerProgramTemplate(o))
+        files.set(`${project}/${pascalCase(o.id)}Worker.csproj`, workerProjectTemplate(o))
+    }
+    return files
+}
+
+async function main() {
+    const root    = process.cwd()
+    const options = await collectOptions(parseArgs(process.argv.slice(2)), root)
+    const files   = generateFiles(options)
+    const dir     = path.join(root, options.dir)
+
+    for (const [rel, text] of files) {
+        const file = path.join(dir, rel)
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        fs.writeFileSync(file, text)
+    }
+
+    // Never register a widget the build would reject
+    const entry  = path.join(dir, 'entry.ts')
+    const issues = validateManifest(entry)
+    if (issues.length > 0) {
+        fs.rmSync(dir, { recursive: true, force: true })
+        throw new Error(`Generated manifest is invalid (this is a template bug):\n${formatIssues(issues, root)}`)
+    }
+
+    addWorkspaceWidget({ entry: `${options.dir}/entry.ts`, widgetType: options.id })
+
+    console.log(`Created ${options.dir}/`)
+    for (const rel of files.keys()) console.log(`  ${rel}`)
+    console.log(`Registered "${options.id}" in widgets.workspace.json`)
+    console.log(`\nNext: npm run build:all -- --only ${options.id}`)
+}
+
+main().catch((err) => {
+    console.error(err?.message ?? err)
+    process.exitCode = 1
+})
@@ -1,15 +1,259 @@
-export default function enforceScopedStyles() {
-  return {
-    name: 'enforce-scoped-styles',
-    enforce: 'pre',
-    transform(code: string, id: string) {
-      if (!id.endsWith('.vue')) return null
-      const badStyle = /<style(?![^>]*\bscoped\b)[^>]*>/i.test(code)
-      const hasGlobal = /:global|::v-global|:deep|::v-deep|\b(html|body|:root|\*)\b/.test(code)
-      if (badStyle || hasGlobal) {
-        throw new Error(`Disallowed global styles in ${id}. Use <style scoped> only.`)
-      }
-      return null
-    }
-  }
+// tools/enforceScopedStyles.ts
+//
+// Keeps widget CSS from leaking into the host page.
+//
+// Widgets share one document with GExplorer and every other widget, so a
+// global rule in one SFC restyles everything. This plugin parses each .vue
+// file in the bundle with the Vue compiler, looks at its <style> blocks only
+// (scripts and templates are never inspected) and reports:
+//
+//   ExampleWidget_Items/Widget.vue:1928:1 — root: ":root" cannot be scoped to the widget
+//
+// RULES (ids are what the allowlist refers to):
+//   unscoped  <style> without `scoped` or `module`
+//   global    :global(…) / ::v-global(…)
+//   deep      :deep(…) / ::v-deep / >>> / /deep/
+//   root      html, body, :root, :host — never inside the widget
+//   import    @import — imported sheets are not scoped
+//   module    a <style module> selector with no class or id (matches globally)
+//
+// `<style src="…">` sheets are checked in their own file.
+//
+// CONFIG (widget.build.json, or per widget in widgets.workspace.json):
+//   "scopedStyles": "error"      — default, fails the build
+//   "scopedStyles": "warn"       — report only
+//   "scopedStyles": "off"        — opt out
+//   "scopedStyles": { "mode": "error", "allow": ["deep", { "rule": "root", "file": "ExpandedLayout.vue" }] }
+//
+// An allow entry is a rule id (whole widget) or { rule, file } where `file`
+// matches the end of the SFC / sheet path.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import postcss, { type AtRule, type Rule } from 'postcss'
+import { parse as parseSfc, type SFCStyleBlock } from 'vue/compiler-sfc'
+import type { Plugin } from 'vite'
+import { formatPos, type SourcePos } from './manifestAst'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ScopedStyleRule = 'unscoped' | 'global' | 'deep' | 'root' | 'import' | 'module'
+
+export type ScopedStylesMode = 'off' | 'warn' | 'error'
+
+export type ScopedStylesAllow = ScopedStyleRule | { rule: ScopedStyleRule; file?: string }
+
+export type ScopedStylesConfig =
+    | ScopedStylesMode
+    | { mode?: ScopedStylesMode; allow?: ScopedStylesAllow[] }
+
+export interface StyleIssue {
+    rule:    ScopedStyleRule
+    pos:     SourcePos
+    message: string
+}
+
+// ── Selector scan ─────────────────────────────────────────────────────────────
+
+const SELECTOR_PATTERNS: { rule: ScopedStyleRule; re: RegExp; describe: (m: string) => string }[] = [
+    { rule: 'global', re: /::?v-global\(|:global\b/g,                  describe: m => `"${m.replace(/\($/, '')}" escapes the scope` },
+    { rule: 'deep',   re: /::?v-deep\b|:deep\(|>>>|\/deep\//g,          describe: m => `"${m.replace(/\($/, '')}" reaches into other components` },
+    { rule: 'root',   re: /:root\b|:host\b|(?<![\w.#:-])(?:html|body)(?![\w-])/g, describe: m => `"${m}" cannot be scoped to the widget` },
+]
+
+const KEYFRAMES = /^(-\w+-)?keyframes$/i
+
+/** Blanks strings, attribute values and comments so patterns only see selector syntax. */
+function maskSelector(selector: string): string {
+    return selector
+        .replace(/\/\*[\s\S]*?\*\//g, m => ' '.repeat(m.length))
+        .replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, m => ' '.repeat(m.length))
+        .replace(/\[[^\]]*\]/g, m => '[' + ' '.repeat(m.length - 2) + ']')
+}
+
+function splitSelectorList(masked: string): { text: string; offset: number }[] {
+    const parts: { text: string; offset: number }[] = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < masked.length; i++) {
+        const ch = masked[i]
+        if (ch === '(') depth++
+        else if (ch === ')') depth--
+        else if (ch === ',' && depth === 0) {
+            parts.push({ text: masked.slice(start, i), offset: start })
+            start = i + 1
+        }
+    }
+    parts.push({ text: masked.slice(start), offset: start })
+    return parts
+}
+
+/** A module selector is local when it names a class or id outside :global(). */
+function hasLocalName(selector: string): boolean {
+    return /[.#][\w-]/.test(selector.replace(/:global\([^)]*\)/g, ''))
+}
+
+function isInKeyframes(rule: Rule): boolean {
+    for (let p = rule.parent; p; p = p.parent as typeof p) {
+        if (p.type === 'atrule' && KEYFRAMES.test((p as AtRule).name)) return true
+    }
+    return false
+}
+
+// ── Check ─────────────────────────────────────────────────────────────────────
+
+interface SheetSource {
+    file:   string
+    text:   string
+    /** Position of text[0] within `file` (1-based). */
+    line:   number
+    column: number
+    module: boolean
+}
+
+function positionIn(sheet: SheetSource, text: string, offset: number, line: number, column: number): SourcePos {
+    // Walk from the node's start to `offset`
+    for (let i = 0; i < offset; i++) {
+        if (text[i] === '\n') { line++; column = 1 } else column++
+    }
+    return {
+        file:   sheet.file,
+        line:   sheet.line + line - 1,
+        column: line === 1 ? sheet.column + column - 1 : column,
+    }
+}
+
+function checkSheet(sheet: SheetSource, issues: StyleIssue[]) {
+    let root: postcss.Root
+    try {
+        root = postcss.parse(sheet.text, { from: sheet.file })
+    } catch (err: any) {
+        issues.push({
+            rule:    'unscoped',
+            pos:     positionIn(sheet, '', 0, err?.line ?? 1, err?.column ?? 1),
+            message: `could not parse style: ${err?.reason ?? err?.message ?? err}`,
+        })
+        return
+    }
+
+    root.walkAtRules('import', (atRule) => {
+        const start = atRule.source?.start ?? { line: 1, column: 1 }
+        issues.push({
+            rule:    'import',
+            pos:     positionIn(sheet, '', 0, start.line, start.column),
+            message: `@import ${atRule.params} pulls in an unscoped sheet — import it from a scoped <style src> instead`,
+        })
+    })
+
+    root.walkRules((rule) => {
+        if (isInKeyframes(rule)) return
+        const start    = rule.source?.start ?? { line: 1, column: 1 }
+        const selector = (rule.raws.selector as { raw?: string } | undefined)?.raw ?? rule.selector
+        const masked   = maskSelector(selector)
+
+        for (const { rule: id, re, describe } of SELECTOR_PATTERNS) {
+            for (const m of masked.matchAll(re)) {
+                issues.push({
+                    rule:    id,
+                    pos:     positionIn(sheet, selector, m.index ?? 0, start.line, start.column),
+                    message: `${id}: ${describe(m[0])}`,
+                })
+            }
+        }
+
+        if (!sheet.module) return
+        for (const part of splitSelectorList(masked)) {
+            // :global() is already reported above
+            if (hasLocalName(part.text) || /:global\b/.test(part.text)) continue
+            const lead = part.text.length - part.text.trimStart().length
+            issues.push({
+                rule:    'module',
+                pos:     positionIn(sheet, selector, part.offset + lead, start.line, start.column),
+                message: `module: "${selector.slice(part.offset, part.offset + part.text.length).trim()}" has no class or id, so CSS modules leave it global`,
+            })
+        }
+    })
+}
+
+function blockSheet(file: string, block: SFCStyleBlock): SheetSource {
+    return {
+        file,
+        text:   block.content,
+        line:   block.loc.start.line,
+        column: block.loc.start.column,
+        module: !!block.module,
+    }
+}
+
+/** Checks every <style> block of one SFC. `text` defaults to the file on disk. */
+export function checkScopedStyles(file: string, text: string = fs.readFileSync(file, 'utf-8')): StyleIssue[] {
+    const { descriptor } = parseSfc(text, { filename: file })
+    const issues: StyleIssue[] = []
+
+    for (const block of descriptor.styles) {
+        const tag = { file, line: block.loc.start.line, column: 1 }
+
+        if (!block.scoped && !block.module) {
+            issues.push({
+                rule:    'unscoped',
+                pos:     tag,
+                message: 'unscoped: <style> must be `scoped` (or `module`)',
+            })
+        }
+
+        if (block.src) {
+            const srcFile = path.resolve(path.dirname(file), block.src)
+            if (!fs.existsSync(srcFile)) continue
+            checkSheet({ file: srcFile, text: fs.readFileSync(srcFile, 'utf-8'), line: 1, column: 1, module: !!block.module }, issues)
+        } else {
+            checkSheet(blockSheet(file, block), issues)
+        }
+    }
+
+    return issues
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export function resolveScopedStyles(config: ScopedStylesConfig | undefined): {
+    mode:  ScopedStylesMode
+    allow: ScopedStylesAllow[]
+} {
+    if (config === undefined) return { mode: 'error', allow: [] }
+    if (typeof config === 'string') return { mode: config, allow: [] }
+    return { mode: config.mode ?? 'error', allow: config.allow ?? [] }
+}
+
+function isAllowed(issue: StyleIssue, allow: ScopedStylesAllow[]): boolean {
+    const file = issue.pos.file.replace(/\\/g, '/')
+    return allow.some(a =>
+        typeof a === 'string'
+            ? a === issue.rule
+            : a.rule === issue.rule && (!a.file || file.endsWith('/' + a.file.replace(/\\/g, '/').replace(/^\.?\//, ''))))
+}
+
+// ── Vite plugin ───────────────────────────────────────────────────────────────
+
+export default function enforceScopedStyles(config?: ScopedStylesConfig): Plugin {
+    const { mode, allow } = resolveScopedStyles(config)
+    return {
+        name: 'enforce-scoped-styles',
+        enforce: 'pre',
+        transform(code, id) {
+            if (mode === 'off' || id.includes('?') || !id.endsWith('.vue')) return null
+
+            const { descriptor } = parseSfc(code, { filename: id })
+            for (const block of descriptor.styles)
+                if (block.src) this.addWatchFile(path.resolve(path.dirname(id), block.src))
+
+            const issues = checkScopedStyles(id, code).filter(i => !isAllowed(i, allow))
+            if (issues.length === 0) return null
+
+            const lines = issues.map(i => `${formatPos(i.pos, process.cwd())} — ${i.message}`)
+            if (mode === 'error')
+                this.error(`Global styles are not allowed (${issues.length} problem${issues.length > 1 ? 's' : ''}):\n${lines.join('\n')}`)
+            for (const line of lines) this.warn(line)
+            return null
+        },
+    }
 }
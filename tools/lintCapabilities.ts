@@ -0,0 +1,209 @@
+// tools/lintCapabilities.ts
+//
+// Cross-checks the WidgetSdk calls a widget makes against the capabilities
+// its entry.ts declares.
+//
+// The host gates every WidgetSdk member behind a Cap (see the section comments
+// in types/widgets-sdk.d.ts). An undeclared cap means the member is simply
+// missing at runtime — `fsWriteText` is undefined and the widget fails
+// silently. This check reports that at build time instead:
+//
+//   LocalPlayer_V2.1/usePlaylist.ts:13:3 — fsWriteText requires capability "Write", which entry.ts does not declare
+//   src/entry.ts:19:8 — capability "Network" is declared but no scanned SDK usage requires it
+//
+// WHAT COUNTS AS USAGE:
+//   - destructuring `inject<WidgetSdk>('widgetSdk')` (with or without `?? {}`)
+//   - member access on a variable holding it (`sdk.vaultList`, `sdk?.useChannel`)
+//   - member access / destructuring on identifiers typed `WidgetSdk` or named `sdk`
+//   - named imports of a gated member from 'gexplorer/widgets' or host '/src/…'
+//     modules (e.g. `fsListDirSmart` from '/src/widgets/fs')
+//
+// Caps that gate no SDK member (Exec) are never reported as unused — there
+// is no usage to scan for. The member → cap map lives in tools/sdkCaps.ts.
+
+import path from 'node:path'
+import ts from 'typescript'
+import type { Plugin } from 'vite'
+import { formatPos, getProp, itemsOf, readEntryManifest, type SourcePos } from './manifestAst'
+import { blockPos, listWidgetFiles, readScriptBlocks, type ScriptBlock } from './widgetSources'
+import { SDK_CAPS } from './sdkCaps'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SdkUsage {
+    member: string
+    pos:    SourcePos
+}
+
+export interface CapabilityIssue {
+    kind:    'undeclared' | 'unused'
+    pos:     SourcePos
+    message: string
+}
+
+export type CapabilityLintMode = 'off' | 'warn' | 'error'
+
+// ── Usage scan ────────────────────────────────────────────────────────────────
+
+function stripNullish(expr: ts.Expression): ts.Expression {
+    while (true) {
+        if (ts.isParenthesizedExpression(expr) || ts.isNonNullExpression(expr) || ts.isAsExpression(expr)) {
+            expr = expr.expression
+        } else if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken) {
+            expr = expr.left
+        } else {
+            return expr
+        }
+    }
+}
+
+function isInjectSdk(expr: ts.Expression): boolean {
+    if (!ts.isCallExpression(expr) || !ts.isIdentifier(expr.expression) || expr.expression.text !== 'inject') return false
+    const arg = expr.arguments[0]
+    return !!arg && ts.isStringLiteralLike(arg) && arg.text === 'widgetSdk'
+}
+
+function isWidgetSdkType(type: ts.TypeNode | undefined): boolean {
+    return !!type && ts.isTypeReferenceNode(type) && ts.isIdentifier(type.typeName) && type.typeName.text === 'WidgetSdk'
+}
+
+function isHostModule(spec: string): boolean {
+    return spec === 'gexplorer/widgets' || spec.startsWith('/src/')
+}
+
+export function scanSdkUsage(block: ScriptBlock): SdkUsage[] {
+    const usages: SdkUsage[] = []
+    // Identifiers known to hold the SDK object. `sdk` is the repo-wide name
+    // for injected / passed-through SDK references.
+    const sdkNames = new Set<string>(['sdk'])
+
+    const isSdkExpr = (expr: ts.Expression): boolean => {
+        const inner = stripNullish(expr)
+        if (isInjectSdk(inner)) return true
+        if (ts.isIdentifier(inner)) return sdkNames.has(inner.text)
+        // options.sdk / props.sdk
+        return ts.isPropertyAccessExpression(inner) && inner.name.text === 'sdk'
+    }
+
+    const recordPattern = (pattern: ts.ObjectBindingPattern) => {
+        for (const el of pattern.elements) {
+            const nameNode = el.propertyName ?? el.name
+            if (!ts.isIdentifier(nameNode)) continue
+            if (SDK_CAPS[nameNode.text]) usages.push({ member: nameNode.text, pos: blockPos(block, nameNode) })
+            if (nameNode.text === 'sdk' && ts.isIdentifier(el.name)) sdkNames.add(el.name.text)
+        }
+    }
+
+    // First pass — collect every identifier bound to the SDK so later member
+    // accesses resolve regardless of declaration order.
+    const collect = (node: ts.Node) => {
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+            if ((node.initializer && isSdkExpr(node.initializer)) || isWidgetSdkType(node.type))
+                sdkNames.add(node.name.text)
+        }
+        if (ts.isParameter(node) && ts.isIdentifier(node.name) && isWidgetSdkType(node.type))
+            sdkNames.add(node.name.text)
+        ts.forEachChild(node, collect)
+    }
+    collect(block.sourceFile)
+
+    const visit = (node: ts.Node) => {
+        if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier) && isHostModule(node.moduleSpecifier.text)) {
+            const bindings = node.importClause?.namedBindings
+            if (bindings && ts.isNamedImports(bindings)) {
+                for (const spec of bindings.elements) {
+                    const name = (spec.propertyName ?? spec.name).text
+                    if (!spec.isTypeOnly && SDK_CAPS[name]) usages.push({ member: name, pos: blockPos(block, spec) })
+                }
+            }
+        }
+
+        if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer && isSdkExpr(node.initializer))
+            recordPattern(node.name)
+
+        if (
+            (ts.isPropertyAccessExpression(node) || ts.isPropertyAccessChain(node)) &&
+            SDK_CAPS[node.name.text] &&
+            isSdkExpr(node.expression)
+        ) {
+            usages.push({ member: node.name.text, pos: blockPos(block, node.name) })
+        }
+
+        ts.forEachChild(node, visit)
+    }
+    visit(block.sourceFile)
+
+    return usages
+}
+
+// ── Lint ──────────────────────────────────────────────────────────────────────
+
+const SCANNABLE_CAPS = new Set(Object.values(SDK_CAPS).flat())
+
+export function lintCapabilities(entryFile: string, widgetDir: string = path.dirname(entryFile)): CapabilityIssue[] {
+    const entry = readEntryManifest(entryFile)
+
+    const declared = new Map<string, SourcePos>()
+    for (const item of itemsOf(getProp(entry.manifest ?? undefined, 'capabilities'))) {
+        const cap = item.kind === 'literal' ? item : getProp(item, 'cap')
+        if (cap?.kind === 'literal' && typeof cap.value === 'string') declared.set(cap.value, cap.pos)
+    }
+
+    const usages = listWidgetFiles(widgetDir)
+        .flatMap(readScriptBlocks)
+        .flatMap(scanSdkUsage)
+
+    const issues: CapabilityIssue[] = []
+    const needed = new Set<string>()
+    const reported = new Set<string>()
+
+    for (const usage of usages) {
+        const caps = SDK_CAPS[usage.member]
+        const satisfied = caps.find(c => declared.has(c))
+        if (satisfied) {
+            needed.add(satisfied)
+            continue
+        }
+        const key = `${usage.member}@${usage.pos.file}:${usage.pos.line}`
+        if (reported.has(key)) continue
+        reported.add(key)
+        const wanted = caps.length === 1 ? `capability "${caps[0]}"` : `one of ${caps.map(c => `"${c}"`).join(', ')}`
+        issues.push({
+            kind:    'undeclared',
+            pos:     usage.pos,
+            message: `${usage.member} requires ${wanted}, which entry.ts does not declare`,
+        })
+    }
+
+    for (const [cap, pos] of declared) {
+        if (needed.has(cap) || !SCANNABLE_CAPS.has(cap)) continue
+        issues.push({
+            kind:    'unused',
+            pos,
+            message: `capability "${cap}" is declared but no scanned SDK usage requires it`,
+        })
+    }
+
+    return issues
+}
+
+// ── Vite plugin ───────────────────────────────────────────────────────────────
+
+export default function lintWidgetCapabilities(entryFile: string, mode: CapabilityLintMode = 'warn'): Plugin {
+    const entry = path.resolve(entryFile)
+    return {
+        name: 'lint-widget-capabilities',
+        buildStart() {
+            if (mode === 'off') return
+            const issues = lintCapabilities(entry)
+            if (issues.length === 0) return
+
+            const lines = issues.map(i => `${formatPos(i.pos, process.cwd())} — ${i.message}`)
+            const undeclared = issues.filter(i => i.kind === 'undeclared').length
+
+            if (mode === 'error' && undeclared > 0)
+                this.error(`Capability check failed:\n${lines.join('\n')}`)
+            for (const line of lines) this.warn(line)
+        },
+    }
+}
@@ -0,0 +1,232 @@
+// tools/manifestAst.ts
+//
+// Static reader for widget entry.ts manifests.
+//
+// The manifest is never executed at build time — entry.ts imports .vue files
+// and host modules that only resolve inside GExplorer. Instead the default
+// export is parsed with the TypeScript compiler and folded into a small
+// StaticValue tree that keeps a source position on every node, so rules can
+// report file:line:column for each problem.
+//
+// WHAT IS FOLDED:
+//   object / array literals, string / number / boolean / null literals,
+//   template strings without substitutions, and identifiers that point at a
+//   top-level `const` in the same file (e.g. `menus: menuConfig`).
+//   Everything else (functions, imports, calls) becomes a 'dynamic' node.
+
+import fs from 'node:fs'
+import ts from 'typescript'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SourcePos {
+    file:   string
+    line:   number   // 1-based
+    column: number   // 1-based
+}
+
+export interface StaticProp {
+    key:    string
+    keyPos: SourcePos
+    value:  StaticValue
+}
+
+export type StaticValue =
+    | { kind: 'object';  pos: SourcePos; props: Map<string, StaticProp> }
+    | { kind: 'array';   pos: SourcePos; items: StaticValue[] }
+    | { kind: 'literal'; pos: SourcePos; value: string | number | boolean | null }
+    | { kind: 'dynamic'; pos: SourcePos; text: string }
+
+export interface EntryManifest {
+    file:       string
+    sourceFile: ts.SourceFile
+    /** The folded default export, or null when entry.ts has none. */
+    manifest:   StaticValue | null
+    /** True when the default export is wrapped in defineWidget(). */
+    usesDefineWidget: boolean
+    /** Menu configs passed to registerWidgetMenus(type, config) at module level. */
+    registeredMenus:  StaticValue[]
+}
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+export function parseSource(file: string, text: string = fs.readFileSync(file, 'utf-8')): ts.SourceFile {
+    return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS)
+}
+
+export function posOf(sourceFile: ts.SourceFile, node: ts.Node): SourcePos {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+    return { file: sourceFile.fileName, line: line + 1, column: character + 1 }
+}
+
+export function formatPos(pos: SourcePos, relativeTo?: string): string {
+    const file = relativeTo && pos.file.startsWith(relativeTo)
+        ? pos.file.slice(relativeTo.length).replace(/^[\\/]/, '')
+        : pos.file
+    return `${file}:${pos.line}:${pos.column}`
+}
+
+function topLevelConsts(sourceFile: ts.SourceFile): Map<string, ts.Expression> {
+    const consts = new Map<string, ts.Expression>()
+    for (const stmt of sourceFile.statements) {
+        if (!ts.isVariableStatement(stmt)) continue
+        if (!(stmt.declarationList.flags & ts.NodeFlags.Const)) continue
+        for (const decl of stmt.declarationList.declarations)
+            if (ts.isIdentifier(decl.name) && decl.initializer)
+                consts.set(decl.name.text, decl.initializer)
+    }
+    return consts
+}
+
+function unwrap(expr: ts.Expression): ts.Expression {
+    while (
+        ts.isParenthesizedExpression(expr) ||
+        ts.isAsExpression(expr) ||
+        ts.isSatisfiesExpression(expr) ||
+        ts.isTypeAssertionExpression(expr)
+    ) expr = expr.expression
+    return expr
+}
+
+function propName(name: ts.PropertyName, sourceFile: ts.SourceFile): string | null {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text
+    if (ts.isComputedPropertyName(name)) {
+        const inner = unwrap(name.expression)
+        if (ts.isStringLiteralLike(inner)) return inner.text
+    }
+    return null
+}
+
+// ── Folding ───────────────────────────────────────────────────────────────────
+
+export function foldExpression(
+    expr: ts.Expression,
+    sourceFile: ts.SourceFile,
+    consts: Map<string, ts.Expression> = topLevelConsts(sourceFile),
+    seen: Set<string> = new Set(),
+): StaticValue {
+    expr = unwrap(expr)
+    const pos = posOf(sourceFile, expr)
+
+    if (ts.isObjectLiteralExpression(expr)) {
+        const props = new Map<string, StaticProp>()
+        for (const p of expr.properties) {
+            if (ts.isPropertyAssignment(p)) {
+                const key = propName(p.name, sourceFile)
+                if (key === null) continue
+                props.set(key, {
+                    key,
+                    keyPos: posOf(sourceFile, p.name),
+                    value:  foldExpression(p.initializer, sourceFile, consts, seen),
+                })
+            } else if (ts.isShorthandPropertyAssignment(p)) {
+                props.set(p.name.text, {
+                    key:    p.name.text,
+                    keyPos: posOf(sourceFile, p.name),
+                    value:  foldExpression(p.name, sourceFile, consts, seen),
+                })
+            } else if (ts.isMethodDeclaration(p) && p.name) {
+                const key = propName(p.name, sourceFile)
+                if (key === null) continue
+                props.set(key, {
+                    key,
+                    keyPos: posOf(sourceFile, p.name),
+                    value:  { kind: 'dynamic', pos: posOf(sourceFile, p), text: 'method' },
+                })
+            }
+            // Spread assignments are ignored — they cannot be checked statically.
+        }
+        return { kind: 'object', pos, props }
+    }
+
+    if (ts.isArrayLiteralExpression(expr)) {
+        return {
+            kind:  'array',
+            pos,
+            items: expr.elements
+                .filter(e => !ts.isSpreadElement(e) && !ts.isOmittedExpression(e))
+                .map(e => foldExpression(e, sourceFile, consts, seen)),
+        }
+    }
+
+    if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr))
+        return { kind: 'literal', pos, value: expr.text }
+    if (ts.isNumericLiteral(expr))
+        return { kind: 'literal', pos, value: Number(expr.text) }
+    if (ts.isPrefixUnaryExpression(expr) && expr.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expr.operand))
+        return { kind: 'literal', pos, value: -Number(expr.operand.text) }
+    if (expr.kind === ts.SyntaxKind.TrueKeyword)  return { kind: 'literal', pos, value: true }
+    if (expr.kind === ts.SyntaxKind.FalseKeyword) return { kind: 'literal', pos, value: false }
+    if (expr.kind === ts.SyntaxKind.NullKeyword)  return { kind: 'literal', pos, value: null }
+
+    if (ts.isIdentifier(expr) && consts.has(expr.text) && !seen.has(expr.text)) {
+        const next = new Set(seen).add(expr.text)
+        return foldExpression(consts.get(expr.text)!, sourceFile, consts, next)
+    }
+
+    return { kind: 'dynamic', pos, text: expr.getText(sourceFile).slice(0, 60) }
+}
+
+// ── Entry reading ─────────────────────────────────────────────────────────────
+
+function isCallTo(expr: ts.Expression, name: string): expr is ts.CallExpression {
+    return ts.isCallExpression(expr) && ts.isIdentifier(expr.expression) && expr.expression.text === name
+}
+
+export function readEntryManifest(file: string, text?: string): EntryManifest {
+    const sourceFile = parseSource(file, text)
+    const consts     = topLevelConsts(sourceFile)
+
+    let manifest: StaticValue | null = null
+    let usesDefineWidget = false
+    const registeredMenus: StaticValue[] = []
+
+    for (const stmt of sourceFile.statements) {
+        if (ts.isExportAssignment(stmt) && !stmt.isExportEquals) {
+            let expr = unwrap(stmt.expression)
+            if (isCallTo(expr, 'defineWidget') && expr.arguments[0]) {
+                usesDefineWidget = true
+                expr = expr.arguments[0]
+            }
+            manifest = foldExpression(expr, sourceFile, consts)
+        }
+
+        if (ts.isExpressionStatement(stmt)) {
+            const expr = unwrap(stmt.expression)
+            if (isCallTo(expr, 'registerWidgetMenus') && expr.arguments[1])
+                registeredMenus.push(foldExpression(expr.arguments[1], sourceFile, consts))
+        }
+    }
+
+    return { file, sourceFile, manifest, usesDefineWidget, registeredMenus }
+}
+
+// ── Accessors ─────────────────────────────────────────────────────────────────
+
+export function getProp(value: StaticValue | undefined, key: string): StaticValue | undefined {
+    return value?.kind === 'object' ? value.props.get(key)?.value : undefined
+}
+
+export function getString(value: StaticValue | undefined, key: string): string | undefined {
+    const v = getProp(value, key)
+    return v?.kind === 'literal' && typeof v.value === 'string' ? v.value : undefined
+}
+
+export function itemsOf(value: StaticValue | undefined): StaticValue[] {
+    return value?.kind === 'array' ? value.items : []
+}
+
+/** Converts a folded value to plain JSON. Dynamic nodes are dropped. */
+export function toPlain(value: StaticValue): unknown {
+    switch (value.kind) {
+        case 'literal': return value.value
+        case 'array':   return value.items.filter(i => i.kind !== 'dynamic').map(toPlain)
+        case 'object': {
+            const out: Record<string, unknown> = {}
+            for (const [key, prop] of value.props)
+                if (prop.value.kind !== 'dynamic') out[key] = toPlain(prop.value)
+            return out
+        }
+        case 'dynamic': return undefined
+    }
+}
@@ -0,0 +1,234 @@
+// tools/packageWidgets.ts
+//
+// Builds workspace widgets and wraps each one in a signed .gexwidget package
+// (format: tools/widgetPackage.ts).
+//
+// USAGE:
+//   npm run package                          — package every workspace widget
+//   npm run package -- --only items,links    — restrict to some widget types
+//   npm run package -- --out D:/releases     — output dir (default dist/packages)
+//   npm run package -- --key ./release.pem   — signing key (default below)
+//   npm run package -- --init-key            — create the signing key, print its public key
+//
+// SIGNING KEY:
+//   An Ed25519 private key in PKCS#8 PEM. Resolved from --key, then the
+//   WIDGET_SIGNING_KEY env var, then ~/.gexplorer/widget-signing-key.pem.
+//   The host trusts packages by the base64 public key printed here.
+//
+// Each widget is built fresh into a staging dir with the same config as
+// `npm run build:all`, so the package always matches the sources. The
+// manifest is read statically from entry.ts, like the build-time validator.
+
+import { build } from 'vite'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createWidgetViteConfig } from './widgetViteConfig'
+import { getProp, getString, itemsOf, readEntryManifest, toPlain } from './manifestAst'
+import { readWorkspace, resolveWorkspace, workspacePath, type ResolvedWorkspaceWidget } from './workspace'
+import {
+    PACKAGE_EXTENSION,
+    PACKAGE_FORMAT,
+    bytesToBase64,
+    finishPackage,
+    isValidVersion,
+    keyIdOf,
+    preparePackage,
+    verifyWidgetPackage,
+    type PackageManifest,
+    type PackagedWorker,
+} from './widgetPackage'
+
+// ── Args ──────────────────────────────────────────────────────────────────────
+
+interface PackageArgs {
+    only:    Set<string> | null
+    out:     string
+    key:     string
+    initKey: boolean
+}
+
+const DEFAULT_KEY = path.join(os.homedir(), '.gexplorer', 'widget-signing-key.pem')
+
+function argValue(argv: string[], flag: string): string | undefined {
+    const i = argv.indexOf(flag)
+    return i >= 0 ? argv[i + 1] : undefined
+}
+
+function parseArgs(argv: string[]): PackageArgs {
+    const only = argValue(argv, '--only')
+    return {
+        only:    only ? new Set(only.split(',').map(s => s.trim()).filter(Boolean)) : null,
+        out:     path.resolve(argValue(argv, '--out') ?? 'dist/packages'),
+        key:     path.resolve(argValue(argv, '--key') ?? process.env.WIDGET_SIGNING_KEY ?? DEFAULT_KEY),
+        initKey: argv.includes('--init-key'),
+    }
+}
+
+// ── Signing key ───────────────────────────────────────────────────────────────
+
+interface SigningKey {
+    privateKey: crypto.KeyObject
+    /** Raw 32-byte public key. */
+    publicKey:  Uint8Array
+}
+
+function rawPublicKey(key: crypto.KeyObject): Uint8Array {
+    // SPKI DER for Ed25519 is a fixed 12-byte prefix + the raw key
+    return new Uint8Array(key.export({ format: 'der', type: 'spki' }).subarray(-32))
+}
+
+function loadSigningKey(file: string): SigningKey {
+    if (!fs.existsSync(file))
+        throw new Error(`Signing key not found: ${file}\nCreate one with: npm run package -- --init-key`)
+    const privateKey = crypto.createPrivateKey(fs.readFileSync(file, 'utf-8'))
+    if (privateKey.asymmetricKeyType !== 'ed25519')
+        throw new Error(`${file}: expected an Ed25519 key, got ${privateKey.asymmetricKeyType}`)
+    return { privateKey, publicKey: rawPublicKey(crypto.createPublicKey(privateKey)) }
+}
+
+function initSigningKey(file: string): SigningKey {
+    if (!fs.existsSync(file)) {
+        const { privateKey } = crypto.generateKeyPairSync('ed25519')
+        fs.mkdirSync(path.dirname(file), { recursive: true })
+        fs.writeFileSync(file, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 })
+        console.log(`Created signing key ${file}`)
+    } else {
+        console.log(`Signing key already exists: ${file}`)
+    }
+    return loadSigningKey(file)
+}
+
+// ── Manifest ──────────────────────────────────────────────────────────────────
+
+function readPackageManifest(widget: ResolvedWorkspaceWidget): PackageManifest {
+    const { manifest } = readEntryManifest(widget.entry)
+    const where = path.relative(process.cwd(), widget.entry)
+    if (manifest?.kind !== 'object') throw new Error(`${where}: no static manifest to package`)
+
+    const id      = getString(manifest, 'id')
+    const version = getString(manifest, 'version')
+    if (!id)      throw new Error(`${where}: manifest "id" must be a string literal`)
+    if (!version || !isValidVersion(version))
+        throw new Error(`${where}: manifest "version" must be a semver string literal (got ${JSON.stringify(version ?? null)})`)
+
+    return {
+        format:       PACKAGE_FORMAT,
+        id,
+        version,
+        widgetType:   widget.widgetType,
+        displayName:  getString(manifest, 'displayName'),
+        description:  getString(manifest, 'description'),
+        api:          getString(manifest, 'api'),
+        capabilities: itemsOf(getProp(manifest, 'capabilities')).flatMap(c =>
+            c.kind === 'literal' && typeof c.value === 'string'
+                ? [{ cap: c.value }]
+                : c.kind === 'object' && getString(c, 'cap')
+                    ? [{ cap: getString(c, 'cap')!, reason: getString(c, 'reason') }]
+                    : []),
+        workers:      itemsOf(getProp(manifest, 'workers'))
+            .map(w => toPlain(w) as PackagedWorker)
+            .filter(w => w && typeof w.id === 'string'),
+    }
+}
+
+// ── Build + package ───────────────────────────────────────────────────────────
+
+function readBundle(dir: string): Map<string, Uint8Array> {
+    const files = new Map<string, Uint8Array>()
+    const walk = (sub: string) => {
+        for (const entry of fs.readdirSync(path.join(dir, sub), { withFileTypes: true })) {
+            const rel = sub ? `${sub}/${entry.name}` : entry.name
+            if (entry.isDirectory()) walk(rel)
+            else files.set(rel, new Uint8Array(fs.readFileSync(path.join(dir, rel))))
+        }
+    }
+    walk('')
+    return files
+}
+
+async function packageWidget(widget: ResolvedWorkspaceWidget, key: SigningKey, outDir: string): Promise<string> {
+    const manifest = readPackageManifest(widget)
+    const stageDir = path.join(outDir, '.stage', widget.widgetType)
+
+    const config = createWidgetViteConfig({
+        widgetType:     widget.widgetType,
+        entry:          widget.entry,
+        outDir:         stageDir,
+        sourcemap:      widget.sourcemap,
+        capabilityLint: widget.capabilityLint,
+        scopedStyles:   widget.scopedStyles,
+    })
+    await build({ ...config, configFile: false, root: process.cwd(), logLevel: 'warn' })
+
+    try {
+        const { files, integrityBytes } = await preparePackage(manifest, readBundle(stageDir))
+        const signature = crypto.sign(null, integrityBytes, key.privateKey)
+        const bytes = finishPackage(files, {
+            algorithm: 'Ed25519',
+            keyId:     await keyIdOf(key.publicKey),
+            publicKey: bytesToBase64(key.publicKey),
+            signature: bytesToBase64(new Uint8Array(signature)),
+        })
+
+        // Never ship a package the host would refuse
+        const check = await verifyWidgetPackage(bytes, { trustedKeys: [bytesToBase64(key.publicKey)] })
+        if (!check.ok) throw new Error(`self-check failed (${check.code}): ${check.error}`)
+
+        const file = path.join(outDir, `${widget.widgetType}-${manifest.version}${PACKAGE_EXTENSION}`)
+        fs.writeFileSync(file, bytes)
+        return file
+    } finally {
+        fs.rmSync(stageDir, { recursive: true, force: true })
+    }
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2))
+
+    if (args.initKey) {
+        const key = initSigningKey(args.key)
+        console.log(`Public key (${await keyIdOf(key.publicKey)}): ${bytesToBase64(key.publicKey)}`)
+        return
+    }
+
+    const key     = loadSigningKey(args.key)
+    const file    = workspacePath()
+    const widgets = resolveWorkspace(readWorkspace(file), file)
+        .filter(w => !args.only || args.only.has(w.widgetType))
+
+    if (args.only) {
+        const known   = new Set(widgets.map(w => w.widgetType))
+        const missing = [...args.only].filter(t => !known.has(t))
+        if (missing.length > 0)
+            throw new Error(`Unknown widget type(s) for --only: ${missing.join(', ')}`)
+    }
+
+    fs.mkdirSync(args.out, { recursive: true })
+    const failures: string[] = []
+
+    // Sequential for the same reason as build:all
+    for (const widget of widgets) {
+        try {
+            const out = await packageWidget(widget, key, args.out)
+            console.log(`[${widget.widgetType}] packaged → ${path.relative(process.cwd(), out) || out}`)
+        } catch (err: any) {
+            failures.push(widget.widgetType)
+            console.error(`[${widget.widgetType}] packaging failed:`, err?.message ?? err)
+        }
+    }
+    fs.rmSync(path.join(args.out, '.stage'), { recursive: true, force: true })
+
+    console.log(`Signed with ${await keyIdOf(key.publicKey)} — public key ${bytesToBase64(key.publicKey)}`)
+
+    if (failures.length > 0) {
+        console.error(`\n${failures.length} widget(s) failed: ${failures.join(', ')}`)
+        process.exitCode = 1
+    }
+}
+
+main().catch((err) => {
+    console.error(err?.message ?? err)
+    process.exitCode = 1
+})
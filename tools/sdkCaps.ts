@@ -0,0 +1,79 @@
+// tools/sdkCaps.ts
+//
+// Which capability gates each WidgetSdk member.
+//
+// Pure data — imported by the build-time capability linter and by the
+// browser-side mock host, which gates its SDK the same way the real host does.
+// Keep in sync with the cap sections of WidgetSdk in types/widgets-sdk.d.ts.
+
+/** Any one of the listed caps satisfies the member. */
+export const SDK_CAPS: Record<string, readonly string[]> = {
+    // Read cap
+    fsListDirSmart:          ['Read'],
+
+    // Write cap
+    fsMkdir:                 ['Write'],
+    fsWriteText:             ['Write'],
+    fsCopy:                  ['Write'],
+    fsMove:                  ['Write'],
+    fsRename:                ['Write'],
+    renameApplyBatch:        ['Write'],
+
+    // Metadata cap
+    fsDriveStats:            ['Metadata'],
+    loadIconPack:            ['Metadata'],
+
+    // Media cap
+    mintStreamHttp:          ['Media'],
+    fileRefsToPlaylistItems: ['Media'],
+
+    // Network cap
+    networkFetch:            ['Network'],
+
+    // Clipboard cap
+    clipboardCopyFiles:      ['Clipboard'],
+    clipboardCutFiles:       ['Clipboard'],
+    clipboardGetFiles:       ['Clipboard'],
+
+    // P2P / SP2P identity, invites and channels
+    p2pGetIdentity:          ['P2P', 'SP2P', 'P2PDirect'],
+    p2pDeriveKey:            ['P2P', 'SP2P', 'P2PDirect'],
+    p2pSetUsername:          ['P2P', 'SP2P', 'P2PDirect'],
+    p2pSign:                 ['P2P', 'SP2P', 'P2PDirect'],
+    p2pVerify:               ['P2P', 'SP2P', 'P2PDirect'],
+    p2pCreateInvite:         ['P2P', 'SP2P', 'P2PDirect'],
+    p2pAcceptInvite:         ['P2P', 'SP2P', 'P2PDirect'],
+    useChannel:              ['P2P', 'SP2P', 'P2PDirect'],
+
+    // SecureStorage cap
+    vaultOpen:               ['SecureStorage'],
+    vaultClose:              ['SecureStorage'],
+    vaultSealAs:             ['SecureStorage'],
+    vaultSealContentAs:      ['SecureStorage'],
+    vaultUnseal:             ['SecureStorage'],
+    vaultUnsealCleanup:      ['SecureStorage'],
+    vaultUnsealText:         ['SecureStorage'],
+    vaultUnsealBase64:       ['SecureStorage'],
+    vaultList:               ['SecureStorage'],
+    vaultDelete:             ['SecureStorage'],
+
+    // Chat cap
+    chatGetHistory:          ['Chat'],
+    chatSearch:              ['Chat'],
+    chatGetMessage:          ['Chat'],
+    chatUpdateMessage:       ['Chat'],
+    onChatMessage:           ['Chat'],
+    onChatHistoryReady:      ['Chat'],
+
+    // Notifications cap
+    notificationShow:        ['Notifications'],
+    notificationClose:       ['Notifications'],
+    onNotificationClicked:   ['Notifications'],
+}
+
+export function capsSatisfy(member: string, declared: Iterable<string>): boolean {
+    const caps = SDK_CAPS[member]
+    if (!caps) return true
+    const have = new Set(declared)
+    return caps.some(c => have.has(c))
+}
@@ -0,0 +1,52 @@
+// tools/useWidgetConfig.ts
+//
+// useWidgetConfig() — a widget's `props.config` after prepareWidgetConfig():
+// migrated, version-stamped, validated against `configSchema` and filled from
+// `defaults`, recomputed whenever the host hands over a new config.
+//
+// When a migration ran, the migrated config goes back to the host once as an
+// `updateConfig`, so it is persisted and the chain does not run on the next
+// mount. Schema problems are logged and replaced by their defaults.
+//
+// Widgets import it (and prepareWidgetConfig) from 'gexplorer/widgets'; the
+// build bundles this file in their place (tools/bundledExports.ts) and the
+// mock host re-exports it.
+
+import { computed, watch } from 'vue'
+import type {
+    StoredWidgetConfig,
+    WidgetConfigHandle,
+    WidgetConfigManifest,
+    WidgetConfigPatch,
+} from 'gexplorer/widgets'
+import { prepareWidgetConfig } from './widgetConfig'
+
+export { prepareWidgetConfig }
+
+export function useWidgetConfig(
+    manifest: WidgetConfigManifest,
+    getConfig: () => StoredWidgetConfig | null | undefined,
+    updateConfig: (config: StoredWidgetConfig) => void,
+): WidgetConfigHandle {
+    const prepared = computed(() => prepareWidgetConfig(manifest, getConfig()))
+
+    watch(prepared, ({ stored, migrated, issues }) => {
+        for (const issue of issues) console.warn(`[${manifest.id}] config: ${issue}`)
+        if (migrated.length > 0) updateConfig(stored)
+    }, { immediate: true })
+
+    function patch(partial: WidgetConfigPatch) {
+        const stored = prepared.value.stored
+        updateConfig({
+            ...stored,
+            data: { ...stored.data, ...partial.data },
+            view: { ...stored.view, ...partial.view },
+        })
+    }
+
+    return {
+        config: computed(() => prepared.value.config),
+        stored: computed(() => prepared.value.stored),
+        patch,
+    }
+}
@@ -0,0 +1,342 @@
+// tools/validateManifest.ts
+//
+// Build-time validation of a widget's entry.ts manifest.
+//
+// Mirrors the WidgetManifest type in types/widgets-sdk.d.ts. The type-checker
+// only catches mistakes in entries wrapped in defineWidget(); this plugin
+// catches them in every entry and fails the Vite build with one line per
+// problem:
+//
+//   ExampleWidget_Weather/entry.ts:25:19 — capabilities[0]: use { cap: 'Network', reason: '…' } instead of a bare string
+//
+// RULES:
+//   - unknown top-level keys (e.g. `extensions` instead of `provides`)
+//   - unknown keys inside capabilities / workers / provides / consumes entries
+//   - capability values that are not a known Cap, or the bare-string form
+//   - capability reasons that are empty or a placeholder ("TODO: …")
+//   - defaults.view.layout not declared in any contexts layouts list (when the
+//     widget declares layouts at all — without any, the host's default applies)
+//   - configSchema fields that are malformed or disagree with `defaults`
+//   - configMigrations keys that are not semver or newer than `version`
+//   - duplicate menu item ids (menus and registerWidgetMenus configs)
+//
+// Keep the key and Cap lists below in sync with types/widgets-sdk.d.ts.
+
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import type { ConfigField } from 'gexplorer/widgets'
+import {
+    formatPos,
+    getProp,
+    getString,
+    itemsOf,
+    readEntryManifest,
+    toPlain,
+    type SourcePos,
+    type StaticValue,
+} from './manifestAst'
+import { configFieldProblem } from './widgetConfig'
+import { compareVersions, isValidVersion } from './widgetPackage'
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+
+export const KNOWN_CAPS = [
+    'Read', 'Write', 'Metadata', 'Media', 'Network', 'Clipboard', 'Exec',
+    'P2P', 'SP2P', 'P2PDirect', 'SecureStorage', 'Chat',
+    'Notifications',
+] as const
+
+export const WORKER_CAPS = [...KNOWN_CAPS, 'Ipc'] as const
+
+const MANIFEST_KEYS = new Set([
+    'api', 'id', 'version', 'displayName', 'description', 'Component',
+    'capabilities', 'contexts', 'defaults', 'configSchema', 'configMigrations',
+    'workers', 'vfsHandlers', 'links', 'provides', 'consumes',
+    'menus', 'menuContexts', 'actions', 'dropAccepts',
+])
+
+const REQUIRED_KEYS = ['id', 'version', 'Component']
+
+const CAPABILITY_KEYS = new Set(['cap', 'reason'])
+const WORKER_KEYS     = new Set(['id', 'executable', 'startOn', 'restartPolicy', 'singleton', 'caps', 'pipes', 'description'])
+const PROVIDE_KEYS    = new Set(['point', 'component', 'props'])
+const CONSUME_KEYS    = new Set(['point', 'multiple'])
+const LINK_KEYS       = new Set(['path', 'label'])
+const SCHEMA_KEYS     = new Set(['data', 'view'])
+const FIELD_KEYS      = new Set(['type', 'enum', 'min', 'max', 'nullable'])
+
+const FIELD_TYPES = ['string', 'number', 'boolean', 'array', 'object']
+
+const KEY_HINTS: Record<string, string> = {
+    extensions:  'provides',
+    targetPoint: 'point',
+    meta:        'props',
+    capability:  'capabilities',
+    caps:        'capabilities',
+}
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ManifestIssue {
+    pos:     SourcePos
+    message: string
+}
+
+// ── Rules ─────────────────────────────────────────────────────────────────────
+
+/** Reasons left as "TODO: …" and the like — never shown to users. */
+export function isPlaceholderReason(reason: string): boolean {
+    return /^(?:todo|tbd|fixme|xxx)\b/i.test(reason.trim())
+}
+
+function checkKeys(
+    value: StaticValue,
+    allowed: Set<string>,
+    where: string,
+    issues: ManifestIssue[],
+) {
+    if (value.kind !== 'object') return
+    for (const [key, prop] of value.props) {
+        if (allowed.has(key)) continue
+        const hint = KEY_HINTS[key] && allowed.has(KEY_HINTS[key]) ? ` — did you mean "${KEY_HINTS[key]}"?` : ''
+        issues.push({ pos: prop.keyPos, message: `${where}: unknown key "${key}"${hint}` })
+    }
+}
+
+function checkCapabilities(manifest: StaticValue, issues: ManifestIssue[]) {
+    const caps = getProp(manifest, 'capabilities')
+    if (!caps) return
+    if (caps.kind !== 'array') {
+        issues.push({ pos: caps.pos, message: 'capabilities: must be an array of { cap, reason }' })
+        return
+    }
+
+    caps.items.forEach((item, i) => {
+        const where = `capabilities[${i}]`
+        if (item.kind === 'literal') {
+            issues.push({
+                pos:     item.pos,
+                message: `${where}: use { cap: '${item.value}', reason: '…' } instead of a bare string`,
+            })
+            return
+        }
+        if (item.kind !== 'object') return
+
+        checkKeys(item, CAPABILITY_KEYS, where, issues)
+
+        const cap = getProp(item, 'cap')
+        if (!cap) {
+            issues.push({ pos: item.pos, message: `${where}: missing "cap"` })
+        } else if (cap.kind === 'literal' && !(KNOWN_CAPS as readonly unknown[]).includes(cap.value)) {
+            issues.push({ pos: cap.pos, message: `${where}: unknown capability "${cap.value}" (known: ${KNOWN_CAPS.join(', ')})` })
+        }
+
+        const reason = getString(item, 'reason')
+        if (!reason?.trim())
+            issues.push({ pos: item.pos, message: `${where}: "reason" must be a non-empty string` })
+        else if (isPlaceholderReason(reason))
+            issues.push({ pos: item.pos, message: `${where}: "reason" is a placeholder — users see it at install time` })
+    })
+}
+
+function checkWorkers(manifest: StaticValue, issues: ManifestIssue[]) {
+    itemsOf(getProp(manifest, 'workers')).forEach((worker, i) => {
+        const where = `workers[${i}]`
+        checkKeys(worker, WORKER_KEYS, where, issues)
+        for (const cap of itemsOf(getProp(worker, 'caps'))) {
+            if (cap.kind === 'literal' && !(WORKER_CAPS as readonly unknown[]).includes(cap.value))
+                issues.push({ pos: cap.pos, message: `${where}.caps: unknown capability "${cap.value}"` })
+        }
+    })
+}
+
+function checkExtensions(manifest: StaticValue, issues: ManifestIssue[]) {
+    itemsOf(getProp(manifest, 'provides')).forEach((p, i) => {
+        checkKeys(p, PROVIDE_KEYS, `provides[${i}]`, issues)
+        if (p.kind === 'object' && !getString(p, 'point'))
+            issues.push({ pos: p.pos, message: `provides[${i}]: missing "point"` })
+    })
+    itemsOf(getProp(manifest, 'consumes')).forEach((c, i) => {
+        checkKeys(c, CONSUME_KEYS, `consumes[${i}]`, issues)
+        if (c.kind === 'object' && !getString(c, 'point'))
+            issues.push({ pos: c.pos, message: `consumes[${i}]: missing "point"` })
+    })
+}
+
+function checkLinks(manifest: StaticValue, issues: ManifestIssue[]) {
+    itemsOf(getProp(manifest, 'links')).forEach((link, i) => {
+        const where = `links[${i}]`
+        checkKeys(link, LINK_KEYS, where, issues)
+        if (link.kind !== 'object') return
+        const path = getString(link, 'path')
+        if (!path?.trim())
+            issues.push({ pos: link.pos, message: `${where}: missing "path"` })
+        else if (path.includes('://') || path.startsWith('/'))
+            issues.push({ pos: link.pos, message: `${where}: "path" is relative to the widget's scheme — drop the scheme and leading "/"` })
+    })
+}
+
+function declaredLayouts(manifest: StaticValue): Set<string> {
+    const ids = new Set<string>()
+    const contexts = getProp(manifest, 'contexts')
+    if (contexts?.kind !== 'object') return ids
+
+    const collect = (list: StaticValue | undefined) => {
+        for (const layout of itemsOf(list)) {
+            const id = getString(layout, 'id')
+            if (id) ids.add(id)
+        }
+    }
+
+    for (const [key, prop] of contexts.props) {
+        if (key === 'layouts') collect(prop.value)
+        else collect(getProp(prop.value, 'layouts'))
+    }
+    return ids
+}
+
+function checkDefaultLayout(manifest: StaticValue, issues: ManifestIssue[]) {
+    const layout = getProp(getProp(getProp(manifest, 'defaults'), 'view'), 'layout')
+    if (layout?.kind !== 'literal' || typeof layout.value !== 'string') return
+
+    // No layouts declared anywhere — the host's default layout list applies
+    const declared = declaredLayouts(manifest)
+    if (declared.size === 0 || declared.has(layout.value)) return
+
+    issues.push({
+        pos:     layout.pos,
+        message: `defaults.view.layout: "${layout.value}" is not declared in contexts (declared: ${[...declared].join(', ')})`,
+    })
+}
+
+function checkConfigSchema(manifest: StaticValue, issues: ManifestIssue[]) {
+    const schema = getProp(manifest, 'configSchema')
+    if (!schema) return
+    if (schema.kind !== 'object') {
+        if (schema.kind !== 'dynamic')
+            issues.push({ pos: schema.pos, message: 'configSchema: must be an object of { data, view } field maps' })
+        return
+    }
+    checkKeys(schema, SCHEMA_KEYS, 'configSchema', issues)
+
+    const defaults = getProp(manifest, 'defaults')
+    for (const section of SCHEMA_KEYS) {
+        const fields = getProp(schema, section)
+        if (fields?.kind !== 'object') continue
+
+        for (const [key, prop] of fields.props) {
+            const where = `configSchema.${section}.${key}`
+            const field = prop.value
+            checkKeys(field, FIELD_KEYS, where, issues)
+
+            const type = getProp(field, 'type')
+            if (!type) {
+                issues.push({ pos: field.pos, message: `${where}: missing "type"` })
+                continue
+            }
+            if (type.kind === 'literal' && !FIELD_TYPES.includes(type.value as string)) {
+                issues.push({ pos: type.pos, message: `${where}: unknown type "${type.value}" (known: ${FIELD_TYPES.join(', ')})` })
+                continue
+            }
+
+            // Defaults must satisfy their own schema, or every instance starts invalid
+            const value = getProp(getProp(defaults, section), key)
+            if (!value || value.kind === 'dynamic' || field.kind !== 'object') continue
+            const problem = configFieldProblem(toPlain(value), toPlain(field) as ConfigField)
+            if (problem)
+                issues.push({ pos: value.pos, message: `defaults.${section}.${key}: ${problem} (declared in ${where})` })
+        }
+    }
+}
+
+function checkConfigMigrations(manifest: StaticValue, issues: ManifestIssue[]) {
+    const migrations = getProp(manifest, 'configMigrations')
+    if (migrations?.kind !== 'object') return
+    const version = getString(manifest, 'version')
+
+    for (const [key, prop] of migrations.props) {
+        if (!isValidVersion(key)) {
+            issues.push({ pos: prop.keyPos, message: `configMigrations: "${key}" must be the semver version that introduced the change` })
+        } else if (version && isValidVersion(version) && compareVersions(key, version) > 0) {
+            issues.push({ pos: prop.keyPos, message: `configMigrations: "${key}" is newer than the widget version ${version} and would never run` })
+        }
+    }
+}
+
+function checkMenuIds(menus: StaticValue[], issues: ManifestIssue[]) {
+    const seen = new Map<string, SourcePos>()
+    for (const menu of menus) {
+        for (const contribution of itemsOf(getProp(menu, 'contributions'))) {
+            for (const item of itemsOf(getProp(contribution, 'items'))) {
+                const idNode = getProp(item, 'id')
+                if (idNode?.kind !== 'literal' || typeof idNode.value !== 'string') continue
+                const first = seen.get(idNode.value)
+                if (first) {
+                    issues.push({
+                        pos:     idNode.pos,
+                        message: `menus: duplicate menu item id "${idNode.value}" (first declared at line ${first.line})`,
+                    })
+                } else {
+                    seen.set(idNode.value, idNode.pos)
+                }
+            }
+        }
+    }
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────────
+
+export function validateManifest(entryFile: string, text?: string): ManifestIssue[] {
+    const entry  = readEntryManifest(entryFile, text)
+    const issues: ManifestIssue[] = []
+    const manifest = entry.manifest
+
+    if (!manifest) {
+        issues.push({
+            pos:     { file: entryFile, line: 1, column: 1 },
+            message: 'entry.ts has no default export',
+        })
+        return issues
+    }
+    if (manifest.kind !== 'object') {
+        issues.push({ pos: manifest.pos, message: 'default export must be an object literal (or defineWidget({ … }))' })
+        return issues
+    }
+
+    checkKeys(manifest, MANIFEST_KEYS, 'manifest', issues)
+    for (const key of REQUIRED_KEYS)
+        if (!manifest.props.has(key))
+            issues.push({ pos: manifest.pos, message: `manifest: missing required key "${key}"` })
+
+    checkCapabilities(manifest, issues)
+    checkWorkers(manifest, issues)
+    checkExtensions(manifest, issues)
+    checkLinks(manifest, issues)
+    checkDefaultLayout(manifest, issues)
+    checkConfigSchema(manifest, issues)
+    checkConfigMigrations(manifest, issues)
+
+    const menus = getProp(manifest, 'menus')
+    checkMenuIds([...(menus ? [menus] : []), ...entry.registeredMenus], issues)
+
+    return issues
+}
+
+export function formatIssues(issues: ManifestIssue[], root: string = process.cwd()): string {
+    return issues.map(i => `${formatPos(i.pos, root)} — ${i.message}`).join('\n')
+}
+
+// ── Vite plugin ───────────────────────────────────────────────────────────────
+
+export default function validateWidgetManifest(entryFile: string): Plugin {
+    const entry = path.resolve(entryFile)
+    return {
+        name: 'validate-widget-manifest',
+        buildStart() {
+            this.addWatchFile(entry)
+            const issues = validateManifest(entry)
+            if (issues.length > 0)
+                this.error(`Invalid widget manifest (${issues.length} problem${issues.length > 1 ? 's' : ''}):\n${formatIssues(issues)}`)
+        },
+    }
+}
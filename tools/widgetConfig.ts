@@ -0,0 +1,156 @@
+// tools/widgetConfig.ts
+//
+// prepareWidgetConfig() — the config pipeline the host runs before a widget
+// component sees `props.config`:
+//
+//   1. migrate   stored configs older than the manifest version go through
+//                every newer `configMigrations` entry, oldest first
+//   2. stamp     the result records the manifest version as `version`
+//   3. validate  `configSchema` fields with the wrong type / enum / bounds
+//                are reported and replaced by their `defaults` value
+//   4. fill      missing data / view keys come from `defaults`
+//
+// Only steps 1–2 are persisted (`stored`); defaults stay out of the saved
+// config so a later widget version can change them. When a migration throws,
+// the whole chain is dropped and the stored config is used unchanged, so
+// nothing is persisted and the chain is retried on the next mount.
+//
+// No Node or DOM dependencies — widgets get it bundled in through
+// useWidgetConfig() (tools/useWidgetConfig.ts), the mock host mounts with it,
+// and the build-time validator reuses the field check on `defaults`.
+
+import type {
+    ConfigField,
+    PreparedWidgetConfig,
+    StoredWidgetConfig,
+    WidgetManifest,
+} from 'gexplorer/widgets'
+import { compareVersions, isValidVersion } from './widgetPackage'
+
+type ConfigManifest = Pick<WidgetManifest, 'version' | 'defaults' | 'configSchema' | 'configMigrations'>
+
+const SECTIONS = ['data', 'view'] as const
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const clone = <T>(value: T): T =>
+    value === undefined ? value : JSON.parse(JSON.stringify(value))
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    return typeof value
+}
+
+/** Why `value` does not fit `field`, or null when it does. */
+export function configFieldProblem(value: unknown, field: ConfigField): string | null {
+    if (value === null) return field.nullable ? null : 'must not be null'
+
+    const actual = typeOf(value)
+    if (actual !== field.type || (actual === 'number' && !Number.isFinite(value)))
+        return `expected ${field.type}, got ${actual === 'number' ? String(value) : actual}`
+
+    if (field.enum && !field.enum.includes(value as any))
+        return `${JSON.stringify(value)} is not one of ${field.enum.map(v => JSON.stringify(v)).join(', ')}`
+
+    const size = typeof value === 'number' ? value
+        : typeof value === 'string' || Array.isArray(value) ? value.length
+        : null
+    if (size !== null) {
+        const what = typeof value === 'number' ? String(value) : `length ${size}`
+        if (field.min !== undefined && size < field.min) return `${what} is below ${field.min}`
+        if (field.max !== undefined && size > field.max) return `${what} is above ${field.max}`
+    }
+    return null
+}
+
+// ── Steps ─────────────────────────────────────────────────────────────────────
+
+function migrate(
+    manifest: ConfigManifest,
+    stored: StoredWidgetConfig,
+    issues: string[],
+): { config: StoredWidgetConfig; migrated: string[]; complete: boolean } {
+    const target = manifest.version
+    const from   = typeof stored.version === 'string' && isValidVersion(stored.version) ? stored.version : null
+    let config   = stored
+    const migrated: string[] = []
+
+    if (from && compareVersions(from, target) > 0) {
+        issues.push(`config was written by a newer version (${from}) — left as is`)
+        return { config, migrated, complete: false }
+    }
+
+    const migrations = manifest.configMigrations ?? {}
+    const steps = Object.keys(migrations)
+        .filter(v => {
+            if (isValidVersion(v)) return true
+            issues.push(`configMigrations: "${v}" is not a semver version — skipped`)
+            return false
+        })
+        .filter(v => (!from || compareVersions(v, from) > 0) && compareVersions(v, target) <= 0)
+        .sort(compareVersions)
+
+    for (const version of steps) {
+        try {
+            const next = migrations[version](clone(config))
+            if (!isPlainObject(next)) throw new Error('migration must return a config object')
+            config = next
+            migrated.push(version)
+        } catch (err: any) {
+            // Keep the original: persisting half a chain would replay its first steps later
+            issues.push(`migration ${version} failed: ${err?.message ?? err}`)
+            return { config: stored, migrated: [], complete: false }
+        }
+    }
+    return { config, migrated, complete: true }
+}
+
+function fill(manifest: ConfigManifest, stored: StoredWidgetConfig, issues: string[]): PreparedWidgetConfig['config'] {
+    const defaults = manifest.defaults ?? {}
+    const config   = { ...clone(stored) } as PreparedWidgetConfig['config']
+
+    for (const section of SECTIONS) {
+        const base   = isPlainObject(defaults[section]) ? defaults[section] as Record<string, any> : {}
+        const value  = isPlainObject(stored[section]) ? stored[section] as Record<string, any> : {}
+        const schema = manifest.configSchema?.[section] ?? {}
+        const merged: Record<string, any> = { ...clone(base), ...clone(value) }
+
+        if (stored[section] !== undefined && !isPlainObject(stored[section]))
+            issues.push(`${section}: expected an object, got ${typeOf(stored[section])}`)
+
+        for (const [key, field] of Object.entries(schema)) {
+            if (!(key in value)) continue
+            const problem = configFieldProblem(value[key], field)
+            if (!problem) continue
+            issues.push(`${section}.${key}: ${problem} — using the default`)
+            if (key in base) merged[key] = clone(base[key])
+            else delete merged[key]
+        }
+        config[section] = merged
+    }
+    return config
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────────
+
+export function prepareWidgetConfig(
+    manifest: ConfigManifest,
+    stored: StoredWidgetConfig | null | undefined,
+): PreparedWidgetConfig {
+    const issues: string[] = []
+
+    // A fresh instance starts at the current version — nothing to migrate
+    if (!isPlainObject(stored)) {
+        const fresh = { version: manifest.version }
+        return { config: fill(manifest, fresh, issues), stored: fresh, migrated: [], issues }
+    }
+
+    const { config, migrated, complete } = migrate(manifest, clone(stored), issues)
+    const result = complete ? { ...config, version: manifest.version } : config
+
+    return { config: fill(manifest, result, issues), stored: result, migrated, issues }
+}
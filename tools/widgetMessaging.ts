@@ -0,0 +1,18 @@
+// tools/widgetMessaging.ts
+//
+// Bundled in place of the host's createWidgetMessaging / inspectWidgetMessages
+// (tools/bundledExports.ts). The host provides send / on / cleanup; request /
+// handle and the inspector come from tools/widgetRequests.ts.
+//
+// This file is exempt from the import rewrite, so the import below still
+// reaches the host.
+
+import { createWidgetMessaging as createHostMessaging } from 'gexplorer/widgets'
+import type { ScopedMessaging } from 'gexplorer/widgets'
+import { withRequests } from './widgetRequests'
+
+export { inspectWidgetMessages } from './widgetRequests'
+
+export function createWidgetMessaging(sourceId: string): ScopedMessaging {
+    return withRequests(createHostMessaging(sourceId), sourceId)
+}
@@ -0,0 +1,432 @@
+// tools/widgetPackage.ts
+//
+// The signed widget package format (.gexwidget) — writer helpers and the
+// verifier.
+//
+// A package is an uncompressed ZIP holding:
+//
+//   widget.json      serialized manifest: id, version, widgetType, capabilities, workers…
+//   integrity.json   { format, id, version, files: [{ path, size, sha256 }] } — every file but itself and signature.json
+//   signature.json   { algorithm: 'Ed25519', keyId, publicKey, signature } — detached signature over integrity.json
+//   bundle/…         the built widget (index.js, sourcemaps)
+//
+// Signing integrity.json covers every file through its hash, and the id and
+// version through the signed payload, so a package can be neither edited nor
+// re-labelled without the key.
+//
+// This module only uses Web Crypto and Uint8Array — no Node APIs — so the host
+// UI can import verifyWidgetPackage() as-is. Signing lives in
+// tools/packageWidgets.ts, which owns the private key.
+//
+// Archives are deterministic: entries are sorted and carry a fixed timestamp,
+// and Ed25519 signatures are deterministic, so the same bundle signed with the
+// same key yields the same bytes.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const PACKAGE_FORMAT    = 1
+export const PACKAGE_EXTENSION = '.gexwidget'
+
+export const MANIFEST_FILE  = 'widget.json'
+export const INTEGRITY_FILE = 'integrity.json'
+export const SIGNATURE_FILE = 'signature.json'
+export const BUNDLE_DIR     = 'bundle/'
+
+export interface PackagedWorker {
+    id:          string
+    executable?: string
+    caps?:       string[]
+    [key: string]: unknown
+}
+
+export interface PackageManifest {
+    format:        number
+    id:            string
+    version:       string
+    widgetType:    string
+    displayName?:  string
+    description?:  string
+    /** Manifest `api` — the SDK version string, e.g. '1.0'. */
+    api?:          string
+    capabilities:  { cap: string; reason?: string }[]
+    workers:       PackagedWorker[]
+}
+
+export interface IntegrityEntry {
+    path:   string
+    size:   number
+    sha256: string
+}
+
+export interface PackageIntegrity {
+    format:  number
+    id:      string
+    version: string
+    files:   IntegrityEntry[]
+}
+
+export interface PackageSignature {
+    algorithm: 'Ed25519'
+    /** First 16 hex chars of SHA-256(publicKey). */
+    keyId:     string
+    /** Raw 32-byte Ed25519 public key, base64. */
+    publicKey: string
+    /** Signature over the exact bytes of integrity.json, base64. */
+    signature: string
+}
+
+export type PackageErrorCode =
+    | 'format'      // not a readable package
+    | 'integrity'   // missing, extra or modified files
+    | 'signature'   // signature does not verify
+    | 'untrusted'   // signed by a key the host does not trust
+    | 'mismatch'    // package is for a different widget than the installed one
+    | 'downgrade'   // older than the installed version
+
+export interface VerifyOptions {
+    /** Raw Ed25519 public keys (base64) allowed to sign packages. */
+    trustedKeys: string[]
+    /** The currently installed package, if any — older versions are refused. */
+    installed?:  { id: string; version: string }
+}
+
+export interface VerifiedPackage {
+    manifest:  PackageManifest
+    integrity: PackageIntegrity
+    signature: PackageSignature
+    /** Bundle files keyed by path relative to bundle/ (e.g. 'index.js'). */
+    bundle:    Map<string, Uint8Array>
+}
+
+export type VerifyResult =
+    | { ok: true;  package: VerifiedPackage }
+    | { ok: false; code: PackageErrorCode; error: string }
+
+// ── Encoding helpers ──────────────────────────────────────────────────────────
+
+const utf8 = new TextEncoder()
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let bin = ''
+    for (const b of bytes) bin += String.fromCharCode(b)
+    return btoa(bin)
+}
+
+export function base64ToBytes(b64: string): Uint8Array {
+    const bin = atob(b64)
+    const out = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i)
+    return out
+}
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes.slice())
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function keyIdOf(publicKey: Uint8Array): Promise<string> {
+    return (await sha256Hex(publicKey)).slice(0, 16)
+}
+
+/** Stable JSON for files that get hashed or signed. */
+export function encodeJson(value: unknown): Uint8Array {
+    return utf8.encode(JSON.stringify(value, null, 2) + '\n')
+}
+
+// ── Versions ──────────────────────────────────────────────────────────────────
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+export function isValidVersion(version: string): boolean {
+    return SEMVER.test(version)
+}
+
+/** Semver precedence: < 0 when a is older than b. Build metadata is ignored. */
+export function compareVersions(a: string, b: string): number {
+    const pa = SEMVER.exec(a)
+    const pb = SEMVER.exec(b)
+    if (!pa || !pb) throw new Error(`Invalid version: ${!pa ? a : b}`)
+
+    for (let i = 1; i <= 3; i++) {
+        const d = Number(pa[i]) - Number(pb[i])
+        if (d !== 0) return d
+    }
+
+    // A pre-release sorts before its release
+    if (!pa[4] || !pb[4]) return (pa[4] ? -1 : 0) - (pb[4] ? -1 : 0)
+
+    const xa = pa[4].split('.')
+    const xb = pb[4].split('.')
+    for (let i = 0; i < Math.max(xa.length, xb.length); i++) {
+        if (xa[i] === undefined) return -1
+        if (xb[i] === undefined) return 1
+        const na = /^\d+$/.test(xa[i])
+        const nb = /^\d+$/.test(xb[i])
+        if (na && nb) {
+            const d = Number(xa[i]) - Number(xb[i])
+            if (d !== 0) return d
+        } else if (na !== nb) {
+            return na ? -1 : 1
+        } else if (xa[i] !== xb[i]) {
+            return xa[i] < xb[i] ? -1 : 1
+        }
+    }
+    return 0
+}
+
+// ── ZIP (stored, no compression) ──────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+        let c = n
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+        table[n] = c >>> 0
+    }
+    return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+    let c = 0xffffffff
+    for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8)
+    return (c ^ 0xffffffff) >>> 0
+}
+
+const SIG_LOCAL   = 0x04034b50
+const SIG_CENTRAL = 0x02014b50
+const SIG_END     = 0x06054b50
+const FLAG_UTF8   = 0x0800
+const DOS_DATE    = (1 << 5) | 1   // 1980-01-01, fixed for reproducible archives
+
+export function writeZip(files: Map<string, Uint8Array>): Uint8Array {
+    const names   = [...files.keys()].sort()
+    const locals: Uint8Array[]  = []
+    const central: Uint8Array[] = []
+    let offset = 0
+
+    for (const name of names) {
+        const data = files.get(name)!
+        const nameBytes = utf8.encode(name)
+        const crc = crc32(data)
+
+        const local = new Uint8Array(30 + nameBytes.length + data.length)
+        const lv = new DataView(local.buffer)
+        lv.setUint32(0, SIG_LOCAL, true)
+        lv.setUint16(4, 20, true)
+        lv.setUint16(6, FLAG_UTF8, true)
+        lv.setUint16(8, 0, true)
+        lv.setUint16(10, 0, true)
+        lv.setUint16(12, DOS_DATE, true)
+        lv.setUint32(14, crc, true)
+        lv.setUint32(18, data.length, true)
+        lv.setUint32(22, data.length, true)
+        lv.setUint16(26, nameBytes.length, true)
+        lv.setUint16(28, 0, true)
+        local.set(nameBytes, 30)
+        local.set(data, 30 + nameBytes.length)
+        locals.push(local)
+
+        const entry = new Uint8Array(46 + nameBytes.length)
+        const cv = new DataView(entry.buffer)
+        cv.setUint32(0, SIG_CENTRAL, true)
+        cv.setUint16(4, 20, true)
+        cv.setUint16(6, 20, true)
+        cv.setUint16(8, FLAG_UTF8, true)
+        cv.setUint16(10, 0, true)
+        cv.setUint16(12, 0, true)
+        cv.setUint16(14, DOS_DATE, true)
+        cv.setUint32(16, crc, true)
+        cv.setUint32(20, data.length, true)
+        cv.setUint32(24, data.length, true)
+        cv.setUint16(28, nameBytes.length, true)
+        cv.setUint32(42, offset, true)
+        entry.set(nameBytes, 46)
+        central.push(entry)
+
+        offset += local.length
+    }
+
+    const centralSize = central.reduce((n, e) => n + e.length, 0)
+    const end = new Uint8Array(22)
+    const ev = new DataView(end.buffer)
+    ev.setUint32(0, SIG_END, true)
+    ev.setUint16(8, names.length, true)
+    ev.setUint16(10, names.length, true)
+    ev.setUint32(12, centralSize, true)
+    ev.setUint32(16, offset, true)
+
+    const out = new Uint8Array(offset + centralSize + end.length)
+    let at = 0
+    for (const part of [...locals, ...central, end]) {
+        out.set(part, at)
+        at += part.length
+    }
+    return out
+}
+
+function isSafeEntryName(name: string): boolean {
+    return !!name
+        && !name.startsWith('/')
+        && !name.includes('\\')
+        && !/^[a-zA-Z]:/.test(name)
+        && !name.split('/').some(seg => seg === '..' || seg === '.')
+}
+
+/** Reads a stored-only ZIP. Throws on anything this format never produces. */
+export function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const decoder = new TextDecoder('utf-8', { fatal: true })
+
+    let end = -1
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === SIG_END) { end = i; break }
+    }
+    if (end < 0) throw new Error('not a ZIP archive')
+
+    const count       = view.getUint16(end + 10, true)
+    const centralSize = view.getUint32(end + 12, true)
+    let   at          = view.getUint32(end + 16, true)
+    if (at + centralSize > end) throw new Error('central directory out of range')
+
+    const files = new Map<string, Uint8Array>()
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(at, true) !== SIG_CENTRAL) throw new Error('corrupt central directory')
+        const method   = view.getUint16(at + 10, true)
+        const crc      = view.getUint32(at + 16, true)
+        const size     = view.getUint32(at + 20, true)
+        const nameLen  = view.getUint16(at + 28, true)
+        const extraLen = view.getUint16(at + 30, true)
+        const noteLen  = view.getUint16(at + 32, true)
+        const local    = view.getUint32(at + 42, true)
+        const name     = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLen))
+        at += 46 + nameLen + extraLen + noteLen
+
+        if (method !== 0) throw new Error(`${name}: compressed entries are not supported`)
+        if (!isSafeEntryName(name)) throw new Error(`unsafe entry name "${name}"`)
+        if (files.has(name)) throw new Error(`duplicate entry "${name}"`)
+        if (view.getUint32(local, true) !== SIG_LOCAL) throw new Error(`${name}: corrupt local header`)
+
+        const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true)
+        if (start + size > bytes.length) throw new Error(`${name}: data out of range`)
+        const data = bytes.slice(start, start + size)
+        if (crc32(data) !== crc) throw new Error(`${name}: CRC mismatch`)
+        files.set(name, data)
+    }
+    return files
+}
+
+// ── Verify ────────────────────────────────────────────────────────────────────
+
+function fail(code: PackageErrorCode, error: string): VerifyResult {
+    return { ok: false, code, error }
+}
+
+function parseJson<T>(files: Map<string, Uint8Array>, name: string): T {
+    const bytes = files.get(name)
+    if (!bytes) throw new Error(`missing ${name}`)
+    return JSON.parse(new TextDecoder().decode(bytes)) as T
+}
+
+export async function verifyWidgetPackage(bytes: Uint8Array, options: VerifyOptions): Promise<VerifyResult> {
+    let files: Map<string, Uint8Array>
+    let manifest:  PackageManifest
+    let integrity: PackageIntegrity
+    let signature: PackageSignature
+    try {
+        files     = readZip(bytes)
+        manifest  = parseJson<PackageManifest>(files, MANIFEST_FILE)
+        integrity = parseJson<PackageIntegrity>(files, INTEGRITY_FILE)
+        signature = parseJson<PackageSignature>(files, SIGNATURE_FILE)
+    } catch (err: any) {
+        return fail('format', `Unreadable package: ${err?.message ?? err}`)
+    }
+
+    if (integrity.format !== PACKAGE_FORMAT || manifest.format !== PACKAGE_FORMAT)
+        return fail('format', `Unsupported package format ${integrity.format ?? manifest.format}`)
+    if (signature.algorithm !== 'Ed25519')
+        return fail('format', `Unsupported signature algorithm "${signature.algorithm}"`)
+    if (!isValidVersion(integrity.version ?? ''))
+        return fail('format', `Invalid version "${integrity.version}"`)
+
+    // Signature first — nothing below is trusted until it verifies
+    if (!options.trustedKeys.includes(signature.publicKey))
+        return fail('untrusted', `Package is signed by an untrusted key (${signature.keyId})`)
+    try {
+        const publicKey = base64ToBytes(signature.publicKey)
+        const key = await crypto.subtle.importKey('raw', publicKey.slice(), { name: 'Ed25519' }, false, ['verify'])
+        const valid = await crypto.subtle.verify(
+            { name: 'Ed25519' },
+            key,
+            base64ToBytes(signature.signature).slice(),
+            files.get(INTEGRITY_FILE)!.slice(),
+        )
+        if (!valid) return fail('signature', 'Signature does not match integrity.json')
+    } catch (err: any) {
+        return fail('signature', `Signature check failed: ${err?.message ?? err}`)
+    }
+
+    // Every file listed, hashed, and nothing extra
+    const listed = new Set<string>()
+    for (const entry of integrity.files) {
+        const data = files.get(entry.path)
+        if (!data) return fail('integrity', `Missing file ${entry.path}`)
+        if (data.length !== entry.size || await sha256Hex(data) !== entry.sha256)
+            return fail('integrity', `File ${entry.path} was modified`)
+        listed.add(entry.path)
+    }
+    for (const name of files.keys()) {
+        if (name === INTEGRITY_FILE || name === SIGNATURE_FILE) continue
+        if (!listed.has(name)) return fail('integrity', `Unlisted file ${name}`)
+    }
+    if (!listed.has(MANIFEST_FILE)) return fail('integrity', `${MANIFEST_FILE} is not covered by integrity.json`)
+    if (manifest.id !== integrity.id || manifest.version !== integrity.version)
+        return fail('integrity', `${MANIFEST_FILE} does not match the signed id/version`)
+
+    if (options.installed) {
+        if (options.installed.id !== manifest.id)
+            return fail('mismatch', `Package is for "${manifest.id}", installed widget is "${options.installed.id}"`)
+        if (compareVersions(manifest.version, options.installed.version) < 0)
+            return fail('downgrade', `Refusing downgrade from ${options.installed.version} to ${manifest.version}`)
+    }
+
+    const bundle = new Map<string, Uint8Array>()
+    for (const [name, data] of files)
+        if (name.startsWith(BUNDLE_DIR)) bundle.set(name.slice(BUNDLE_DIR.length), data)
+
+    return { ok: true, package: { manifest, integrity, signature, bundle } }
+}
+
+// ── Assemble ──────────────────────────────────────────────────────────────────
+
+/**
+ * Lays out widget.json + bundle files and returns integrity.json. The caller
+ * signs the returned bytes and passes the signature to finishPackage().
+ */
+export async function preparePackage(
+    manifest: PackageManifest,
+    bundle: Map<string, Uint8Array>,
+): Promise<{ files: Map<string, Uint8Array>; integrityBytes: Uint8Array }> {
+    const files = new Map<string, Uint8Array>()
+    files.set(MANIFEST_FILE, encodeJson(manifest))
+    for (const [name, data] of bundle) files.set(BUNDLE_DIR + name, data)
+
+    const entries: IntegrityEntry[] = []
+    for (const name of [...files.keys()].sort())
+        entries.push({ path: name, size: files.get(name)!.length, sha256: await sha256Hex(files.get(name)!) })
+
+    const integrity: PackageIntegrity = {
+        format:  PACKAGE_FORMAT,
+        id:      manifest.id,
+        version: manifest.version,
+        files:   entries,
+    }
+    const integrityBytes = encodeJson(integrity)
+    files.set(INTEGRITY_FILE, integrityBytes)
+    return { files, integrityBytes }
+}
+
+export function finishPackage(files: Map<string, Uint8Array>, signature: PackageSignature): Uint8Array {
+    const all = new Map(files)
+    all.set(SIGNATURE_FILE, encodeJson(signature))
+    return writeZip(all)
+}
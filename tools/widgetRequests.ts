@@ -0,0 +1,168 @@
+// tools/widgetRequests.ts
+//
+// request() / handle() and the message inspector for createWidgetMessaging(),
+// built on nothing but a plain send() / on() / cleanup().
+//
+// The host only carries one-way messages, so a request travels as a
+// REQUEST_TOPIC message to its target — { topic, requestId, payload } — and
+// the target's handle() result comes back to the sender as REPLY_TOPIC —
+// { requestId, payload } or { requestId, error }. Handlers and inspectors see
+// the request under its own topic, with `requestId` / `replyTo` set, exactly
+// as WidgetMessage describes it.
+//
+// The build bundles this into every widget that messages (tools/bundledExports.ts,
+// via tools/widgetMessaging.ts); the mock host wraps its bus with it too, so
+// both speak the same wire format. The inspector only sees the messages the
+// instances created here send and receive.
+
+import type { RequestOptions, ScopedMessaging, WidgetMessage } from 'gexplorer/widgets'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** What the host provides — the baseline messaging surface. */
+export type BaseMessaging = Pick<ScopedMessaging, 'send' | 'on' | 'cleanup'>
+
+interface RequestEnvelope {
+    topic:     string
+    requestId: string
+    payload?:  unknown
+}
+
+interface ReplyEnvelope {
+    requestId: string
+    payload?:  unknown
+    error?:    string
+}
+
+interface PendingRequest {
+    topic:   string
+    resolve: (value: any) => void
+    reject:  (err: Error) => void
+    timer:   ReturnType<typeof setTimeout>
+}
+
+export const REQUEST_TOPIC = 'gexplorer:request'
+export const REPLY_TOPIC   = 'gexplorer:reply'
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 5000
+
+function _isRequest(value: any): value is RequestEnvelope {
+    return typeof value?.topic === 'string' && typeof value.requestId === 'string'
+}
+
+function _isReply(value: any): value is ReplyEnvelope {
+    return typeof value?.requestId === 'string' && (value.error === undefined || typeof value.error === 'string')
+}
+
+// ── Inspection ────────────────────────────────────────────────────────────────
+
+const _inspectors = new Set<(msg: WidgetMessage) => void>()
+
+function _report(msg: WidgetMessage) {
+    for (const listener of [..._inspectors]) listener(msg)
+}
+
+/** Calls `listener` (default: console.debug) for every message sent or received here. */
+export function inspectWidgetMessages(listener?: (msg: WidgetMessage) => void): () => void {
+    const l = listener ?? ((msg: WidgetMessage) => console.debug('[messaging]', msg))
+    _inspectors.add(l)
+    return () => { _inspectors.delete(l) }
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+let _requestSeq = 0
+
+export function withRequests(base: BaseMessaging, sourceId: string): ScopedMessaging {
+    const handlers = new Map<string, (payload: any, msg: WidgetMessage) => unknown>()
+    const pending  = new Map<string, PendingRequest>()
+    let offRequests: (() => void) | null = null
+    let offReplies:  (() => void) | null = null
+
+    const reply = (to: string, topic: string, body: ReplyEnvelope) => {
+        _report({ from: sourceId, to, topic, payload: body.payload, replyTo: body.requestId })
+        base.send(to, REPLY_TOPIC, body)
+    }
+
+    const answer = (msg: WidgetMessage) => {
+        if (!_isRequest(msg.payload)) return
+        const { topic, requestId, payload } = msg.payload
+        const request: WidgetMessage = { from: msg.from, to: sourceId, topic, payload, requestId }
+        _report(request)
+
+        const handler = handlers.get(topic)
+        if (!handler) {
+            reply(msg.from, topic, { requestId, error: `${sourceId} has no handler for "${topic}"` })
+            return
+        }
+        Promise.resolve()
+            .then(() => handler(payload, request))
+            .then(
+                result => reply(msg.from, topic, { requestId, payload: result }),
+                err => reply(msg.from, topic, { requestId, error: String(err?.message ?? err) }),
+            )
+    }
+
+    const settle = (msg: WidgetMessage) => {
+        if (!_isReply(msg.payload)) return
+        const { requestId, payload, error } = msg.payload
+        const req = pending.get(requestId)
+        if (!req) return
+        pending.delete(requestId)
+        clearTimeout(req.timer)
+        _report({ from: msg.from, to: sourceId, topic: req.topic, payload, replyTo: requestId })
+        if (error !== undefined) req.reject(new Error(error))
+        else req.resolve(payload)
+    }
+
+    return {
+        send(to, topic, payload) {
+            _report({ from: sourceId, to, topic, payload })
+            base.send(to as string, topic, payload)
+        },
+
+        on(topic, handler) {
+            return base.on(topic, (msg: WidgetMessage) => {
+                _report(msg)
+                handler(msg)
+            })
+        },
+
+        request(to, topic, payload, options: RequestOptions = {}) {
+            offReplies ??= base.on(REPLY_TOPIC, settle)
+            const requestId = `${sourceId}#${++_requestSeq}`
+            const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+            return new Promise((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    pending.delete(requestId)
+                    reject(new Error(`Request "${topic}" to ${to} timed out after ${timeoutMs}ms`))
+                }, timeoutMs)
+                pending.set(requestId, { topic, resolve, reject, timer })
+                _report({ from: sourceId, to, topic, payload, requestId })
+                base.send(to, REQUEST_TOPIC, { topic, requestId, payload } satisfies RequestEnvelope)
+            })
+        },
+
+        handle(topic, handler) {
+            if (handlers.has(topic)) throw new Error(`${sourceId} already handles "${topic}"`)
+            offRequests ??= base.on(REQUEST_TOPIC, answer)
+            handlers.set(topic, handler)
+            return () => {
+                if (handlers.get(topic) === handler) handlers.delete(topic)
+            }
+        },
+
+        cleanup() {
+            offRequests?.()
+            offReplies?.()
+            offRequests = offReplies = null
+            handlers.clear()
+            for (const [id, req] of pending) {
+                clearTimeout(req.timer)
+                req.reject(new Error(`Messaging for ${sourceId} was cleaned up`))
+                pending.delete(id)
+            }
+            base.cleanup()
+        },
+    }
+}
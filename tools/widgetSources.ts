@@ -0,0 +1,76 @@
+// tools/widgetSources.ts
+//
+// Enumerates a widget folder's source files and exposes their script code as
+// TypeScript source files, so build-time checks can walk .ts and .vue files
+// the same way.
+//
+// For .vue files only <script> / <script setup> blocks are returned. Each
+// block keeps the line offset of its opening tag so positions reported by the
+// checks point at the real line in the SFC.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import ts from 'typescript'
+import { parse as parseSfc } from 'vue/compiler-sfc'
+import type { SourcePos } from './manifestAst'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ScriptBlock {
+    file:       string
+    sourceFile: ts.SourceFile
+    /** Zero-based line of the block's first code line within `file`. */
+    lineOffset: number
+}
+
+// ── Files ─────────────────────────────────────────────────────────────────────
+
+const SKIP_DIRS = new Set(['node_modules', 'dist', '.git'])
+
+export function listWidgetFiles(dir: string, exts: string[] = ['.ts', '.vue']): string[] {
+    const out: string[] = []
+    const walk = (d: string) => {
+        for (const entry of fs.readdirSync(d, { withFileTypes: true })) {
+            if (entry.isDirectory()) {
+                if (!SKIP_DIRS.has(entry.name)) walk(path.join(d, entry.name))
+            } else if (exts.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+                out.push(path.join(d, entry.name))
+            }
+        }
+    }
+    walk(dir)
+    return out.sort()
+}
+
+// ── Script blocks ─────────────────────────────────────────────────────────────
+
+export function readScriptBlocks(file: string): ScriptBlock[] {
+    const text = fs.readFileSync(file, 'utf-8')
+
+    if (!file.endsWith('.vue')) {
+        return [{
+            file,
+            sourceFile: ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS),
+            lineOffset: 0,
+        }]
+    }
+
+    const { descriptor } = parseSfc(text, { filename: file })
+    return [descriptor.script, descriptor.scriptSetup]
+        .filter((b): b is NonNullable<typeof b> => !!b)
+        .map(block => ({
+            file,
+            sourceFile: ts.createSourceFile(file, block.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS),
+            // block.content starts right after the opening tag, on the tag's line
+            lineOffset: block.loc.start.line - 1,
+        }))
+}
+
+export function blockPos(block: ScriptBlock, node: ts.Node): SourcePos {
+    const { line, character } = block.sourceFile.getLineAndCharacterOfPosition(node.getStart(block.sourceFile))
+    return {
+        file:   block.file,
+        line:   line + 1 + block.lineOffset,
+        column: character + 1,
+    }
+}
@@ -0,0 +1,381 @@
+// tools/widgetTemplates.ts
+//
+// File templates for `npm run create` (tools/createWidget.ts).
+//
+// Every generated widget gets entry.ts and Widget.vue. Widget.vue follows the
+// props contract WidgetHost mounts components with — sourceId, instanceId,
+// config, placement, runAction — and reports config changes through the
+// `updateConfig` emit. It does not import entry.ts, which imports it. For each
+// declared capability it checks one SDK member that capability grants, so the
+// declaration is in use from the start. The optional kinds add:
+//
+//   vfs     vfsHandler.ts + a vfsHandlers entry (scheme = widget id)
+//   board   Board.vue + a provides entry for the 'gexchange.board' slot
+//   worker  a workers entry + a console project under workers/ that
+//           publishes to the executable the entry declares
+//
+// Output is plain text so the result reads like a hand-written widget and
+// passes the manifest validator, the capability lint and the scoped-style
+// check as generated.
+
+import type { Cap, WidgetContextKind } from 'gexplorer/widgets'
+import { SDK_CAPS } from './sdkCaps'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type WidgetKind = 'vfs' | 'board' | 'worker'
+
+export interface WidgetTemplateOptions {
+    id:           string
+    displayName:  string
+    /** Folder name, used in file header comments. */
+    dir:          string
+    contexts:     WidgetContextKind[]
+    capabilities: { cap: Cap; reason: string }[]
+    kinds:        WidgetKind[]
+}
+
+export const WIDGET_KINDS: WidgetKind[] = ['vfs', 'board', 'worker']
+
+export const CONTEXT_KINDS: WidgetContextKind[] = ['grid', 'sidebar', 'toolbar', 'embedded', 'dialog']
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function pascalCase(id: string): string {
+    return id.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(s => s[0].toUpperCase() + s.slice(1)).join('')
+}
+
+const escapeHtml = (s: string) =>
+    s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const quote = (s: string) => `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+
+/** The first SDK member `cap` grants, or undefined for caps that gate none (Exec). */
+function memberFor(cap: Cap): string | undefined {
+    return Object.keys(SDK_CAPS).find(member => SDK_CAPS[member].includes(cap))
+}
+
+const CONTEXT_DECLARATIONS: Record<WidgetContextKind, string> = {
+    grid:     `grid: {\n            minSize:     { cols: 2, rows: 2 },\n            defaultSize: { cols: 3, rows: 2 },\n        }`,
+    sidebar:  `sidebar: {\n            minHeight: 150,\n        }`,
+    toolbar:  `toolbar: {}`,
+    embedded: `embedded: {}`,
+    dialog:   `dialog: {}`,
+}
+
+// ── entry.ts ──────────────────────────────────────────────────────────────────
+
+export function entryTemplate(o: WidgetTemplateOptions): string {
+    const name     = pascalCase(o.id)
+    const sections: string[] = []
+
+    if (o.capabilities.length > 0) {
+        const width = Math.max(...o.capabilities.map(c => quote(c.cap).length)) + 1
+        sections.push([
+            `    capabilities: [`,
+            ...o.capabilities.map(c =>
+                `        { cap: ${(quote(c.cap) + ',').padEnd(width)} reason: ${quote(c.reason)} },`),
+            `    ],`,
+        ].join('\n'))
+    }
+
+    sections.push(`    Component: Widget,`)
+
+    if (o.kinds.includes('worker')) {
+        sections.push([
+            `    // ── Background Workers ────────────────────────────────────────────────────`,
+            ``,
+            `    workers: [`,
+            `        {`,
+            `            id:            ${quote(`${o.id}-worker`)},`,
+            `            executable:    ${quote(`workers/${name}Worker.exe`)},`,
+            `            startOn:       'on-demand',`,
+            `            restartPolicy: 'on-crash',`,
+            `            singleton:     true,`,
+            `            caps:          ['Ipc'],`,
+            `            pipes:         ['status'],`,
+            `            description:   ${quote(`Background worker for ${o.displayName}`)},`,
+            `        },`,
+            `    ],`,
+        ].join('\n'))
+    }
+
+    if (o.kinds.includes('vfs')) {
+        sections.push([
+            `    // ── Virtual Filesystem ────────────────────────────────────────────────────`,
+            ``,
+            `    vfsHandlers: [{`,
+            `        // scheme is NOT declared — platform derives it from widget type (${quote(o.id)})`,
+            `        resolver: 'frontend',`,
+            `        label:    ${quote(o.displayName)},`,
+            `        ops:      ['listDir', 'getMetadata'],`,
+            `        handler:  () => import('./vfsHandler'),`,
+            `    }],`,
+        ].join('\n'))
+    }
+
+    if (o.kinds.includes('board')) {
+        sections.push([
+            `    // ── Extension Points ──────────────────────────────────────────────────────`,
+            ``,
+            `    provides: [`,
+            `        {`,
+            `            point:     'gexchange.board',`,
+            `            component: () => import('./Board.vue'),`,
+            `            props: {`,
+            `                label: ${quote(o.displayName)},`,
+            `                icon:  'mdi-puzzle',`,
+            `            },`,
+            `        },`,
+            `    ],`,
+        ].join('\n'))
+    }
+
+    const contexts = o.contexts.map(c => `        ${CONTEXT_DECLARATIONS[c]},`)
+    sections.push([
+        `    // ── Layout ────────────────────────────────────────────────────────────────`,
+        ``,
+        `    contexts: {`,
+        ...contexts,
+        `    },`,
+        ``,
+        `    defaults: {`,
+        `        data: {},`,
+        `        view: {},`,
+        `    },`,
+    ].join('\n'))
+
+    return [
+        `// ${o.dir}/entry.ts`,
+        ``,
+        `import Widget from './Widget.vue'`,
+        `import { defineWidget } from 'gexplorer/widgets'`,
+        ``,
+        `export default defineWidget({`,
+        `    api: '1.0',`,
+        `    id: ${quote(o.id)},`,
+        `    version: '0.1.0',`,
+        `    displayName: ${quote(o.displayName)},`,
+        ``,
+        sections.join('\n\n'),
+        `})`,
+        ``,
+    ].join('\n')
+}
+
+// ── Widget.vue ────────────────────────────────────────────────────────────────
+
+export function widgetTemplate(o: WidgetTemplateOptions): string {
+    const contextUnion = (o.contexts.length > 0 ? o.contexts : CONTEXT_KINDS).map(c => `'${c}'`).join(' | ')
+    const root         = `${o.id}-root`
+    const members      = [...new Set(o.capabilities.map(c => memberFor(c.cap)).filter(m => m !== undefined))]
+    const usesSdk      = members.length > 0
+
+    return `<script setup lang="ts">
+import { computed${usesSdk ? ', inject' : ''} } from 'vue'
+${usesSdk ? `import type { WidgetSdk } from 'gexplorer/widgets'\n` : ''}
+/* -----------------------------------------------
+   Types
+------------------------------------------------ */
+type HostAction =
+  | { type: 'nav'; to: string; replace?: boolean; sourceId?: string }
+  | { type: 'open'; path: string; entry: string }
+
+interface WidgetConfig {
+  data?: Record<string, any>
+  view?: Record<string, any>
+}
+
+/* -----------------------------------------------
+   Host contract
+------------------------------------------------ */
+const props = defineProps<{
+  sourceId: string
+  instanceId: string
+  config?: WidgetConfig
+  placement?: {
+    context: ${contextUnion}
+    size?: { cols?: number; rows?: number; width?: number; height?: number }
+  }
+  runAction?: (a: HostAction) => void
+}>()
+
+const emit = defineEmits<{
+  (e: 'updateConfig', config: WidgetConfig): void
+}>()
+${usesSdk ? `
+// Members are present only for the capabilities entry.ts declares
+const sdk = inject<WidgetSdk>('widgetSdk')
+
+// One member per declared capability — missing means the grant did not arrive
+const granted = computed(() => ({
+${members.map(m => `  ${m}: !!sdk?.${m},`).join('\n')}
+}))
+` : ''}
+/* -----------------------------------------------
+   State
+------------------------------------------------ */
+const config = computed(() => ({
+  data: props.config?.data ?? {},
+  view: props.config?.view ?? {},
+}))
+
+const isCompact = computed(() => props.placement?.context !== 'grid')
+
+function updateData(data: Record<string, any>) {
+  emit('updateConfig', { ...config.value, data: { ...config.value.data, ...data } })
+}
+</script>
+
+<template>
+  <div class="${root}" :class="{ compact: isCompact }">
+    <h3 class="title">${escapeHtml(o.displayName)}</h3>
+    <p class="hint">Edit ${o.dir}/Widget.vue to get started.</p>${usesSdk ? `
+    <ul class="hint">
+      <li v-for="(ok, member) in granted" :key="member">{{ member }}: {{ ok ? 'granted' : 'missing' }}</li>
+    </ul>` : ''}
+    <button @click="updateData({ touchedAt: Date.now() })">Save config</button>
+    <p v-if="config.data.touchedAt" class="hint">Saved at {{ new Date(config.data.touchedAt).toLocaleTimeString() }}</p>
+  </div>
+</template>
+
+<style scoped>
+.${root} {
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  height: 100%;
+  padding: 12px;
+  box-sizing: border-box;
+}
+.${root}.compact { padding: 6px; }
+.title { margin: 0; font-size: 1.1em; }
+.hint { margin: 0; opacity: 0.7; }
+</style>
+`
+}
+
+// ── Optional kinds ────────────────────────────────────────────────────────────
+
+export function vfsHandlerTemplate(o: WidgetTemplateOptions): string {
+    return `// ${o.dir}/vfsHandler.ts
+//
+// VFS handler for the ${o.id}:// scheme.
+//
+// Loaded lazily by the platform when the scheme is first accessed. The
+// platform injects a scoped WidgetSdk when constructing this handler.
+// Add ops here and list them in entry.ts (vfsHandlers[0].ops).
+
+import type { WidgetSdk } from 'gexplorer/widgets'
+
+// ── Handler factory ───────────────────────────────────────────────────────────
+
+export default function createVfsHandler(_sdk: WidgetSdk) {
+    return {
+
+        // ── listDir ──────────────────────────────────────────────────────────
+
+        async listDir({ path }: { path: string }) {
+            const clean = path.replace(/^\\/+|\\/+$/g, '')
+            if (!clean) return { ok: true, entries: [] }
+            return { ok: false, error: \`No such directory: \${clean}\` }
+        },
+
+        // ── getMetadata ──────────────────────────────────────────────────────
+
+        async getMetadata({ path }: { path: string }) {
+            const clean = path.replace(/^\\/+|\\/+$/g, '')
+            if (!clean) return { ok: true, exists: true, isDir: true, rpath: null }
+            return { ok: true, exists: false, isDir: false, rpath: null }
+        },
+    }
+}
+`
+}
+
+export function boardTemplate(o: WidgetTemplateOptions): string {
+    return `<script setup lang="ts">
+// Board panel shown inside GExchange rooms ('gexchange.board' slot).
+defineProps<{ label?: string; icon?: string }>()
+</script>
+
+<template>
+  <div class="${o.id}-board">
+    <p class="title">{{ label ?? ${quote(o.displayName)} }}</p>
+  </div>
+</template>
+
+<style scoped>
+.${o.id}-board { padding: 12px; }
+.title { margin: 0; font-weight: 600; }
+</style>
+`
+}
+
+export function workerReadmeTemplate(o: WidgetTemplateOptions): string {
+    const name = pascalCase(o.id)
+    return `# ${o.displayName} worker
+
+entry.ts declares a background worker:
+
+- id: \`${o.id}-worker\`
+- executable: \`workers/${name}Worker.exe\` (relative to the installed widget folder)
+- startOn: \`on-demand\`, restartPolicy: \`on-crash\`, singleton
+- caps: \`Ipc\`; pipes: \`status\`
+
+The source is \`workers/${name}Worker/\`. Publish it next to this file:
+
+    dotnet publish ${o.dir}/workers/${name}Worker -c Release -r win-x64 -o ${o.dir}/workers
+
+Add any capabilities the worker needs (e.g. \`Network\`) to the declaration's \`caps\`.
+`
+}
+
+/** workers/<Name>Worker/Program.cs */
+export function workerProgramTemplate(o: WidgetTemplateOptions): string {
+    const name = pascalCase(o.id)
+    return `// ${o.dir}/workers/${name}Worker/Program.cs
+//
+// Background worker for ${o.displayName} — workers[0] in entry.ts. The host
+// starts it on demand, restarts it after a crash and stops it with the widget;
+// the loop below runs until then.
+
+var stop = new CancellationTokenSource();
+Console.CancelKeyPress += (_, e) => { e.Cancel = true; stop.Cancel(); };
+AppDomain.CurrentDomain.ProcessExit += (_, _) => stop.Cancel();
+
+Console.WriteLine("${o.id}-worker started");
+try
+{
+    while (!stop.IsCancellationRequested)
+    {
+        // Background work goes here; report progress on the 'status' pipe
+        await Task.Delay(TimeSpan.FromSeconds(30), stop.Token);
+    }
+}
+catch (OperationCanceledException)
+{
+    // Stopped by the host
+}
+Console.WriteLine("${o.id}-worker stopped");
+`
+}
+
+/** workers/<Name>Worker/<Name>Worker.csproj */
+export function workerProjectTemplate(o: WidgetTemplateOptions): string {
+    const name = pascalCase(o.id)
+    return `<Project Sdk="Microsoft.NET.Sdk">
+
+  <PropertyGroup>
+    <OutputType>Exe</OutputType>
+    <TargetFramework>net8.0</TargetFramework>
+    <ImplicitUsings>enable</ImplicitUsings>
+    <Nullable>enable</Nullable>
+    <AssemblyName>${name}Worker</AssemblyName>
+    <PublishSingleFile>true</PublishSingleFile>
+    <SelfContained>false</SelfContained>
+  </PropertyGroup>
+
+</Project>
+`
+}
@@ -0,0 +1,108 @@
+// tools/widgetViteConfig.ts
+//
+// Shared Vite config factory for a single widget bundle.
+//
+// Used by:
+//   - vite.config.ts          — the classic one-widget build (WIDGET_TYPE / widget.build.json)
+//   - tools/buildWidgets.ts   — the workspace build that produces every widget in one run
+//   - tools/packageWidgets.ts — signed .gexwidget packages
+//
+// Both paths must produce byte-identical bundles for the same widget, so all
+// bundle knobs (externals, path remapping, bundled SDK exports, css
+// injection, manifest, capability and scoped-style checks) live here only.
+
+import type { InlineConfig, PluginOption } from 'vite'
+import vue from '@vitejs/plugin-vue'
+import cssInjectedByJs from 'vite-plugin-css-injected-by-js'
+import path from 'node:path'
+import validateWidgetManifest from './validateManifest'
+import bundledExports from './bundledExports'
+import lintWidgetCapabilities, { type CapabilityLintMode } from './lintCapabilities'
+import enforceScopedStyles, { type ScopedStylesConfig } from './enforceScopedStyles'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface WidgetBuildTarget {
+    /** Runtime widget type — also the folder name under runtime-widgets/. */
+    widgetType: string
+    /** Absolute path to the widget's entry.ts. */
+    entry:      string
+    /** Absolute output directory for index.js. */
+    outDir:     string
+    sourcemap:  boolean
+    /** Keep console/debugger in the bundle (watch/dev builds). */
+    keepConsole?: boolean
+    /** Capability usage check — 'warn' by default, 'error' fails on undeclared caps. */
+    capabilityLint?: CapabilityLintMode
+    /** Global-style check for SFC <style> blocks — on ('error') unless configured otherwise. */
+    scopedStyles?: ScopedStylesConfig
+    /** Extra plugins appended after the standard set. */
+    plugins?:   PluginOption[]
+}
+
+// ── Host externals ────────────────────────────────────────────────────────────
+
+// Mark host-resolved imports as external
+export function isHostExternal(id: string): boolean {
+    return (
+        id === 'vue' ||
+        id === '/runtime/vue.js' ||
+        id.startsWith('/src/') ||
+        id.startsWith('/runtime/') ||
+        id === 'gexplorer/widgets'
+    )
+}
+
+export function runtimeWidgetsDir(outputPublicDir: string, widgetType: string): string {
+    return path.join(outputPublicDir, 'runtime-widgets', widgetType)
+}
+
+// ── Factory ───────────────────────────────────────────────────────────────────
+
+export function createWidgetViteConfig(target: WidgetBuildTarget): InlineConfig {
+    return {
+        plugins: [
+            enforceScopedStyles(target.scopedStyles),
+            vue(),
+            cssInjectedByJs(),
+            bundledExports(),
+            validateWidgetManifest(target.entry),
+            lintWidgetCapabilities(target.entry, target.capabilityLint ?? 'warn'),
+            ...(target.plugins ?? []),
+        ],
+        define: {
+            'process.env.NODE_ENV': JSON.stringify('production'),
+            globalThis: 'window',
+        },
+        esbuild: {
+            // Keep console in watch/dev; strip in release builds
+            drop: target.keepConsole ? [] : ['console', 'debugger'],
+        },
+        build: {
+            target: 'es2020',
+            sourcemap: target.sourcemap,
+            minify: 'esbuild',
+            cssCodeSplit: false,
+            outDir: target.outDir,
+            emptyOutDir: true,
+            assetsDir: '.',
+            lib: {
+                entry: target.entry,
+                formats: ['es'],
+                fileName: () => 'index.js',
+            },
+            rollupOptions: {
+                // Do not bundle the host or vue — they’re provided at runtime
+                external: (id) => isHostExternal(id),
+                output: {
+                    // Re-map 'vue' to the host shim URL in case an author imports 'vue'
+                    paths: {
+                        vue: '/runtime/vue.js',
+                        'gexplorer/widgets': '/runtime/vue.js',
+                        '/src/widgets/sdk-shim.ts': '/runtime/vue.js',
+                    },
+                },
+            },
+        },
+    }
+}
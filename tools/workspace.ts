@@ -0,0 +1,171 @@
+// tools/workspace.ts
+//
+// Loads widgets.workspace.json — the list of every widget folder in this repo
+// and how each one is built.
+//
+// FORMAT:
+//   {
+//     "outputPublicDir": "C:/…/UserInterface/public",
+//     "widgets": [
+//       { "entry": "src/entry.ts", "widgetType": "gexchange", "sourcemap": false },
+//       { "entry": "ExampleWidget_Items/entry.ts", "widgetType": "items",
+//         "outDir": "D:/scratch/items" }
+//     ]
+//   }
+//
+//   entry       — path to the widget's entry.ts, relative to the workspace file
+//   widgetType  — runtime widget type; output goes to runtime-widgets/<type>
+//   outDir      — optional explicit output dir (overrides outputPublicDir)
+//   sourcemap   — optional, defaults to false
+//   capabilityLint — optional 'off' | 'warn' | 'error', defaults to 'warn'
+//   scopedStyles   — optional, see tools/enforceScopedStyles.ts; defaults to 'error'
+//
+// OVERRIDES:
+//   OUTPUT_PUBLIC_DIR and SOURCEMAP env vars win over the file, same as the
+//   single-widget build in vite.config.ts.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { runtimeWidgetsDir } from './widgetViteConfig'
+import { getString, readEntryManifest } from './manifestAst'
+import type { CapabilityLintMode } from './lintCapabilities'
+import type { ScopedStylesConfig } from './enforceScopedStyles'
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface WorkspaceWidget {
+    entry:       string
+    widgetType:  string
+    outDir?:     string
+    sourcemap?:  boolean
+    capabilityLint?: CapabilityLintMode
+    scopedStyles?: ScopedStylesConfig
+}
+
+export interface WorkspaceManifest {
+    outputPublicDir?: string
+    widgets:          WorkspaceWidget[]
+}
+
+/** A workspace widget with every path resolved to an absolute path. */
+export interface ResolvedWorkspaceWidget {
+    widgetType: string
+    entry:      string
+    /** Folder that holds entry.ts — used to attribute changed files. */
+    dir:        string
+    outDir:     string
+    sourcemap:  boolean
+    capabilityLint: CapabilityLintMode
+    scopedStyles: ScopedStylesConfig
+}
+
+export const WORKSPACE_FILE = 'widgets.workspace.json'
+
+// ── Load ──────────────────────────────────────────────────────────────────────
+
+export function workspacePath(root: string = process.cwd()): string {
+    return path.resolve(root, WORKSPACE_FILE)
+}
+
+export function readWorkspace(file: string = workspacePath()): WorkspaceManifest {
+    if (!fs.existsSync(file))
+        throw new Error(`Workspace manifest not found: ${file}`)
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    if (!raw || !Array.isArray(raw.widgets))
+        throw new Error(`${path.basename(file)}: "widgets" must be an array`)
+    return raw as WorkspaceManifest
+}
+
+export function writeWorkspace(manifest: WorkspaceManifest, file: string = workspacePath()): void {
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + '\n')
+}
+
+/**
+ * Appends a widget to the workspace file, keeping the one-line-per-widget
+ * layout (and its column alignment) when the file still has it.
+ */
+export function addWorkspaceWidget(widget: WorkspaceWidget, file: string = workspacePath()): void {
+    const text  = fs.readFileSync(file, 'utf-8')
+    const lines = text.split('\n')
+    const close = lines.findIndex((l, i) => /^\s*\]/.test(l) && i > 0 && lines[i - 1].trimEnd().endsWith('}'))
+    const row   = lines.slice(0, Math.max(close, 0)).reverse().find(l => /^\s*\{\s*"entry"/.test(l))
+
+    if (close < 0 || !row) {
+        const manifest = readWorkspace(file)
+        manifest.widgets.push(widget)
+        writeWorkspace(manifest, file)
+        return
+    }
+
+    const indent = row.match(/^\s*/)![0]
+    // Pad "entry" so "widgetType" lines up with the rows above
+    const column = row.indexOf('"widgetType"') - row.indexOf('{')
+    const entry  = `{ "entry": ${JSON.stringify(widget.entry)},`
+    const rest   = Object.entries(widget)
+        .filter(([key]) => key !== 'entry')
+        .map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+        .join(', ')
+
+    lines[close - 1] = lines[close - 1].trimEnd() + ','
+    lines.splice(close, 0, `${indent}${column > entry.length ? entry.padEnd(column) : entry + ' '}${rest} }`)
+    fs.writeFileSync(file, lines.join('\n'))
+}
+
+export function resolveWorkspace(
+    manifest: WorkspaceManifest,
+    file: string = workspacePath(),
+): ResolvedWorkspaceWidget[] {
+    const root       = path.dirname(file)
+    const outPublic  = process.env.OUTPUT_PUBLIC_DIR || manifest.outputPublicDir || ''
+    const envSourcemap = process.env.SOURCEMAP
+
+    const errors: string[] = []
+    const seenTypes = new Map<string, string>()
+    const seenOut   = new Map<string, string>()
+    const seenIds   = new Map<string, string>()
+
+    const resolved = manifest.widgets.map((w, i) => {
+        const where = `widgets[${i}]`
+        if (!w.entry)      errors.push(`${where}: missing "entry"`)
+        if (!w.widgetType) errors.push(`${where}: missing "widgetType"`)
+
+        const entry  = path.resolve(root, w.entry ?? '')
+        const outDir = w.outDir
+            ? path.resolve(root, w.outDir)
+            : runtimeWidgetsDir(outPublic, w.widgetType ?? '')
+
+        if (w.entry && !fs.existsSync(entry))
+            errors.push(`${where}: entry not found — ${w.entry}`)
+
+        // The host keys widgets by manifest id, so two entries must not share one
+        const id = w.entry && fs.existsSync(entry)
+            ? getString(readEntryManifest(entry).manifest ?? undefined, 'id')
+            : undefined
+        const prevId = id && seenIds.get(id)
+        if (prevId) errors.push(`${where}: manifest id "${id}" already used by ${prevId}`)
+        if (id) seenIds.set(id, w.entry)
+
+        const prevType = seenTypes.get(w.widgetType)
+        if (prevType) errors.push(`${where}: widgetType "${w.widgetType}" already used by ${prevType}`)
+        seenTypes.set(w.widgetType, w.entry)
+
+        const prevOut = seenOut.get(outDir)
+        if (prevOut) errors.push(`${where}: output dir ${outDir} already used by ${prevOut}`)
+        seenOut.set(outDir, w.entry)
+
+        return {
+            widgetType: w.widgetType,
+            entry,
+            dir:        path.dirname(entry),
+            outDir,
+            sourcemap:  envSourcemap ? envSourcemap === 'true' : Boolean(w.sourcemap),
+            capabilityLint: w.capabilityLint ?? 'warn',
+            scopedStyles:   w.scopedStyles ?? 'error',
+        }
+    })
+
+    if (errors.length > 0)
+        throw new Error(`Invalid ${path.basename(file)}:\n  ${errors.join('\n  ')}`)
+
+    return resolved
+}
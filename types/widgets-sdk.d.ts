@@ -52,6 +52,18 @@ declare module 'gexplorer/widgets' {
         openEntry?: (entry: any) => Promise<void>
         openFolder?: (entry: any) => Promise<void>
 
+        /**
+         * Links under the widget's scheme it declared in manifest `links`,
+         * activated anywhere in the app. Links activated while no instance
+         * listens are held and delivered to the first handler registered.
+         */
+        onLinkActivated?: (handler: (url: string) => void) => () => void
+        /**
+         * Activate a link as if the user clicked it. Resolves false when no
+         * widget declared a matching link.
+         */
+        openLink?: (url: string) => Promise<boolean>
+
         // Read cap
         fsListDirSmart?: (path: string, options?: FsListDirOptions) => Promise<FsListDirResult>
 
@@ -106,11 +118,22 @@ declare module 'gexplorer/widgets' {
         p2pDeriveKey?: (context: string) => Promise<string>
         p2pSetUsername?: (username: string) => Promise<{ displayName: string }>
 
+        /** Sign `data` with the local identity key. Returns a base64 signature. */
+        p2pSign?: (data: string) => Promise<string>
+        /** Check a p2pSign signature against the signer's publicKey. */
+        p2pVerify?: (publicKey: string, data: string, signature: string) => Promise<boolean>
+
         p2pCreateInvite?: (
             sessionId: string,
             options?: {
                 sessionSecret?: string
                 validityMinutes?: number
+                /**
+                 * Small widget-defined fields carried inside the token and
+                 * handed back by p2pAcceptInvite (e.g. a room name).
+                 * Readable by anyone holding the token.
+                 */
+                metadata?: Record<string, string>
             }
         ) => Promise<P2PInvite>
 
@@ -153,6 +176,12 @@ declare module 'gexplorer/widgets' {
             blobSha256: string
         ) => Promise<string>
 
+        /** Binary-safe unseal: base64 content, the inverse of vaultSealContentAs. */
+        vaultUnsealBase64?: (
+            vaultToken: string,
+            blobSha256: string
+        ) => Promise<string>
+
         vaultList?: (
             vaultToken: string,
             vpathPrefix?: string
@@ -167,9 +196,29 @@ declare module 'gexplorer/widgets' {
         // These are high-level public chat APIs.
         // Sending should generally go through ChannelSession.sendMessage().
         chatGetHistory?: (scopeId: string, limit?: number) => Promise<ChatMessage[]>
+        /** Matches 'text' messages only; deleted messages never match. */
         chatSearch?: (scopeId: string, query: string, limit?: number) => Promise<ChatMessage[]>
+        chatGetMessage?: (scopeId: string, messageId: string) => Promise<ChatMessage | null>
+        /**
+         * Rewrite a stored message — an edit, a tombstone or new reactions.
+         * Fields left out of the patch keep their stored value. chatGetHistory
+         * and chatSearch return the rewritten message from then on. Resolves
+         * null when the message is not stored here.
+         */
+        chatUpdateMessage?: (scopeId: string, messageId: string, patch: ChatMessagePatch) => Promise<ChatMessage | null>
         onChatMessage?: (handler: (msg: ChatMessage) => void) => () => void
         onChatHistoryReady?: (handler: (scopeId: string) => void) => () => void
+
+        // Notifications cap
+        /**
+         * Show a desktop notification. A `tag` replaces the widget's earlier
+         * notification with the same tag. Resolves null when the user or OS
+         * blocks notifications.
+         */
+        notificationShow?: (options: NotificationOptions) => Promise<string | null>
+        notificationClose?: (id: string) => Promise<void>
+        /** Clicks on this widget type's notifications, from any instance. */
+        onNotificationClicked?: (handler: (event: NotificationClick) => void) => () => void
     }
 
     // ── Capability types ───────────────────────────────────────────────────
@@ -187,6 +236,7 @@ declare module 'gexplorer/widgets' {
         | 'P2PDirect'
         | 'SecureStorage'
         | 'Chat'
+        | 'Notifications'
 
     // ── FS types ───────────────────────────────────────────────────────────
 
@@ -273,10 +323,85 @@ declare module 'gexplorer/widgets' {
     ) => Promise<{ ok: boolean; reason?: string }>
 
     // ── Messaging ──────────────────────────────────────────────────────────
+    //
+    // createWidgetMessaging() topics are typed through two maps: WidgetTopics
+    // (one-way messages, topic → payload) and WidgetRequests (topic →
+    // { request, response }). Widgets declare their own topics by merging
+    // into them, e.g. in the widget's own .d.ts:
+    //
+    //   declare module 'gexplorer/widgets' {
+    //       interface WidgetTopics   { 'notes:saved': { id: string } }
+    //       interface WidgetRequests { 'notes:get': { request: { id: string }; response: Note | null } }
+    //   }
+    //
+    // Undeclared topics still compile and carry `any`.
+
+    export interface WidgetTopics {
+        'favorites:changed': {
+            reason: 'add' | 'remove' | 'move' | 'folder-add' | 'folder-remove' | 'other'
+        }
+        /** Sent to the drag source after a cross-widget move into `target`. */
+        'fs:refresh-after-drop': { kind: 'fs.move'; target: string }
+        /** Sent by the host to the widget under the pointer when a native drop lands. */
+        'dnd:drop': { x: number; y: number; data: GexDnDPayload }
+        /** Sent by the host when one of the widget's declared actions is invoked. */
+        'widget:action': { actionId: string; tokens?: Record<string, any> }
+    }
+
+    export interface WidgetRequests {}
+
+    export type TopicPayload<T extends string> =
+        T extends keyof WidgetTopics ? WidgetTopics[T] : any
+
+    export type RequestPayload<T extends string> =
+        T extends keyof WidgetRequests ? WidgetRequests[T] extends { request: infer R } ? R : any : any
+
+    export type ResponsePayload<T extends string> =
+        T extends keyof WidgetRequests ? WidgetRequests[T] extends { response: infer R } ? R : any : any
+
+    export type WidgetMessage<P = any> = {
+        from:    string
+        /** Absent for broadcasts. */
+        to?:     string
+        topic:   string
+        payload: P
+        /** Set on request() messages; the reply carries it as `replyTo`. */
+        requestId?: string
+        replyTo?:   string
+    }
+
+    export type RequestOptions = {
+        /** Rejects when no reply arrives in time. Default 5000. */
+        timeoutMs?: number
+    }
 
     export type ScopedMessaging = {
-        send: (to: string, topic: string, payload?: any) => void
-        on: (topic: string, handler: (msg: any) => void) => () => void
+        /** `to` undefined broadcasts to every other widget instance. */
+        send: <T extends string>(to: string | undefined, topic: T, payload?: TopicPayload<T>) => void
+        on: <T extends string>(topic: T, handler: (msg: WidgetMessage<TopicPayload<T>>) => void) => () => void
+
+        /**
+         * Sends a request to one widget instance and resolves with its
+         * handle() result. Rejects on timeout, when `to` has no handler for
+         * the topic, or with the handler's error.
+         */
+        request: <T extends string>(
+            to: string,
+            topic: T,
+            payload?: RequestPayload<T>,
+            options?: RequestOptions
+        ) => Promise<ResponsePayload<T>>
+
+        /** Answers request() calls for `topic`. One handler per topic per instance. */
+        handle: <T extends string>(
+            topic: T,
+            handler: (
+                payload: RequestPayload<T>,
+                msg: WidgetMessage<RequestPayload<T>>
+            ) => ResponsePayload<T> | Promise<ResponsePayload<T>>
+        ) => () => void
+
+        /** Drops every handler and rejects pending requests of this instance. */
         cleanup: () => void
     }
 
@@ -302,6 +427,8 @@ declare module 'gexplorer/widgets' {
         userId: string
         sessionId: string
         sessionSecret: string
+        /** The metadata passed to p2pCreateInvite, if any. */
+        metadata?: Record<string, string>
     }
 
     export type ChannelTransportMode =
@@ -339,6 +466,8 @@ declare module 'gexplorer/widgets' {
         userId: string
         username?: string
         publicKey?: string
+        /** The ticket from the peer's buildPresence, if it sent one. */
+        ticket?: string
 
         /**
          * Direct endpoint data is intentionally not part of the stable public
@@ -414,6 +543,11 @@ declare module 'gexplorer/widgets' {
             publicKey: string
             userId: string
             username: string
+            /**
+             * Opaque widget-chosen string shown to peers' canConnect, e.g.
+             * which invite this peer is redeeming.
+             */
+            ticket?: string
         }
 
         isHub?: boolean
@@ -449,7 +583,7 @@ declare module 'gexplorer/widgets' {
         readonly isConnected: Ref<boolean>
         readonly queuedCount: Ref<number>
 
-        sendMessage: (text: string) => Promise<{
+        sendMessage: (text: string, options?: SendMessageOptions) => Promise<{
             messageId: string
             sentAt: number
         }>
@@ -465,6 +599,12 @@ declare module 'gexplorer/widgets' {
          */
         connectToPeer: (userId: string, publicKey: string) => Promise<void>
 
+        /**
+         * Drop every link to a peer (e.g. after banning it). The peer may try
+         * again; canConnect decides whether it gets back in.
+         */
+        disconnectPeer?: (userId: string) => Promise<void>
+
         startCall?: (stream: MediaStream) => Promise<void>
         endCall?: () => Promise<void>
 
@@ -484,6 +624,24 @@ declare module 'gexplorer/widgets' {
         sp2pStatusHistory?: Ref<PublicSP2PStatusEvent[]>
     }
 
+    export type SendMessageOptions = {
+        /** ChatMessage.type on every side. Default 'text'. */
+        type?: string
+        /**
+         * Deliver to these userIds only. Other peers never receive or store
+         * the message; it waits in the queue until one of them is linked.
+         */
+        to?: string[]
+        /**
+         * Pushed to recipients' onChatMessage but never written to chat
+         * history — on the sending side either. For secrets and one-shot
+         * signals that must not be replayed.
+         */
+        ephemeral?: boolean
+        /** Carried as ChatMessage.meta. */
+        meta?: Record<string, string>
+    }
+
     export type UseChannelReturn = ChannelSession & {
         whenHubReady: Promise<void>
         whenEdhtReady: Promise<void>
@@ -500,6 +658,50 @@ declare module 'gexplorer/widgets' {
         type: string
         sentAt: number
         receivedAt?: number
+        /** Set when the text was replaced by an edit. */
+        editedAt?: number
+        /** Set when the message was deleted; the text is gone. */
+        deletedAt?: number
+        /**
+         * Small widget-defined fields sent along with the text. Stored and
+         * returned with history; peers that don't know a field still show
+         * the text.
+         */
+        meta?: Record<string, string>
+        /** Emoji reactions: emoji → userId → that user's latest change. */
+        reactions?: Record<string, Record<string, ChatReaction>>
+    }
+
+    export type ChatReaction = {
+        /** False once withdrawn — kept so an older change cannot revive it. */
+        on: boolean
+        at: number
+        name: string
+    }
+
+    export type ChatMessagePatch = {
+        text?: string
+        editedAt?: number
+        deletedAt?: number
+        reactions?: Record<string, Record<string, ChatReaction>>
+    }
+
+    // ── Notification types ─────────────────────────────────────────────────
+
+    export type NotificationOptions = {
+        title: string
+        body?: string
+        tag?: string
+        /** No sound or OS attention request. */
+        silent?: boolean
+        /** Handed back on click. */
+        data?: Record<string, string>
+    }
+
+    export type NotificationClick = {
+        id: string
+        tag?: string
+        data?: Record<string, string>
     }
 
     // ── SecureStorage / VFS types ──────────────────────────────────────────
@@ -594,6 +796,324 @@ declare module 'gexplorer/widgets' {
         [key: string]: any
     }
 
+    // ── Widget manifest ────────────────────────────────────────────────────
+    //
+    // Shape of the default export of every widget's entry.ts. Wrap it in
+    // defineWidget() so mistakes are caught by the type-checker:
+    //
+    //   import { defineWidget } from 'gexplorer/widgets'
+    //
+    //   export default defineWidget({
+    //       id: 'weather',
+    //       version: '0.1.0',
+    //       Component: Widget,
+    //       capabilities: [{ cap: 'Network', reason: 'Fetches forecasts' }],
+    //   })
+    //
+    // The build re-checks the same rules statically (tools/validateManifest.ts),
+    // so a manifest that slips past the type-checker still fails the build.
+
+    export type CapabilityDeclaration = {
+        cap:    Cap
+        /** Shown to the user when the capability is granted. */
+        reason: string
+    }
+
+    /** Workers may additionally talk to the host over IPC pipes. */
+    export type WorkerCap = Cap | 'Ipc'
+
+    export type WidgetContextKind =
+        | 'grid'
+        | 'sidebar'
+        | 'toolbar'
+        | 'embedded'
+        | 'dialog'
+
+    export type GridSize = {
+        cols: number
+        rows: number
+    }
+
+    export type WidgetLayoutOption = {
+        id:       string
+        icon?:    string
+        tooltip?: string
+    }
+
+    export type WidgetContextDeclaration = {
+        minSize?:     GridSize
+        maxSize?:     GridSize
+        defaultSize?: GridSize
+        minHeight?:   number
+        layouts?:     WidgetLayoutOption[]
+    }
+
+    export type WidgetContexts = {
+        [K in WidgetContextKind]?: WidgetContextDeclaration
+    } & {
+        /** Widget-local layout modes shared by every context. */
+        layouts?: WidgetLayoutOption[]
+    }
+
+    export type WidgetDefaults = {
+        data?: Record<string, any>
+        view?: Record<string, any> & {
+            /** Must match a layout id declared in contexts. */
+            layout?: string
+        }
+        [key: string]: any
+    }
+
+    // ── Config schema + migrations ─────────────────────────────────────────
+    //
+    // Declared next to `defaults`. A widget reads its config through
+    // useWidgetConfig(), which runs prepareWidgetConfig(): stored configs older
+    // than the manifest version go through every newer migration in version
+    // order, then each schema field is type-checked and missing or invalid
+    // values fall back to `defaults`. When a migration ran, the result is
+    // emitted once as `updateConfig` so the host persists it, and each
+    // migration runs once per instance.
+    //
+    //   const { config, patch } = useWidgetConfig(manifest, () => props.config,
+    //       next => emit('updateConfig', next))
+    //
+    //   configSchema: {
+    //       view: { columns: { type: 'number', min: 1, max: 6 },
+    //               sort:    { type: 'string', enum: ['recent', 'alpha'] } },
+    //   },
+    //   configMigrations: {
+    //       // 0.6.0 renamed view.cols → view.columns
+    //       '0.6.0': ({ view: { cols, ...view } = {}, ...rest }) =>
+    //           ({ ...rest, view: { ...view, columns: cols } }),
+    //   },
+
+    export type ConfigFieldType = 'string' | 'number' | 'boolean' | 'array' | 'object'
+
+    export type ConfigField = {
+        type:      ConfigFieldType
+        enum?:     readonly (string | number | boolean)[]
+        /** Inclusive bounds for numbers, length bounds for strings and arrays. */
+        min?:      number
+        max?:      number
+        nullable?: boolean
+    }
+
+    export type WidgetConfigSchema = {
+        data?: Record<string, ConfigField>
+        view?: Record<string, ConfigField>
+    }
+
+    /** Config as persisted by the host. `version` is the widget version that last wrote it. */
+    export type StoredWidgetConfig = {
+        version?: string
+        data?:    Record<string, any>
+        view?:    Record<string, any>
+        [key: string]: any
+    }
+
+    /**
+     * Upgrades a config written by an older widget version to this one.
+     * Keyed by the version that introduced the change. Configs without a
+     * `version` are treated as older than every migration.
+     */
+    export type WidgetConfigMigration = (config: StoredWidgetConfig) => StoredWidgetConfig
+
+    export type PreparedWidgetConfig = {
+        /** What the component receives: migrated, validated, defaults filled. */
+        config:   StoredWidgetConfig & { data: Record<string, any>; view: Record<string, any> }
+        /** What to persist: migrated and version-stamped, no defaults filled in. */
+        stored:   StoredWidgetConfig
+        /** Versions of the migrations that ran, oldest first. */
+        migrated: string[]
+        issues:   string[]
+    }
+
+    export type WidgetWorkerDeclaration = {
+        id:             string
+        executable:     string
+        startOn:        'app-start' | 'widget-mount' | 'on-demand'
+        restartPolicy?: 'never' | 'on-crash' | 'always'
+        singleton?:     boolean
+        caps?:          WorkerCap[]
+        pipes?:         string[]
+        description?:   string
+    }
+
+    export type VfsOp =
+        | 'listDir'
+        | 'getMetadata'
+        | 'copy'
+        | 'move'
+        | 'rename'
+        | 'delete'
+        | 'open'
+        | 'extract'
+        | 'mkdir'
+
+    export type VfsStateStyle = {
+        opacity?:    number
+        badge?:      string
+        badgeTitle?: string
+        cursor?:     string
+        dimName?:    boolean
+        animated?:   boolean
+    }
+
+    export type VfsDragApi = {
+        showPrompt: (prompt: {
+            id:      string
+            text:    string
+            actions: { label: string; id: string }[]
+        }) => Promise<{ actionId: string }>
+        dispatch: (event: string, payload: any) => Promise<any>
+    }
+
+    export type VfsDragHooks = {
+        onDragStart?: (entries: any[], api: VfsDragApi) => Promise<{
+            entries:    any[]
+            cancelled?: boolean
+            warnings?:  string[]
+        }>
+        onDragEnd?: (effect: string, entries: any[], api: VfsDragApi) => Promise<void>
+    }
+
+    export type VfsHandlerDeclaration = {
+        resolver:     'frontend' | 'backend'
+        label:        string
+        icon?:        string
+        ops:          VfsOp[]
+        handler:      () => Promise<any>
+        stateStyles?: Record<string, VfsStateStyle>
+        dragHooks?:   VfsDragHooks
+    }
+
+    export type LinkHandlerDeclaration = {
+        /**
+         * Path prefix under the widget's scheme (derived from the widget
+         * type, like vfsHandlers), e.g. 'join/' for gexchange://join/….
+         */
+        path:   string
+        label?: string
+    }
+
+    export type ExtensionProvide = {
+        /** Extension point id, e.g. 'gexchange.board'. */
+        point:     string
+        component: () => Promise<any>
+        props?:    Record<string, any>
+    }
+
+    export type ExtensionConsume = {
+        point:     string
+        multiple?: boolean
+    }
+
+    export type MenuItemContribution = {
+        id:        string
+        type:      'command' | 'separator' | 'submenu'
+        actionId?: string
+        section?:  string
+        order?:    number
+        label?:    string
+    }
+
+    export type MenuContribution = {
+        scope: string
+        items: MenuItemContribution[]
+    }
+
+    export type WidgetMenuConfig = {
+        contributions: MenuContribution[]
+    }
+
+    export type MenuContextDeclaration = {
+        id:      string
+        label:   string
+        icon?:   string
+        builtin: boolean
+    }
+
+    export type WidgetActionDeclaration = {
+        id:            string
+        label:         string
+        targetWidget?: string
+        accepts?: {
+            contexts?:   string[]
+            extensions?: string[]
+        }
+        contextMenu?: {
+            label:         string
+            icon?:         string
+            submenuLabel?: string
+        }
+    }
+
+    export type WidgetManifest = {
+        api?:          '1.0'
+        id:            string
+        version:       string
+        displayName?:  string
+        description?:  string
+        Component:     any
+
+        capabilities?: CapabilityDeclaration[]
+        contexts?:     WidgetContexts
+        defaults?:     WidgetDefaults
+        configSchema?:     WidgetConfigSchema
+        configMigrations?: Record<string, WidgetConfigMigration>
+
+        workers?:      WidgetWorkerDeclaration[]
+        vfsHandlers?:  VfsHandlerDeclaration[]
+        links?:        LinkHandlerDeclaration[]
+        provides?:     ExtensionProvide[]
+        consumes?:     ExtensionConsume[]
+
+        menus?:        WidgetMenuConfig
+        menuContexts?: MenuContextDeclaration[]
+        actions?:      WidgetActionDeclaration[]
+        dropAccepts?:  (GexDnDType | string)[]
+    }
+
+    /** Identity helper — exists only to type-check the entry.ts manifest. Bundled into the widget. */
+    export function defineWidget<M extends WidgetManifest>(manifest: M): M
+
+    export type WidgetConfigManifest =
+        Pick<WidgetManifest, 'id' | 'version' | 'defaults' | 'configSchema' | 'configMigrations'>
+
+    export type WidgetConfigPatch = {
+        data?: Record<string, any>
+        view?: Record<string, any>
+    }
+
+    export type WidgetConfigHandle = {
+        /** Migrated, validated, defaults filled — what to render from. */
+        config: ComputedRef<PreparedWidgetConfig['config']>
+        /** Migrated and version-stamped, no defaults — what to persist. */
+        stored: ComputedRef<StoredWidgetConfig>
+        /** Emits `updateConfig` with the patch applied to `stored`. */
+        patch:  (partial: WidgetConfigPatch) => void
+    }
+
+    /**
+     * Migrates, validates and fills a stored config against the manifest.
+     * Bundled into the widget, not provided by the host.
+     */
+    export function prepareWidgetConfig(
+        manifest: Pick<WidgetManifest, 'version' | 'defaults' | 'configSchema' | 'configMigrations'>,
+        stored: StoredWidgetConfig | null | undefined,
+    ): PreparedWidgetConfig
+
+    /**
+     * A widget's config through prepareWidgetConfig(), kept in step with
+     * `props.config`. Persists migrations through `updateConfig`. Bundled into
+     * the widget, not provided by the host.
+     */
+    export function useWidgetConfig(
+        manifest: WidgetConfigManifest,
+        getConfig: () => StoredWidgetConfig | null | undefined,
+        updateConfig: (config: StoredWidgetConfig) => void,
+    ): WidgetConfigHandle
+
     // ── Free utilities and composables ─────────────────────────────────────
 
     export function createLinearSortable(options: CreateSortableOptions): SortableHandle
@@ -675,6 +1195,14 @@ declare module 'gexplorer/widgets' {
 
     export function createWidgetMessaging(sourceId: string): ScopedMessaging
 
+    /**
+     * Calls `listener` (default: console.debug) for every message this
+     * widget's messaging instances send or receive, requests and replies
+     * included. Returns the unsubscribe function. Bundled into the widget, so
+     * it works on any host.
+     */
+    export function inspectWidgetMessages(listener?: (msg: WidgetMessage) => void): () => void
+
     export function subscribeDrives(callback: (drives: DriveSnapshot[]) => void): () => void
     export function getDrives(): DriveSnapshot[]
 
@@ -690,7 +1218,7 @@ declare module 'gexplorer/widgets' {
     export function createLifecycle(ownerId: string): any
     export function useAudio(): any
 
-    export function registerWidgetMenus(widgetType: string, config: any): void
+    export function registerWidgetMenus(widgetType: string, config: WidgetMenuConfig): void
     export function startRename(options: any): any
     export function useDialog(): any
 